@@ -4,26 +4,56 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { StartupGate } from "@/components/StartupGate";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { Dashboard } from "@/components/Dashboard";
+import { ADOFDashboard } from "@/components/ADOFDashboard";
 import Index from "./pages/Index";
+import Auth from "./pages/Auth";
+import AccountSecurity from "./pages/AccountSecurity";
+import TvetTest from "./pages/TvetTest";
+import Results from "./pages/Results";
+import ResultHistory from "./pages/ResultHistory";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </AuthProvider>
+    <StartupGate>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Auth mode="signin" />} />
+              <Route path="/signup" element={<Auth mode="signup" />} />
+              <Route path="/forgot-password" element={<Auth mode="forgot-password" />} />
+              <Route path="/reset-password" element={<Auth mode="reset-password" />} />
+              <Route path="/verify-email" element={<Auth mode="verify-email" />} />
+
+              <Route element={<ProtectedRoute roles={["TVET"]} />}>
+                <Route path="/tvet" element={<Dashboard />} />
+                <Route path="/tvet/test" element={<TvetTest />} />
+                <Route path="/tvet/history" element={<ResultHistory />} />
+              </Route>
+              <Route element={<ProtectedRoute roles={["ADOF"]} />}>
+                <Route path="/adof/*" element={<ADOFDashboard />} />
+              </Route>
+              <Route element={<ProtectedRoute />}>
+                <Route path="/results/:resultId" element={<Results />} />
+                <Route path="/account/security" element={<AccountSecurity />} />
+              </Route>
+
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </AuthProvider>
+    </StartupGate>
   </QueryClientProvider>
 );
 
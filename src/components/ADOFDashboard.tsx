@@ -1,82 +1,44 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
-import { LogOut, User, BookOpen, Briefcase, FileText, ClipboardCheck, BarChart3 } from 'lucide-react';
+import { EnvironmentBadge } from './EnvironmentBadge';
+import { ROUTES } from '@/lib/routes';
+import { LogOut, ShieldCheck, User, BookOpen, Briefcase, FileText, ClipboardCheck, BarChart3 } from 'lucide-react';
 import { JobSelection } from './adof/JobSelection';
-import { CVCollection } from './adof/CVCollection';
-import { ADOFTestDisplay } from './adof/ADOFTestDisplay';
-import { ADOFReports } from './adof/ADOFReports';
+import { ADOFJobWizard } from './adof/ADOFJobWizard';
 
 type ADOFStep = 'jobs' | 'cv' | 'test' | 'report';
 
-interface SelectedJob {
-  id: string;
-  title: string;
-  company: string;
-  description: string;
-  requirements: string[];
-  skills: string[];
-}
+const STEPS: { key: ADOFStep; label: string; icon: typeof Briefcase }[] = [
+  { key: 'jobs', label: 'Select Job', icon: Briefcase },
+  { key: 'cv', label: 'Submit CV', icon: FileText },
+  { key: 'test', label: 'Take Test', icon: ClipboardCheck },
+  { key: 'report', label: 'View Report', icon: BarChart3 },
+];
 
-interface CVData {
-  name: string;
-  email: string;
-  phone: string;
-  experience: string;
-  skills: string[];
-  education: string;
-  file?: File;
-}
+// The wizard step lives in the URL: /adof/jobs/:jobId/{cv,test,report/:resultId}
+const stepFromPath = (pathname: string): ADOFStep => {
+  const match = pathname.match(/^\/adof\/jobs\/[^/]+\/(cv|test|report)(\/|$)/);
+  return match ? (match[1] as ADOFStep) : 'jobs';
+};
 
 export const ADOFDashboard: React.FC = () => {
   const { user, logout } = useAuth();
-  const [currentStep, setCurrentStep] = useState<ADOFStep>('jobs');
-  const [selectedJob, setSelectedJob] = useState<SelectedJob | null>(null);
-  const [cvData, setCvData] = useState<CVData | null>(null);
-  const [testResults, setTestResults] = useState<any>(null);
-
-  const handleJobSelect = (job: SelectedJob) => {
-    setSelectedJob(job);
-    setCurrentStep('cv');
-  };
-
-  const handleCVSubmit = (data: CVData) => {
-    setCvData(data);
-    setCurrentStep('test');
-  };
-
-  const handleTestComplete = (results: any) => {
-    setTestResults(results);
-    setCurrentStep('report');
-  };
-
-  const handleBackToJobs = () => {
-    setCurrentStep('jobs');
-    setSelectedJob(null);
-    setCvData(null);
-    setTestResults(null);
-  };
+  const navigate = useNavigate();
+  const location = useLocation();
+  const currentStep = stepFromPath(location.pathname);
 
   const renderStepIndicator = () => {
-    const steps = [
-      { key: 'jobs', label: 'Select Job', icon: Briefcase },
-      { key: 'cv', label: 'Submit CV', icon: FileText },
-      { key: 'test', label: 'Take Test', icon: ClipboardCheck },
-      { key: 'report', label: 'View Report', icon: BarChart3 },
-    ];
+    const currentIndex = STEPS.findIndex((step) => step.key === currentStep);
 
     return (
       <div className="flex justify-center mb-8">
         <div className="flex items-center space-x-4">
-          {steps.map((step, index) => {
+          {STEPS.map((step, index) => {
             const Icon = step.icon;
             const isActive = currentStep === step.key;
-            const isCompleted = 
-              (step.key === 'jobs' && selectedJob) ||
-              (step.key === 'cv' && cvData) ||
-              (step.key === 'test' && testResults) ||
-              (step.key === 'report' && testResults);
+            const isCompleted = index < currentIndex;
             
             return (
               <div key={step.key} className="flex items-center">
@@ -90,7 +52,7 @@ export const ADOFDashboard: React.FC = () => {
                   <Icon className="w-4 h-4" />
                   <span className="text-sm font-medium">{step.label}</span>
                 </div>
-                {index < steps.length - 1 && (
+                {index < STEPS.length - 1 && (
                   <div className="w-8 h-px bg-border mx-2" />
                 )}
               </div>
@@ -101,42 +63,6 @@ export const ADOFDashboard: React.FC = () => {
     );
   };
 
-  const renderCurrentStep = () => {
-    switch (currentStep) {
-      case 'jobs':
-        return <JobSelection onJobSelect={handleJobSelect} />;
-      case 'cv':
-        return (
-          <CVCollection 
-            selectedJob={selectedJob!} 
-            onCVSubmit={handleCVSubmit}
-            onBack={() => setCurrentStep('jobs')}
-          />
-        );
-      case 'test':
-        return (
-          <ADOFTestDisplay 
-            selectedJob={selectedJob!}
-            cvData={cvData!}
-            userId={user?.id || ''}
-            onTestComplete={handleTestComplete}
-            onBack={() => setCurrentStep('cv')}
-          />
-        );
-      case 'report':
-        return (
-          <ADOFReports 
-            selectedJob={selectedJob!}
-            cvData={cvData!}
-            testResults={testResults}
-            onBackToJobs={handleBackToJobs}
-          />
-        );
-      default:
-        return <JobSelection onJobSelect={handleJobSelect} />;
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -148,6 +74,7 @@ export const ADOFDashboard: React.FC = () => {
                 <BookOpen className="w-4 h-4 text-primary-foreground" />
               </div>
               <h1 className="text-xl font-bold text-foreground">EduPlatform - ADOF</h1>
+              <EnvironmentBadge />
             </div>
             
             <div className="flex items-center space-x-4">
@@ -158,6 +85,15 @@ export const ADOFDashboard: React.FC = () => {
                   {user?.role}
                 </span>
               </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(ROUTES.accountSecurity)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Security
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -189,7 +125,11 @@ export const ADOFDashboard: React.FC = () => {
           {renderStepIndicator()}
 
           {/* Current Step Content */}
-          {renderCurrentStep()}
+          <Routes>
+            <Route path="jobs" element={<JobSelection onJobSelect={(job) => navigate(ROUTES.adofCv(job.id))} />} />
+            <Route path="jobs/:jobId/*" element={<ADOFJobWizard />} />
+            <Route path="*" element={<Navigate to={ROUTES.adofJobs} replace />} />
+          </Routes>
         </div>
       </main>
     </div>
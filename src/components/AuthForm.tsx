@@ -4,17 +4,42 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { api, SignupData, SigninData } from '@/lib/api';
+import { api, AuthSession, EMAIL_NOT_VERIFIED, HttpError, SignupData, SigninData } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2, GraduationCap } from 'lucide-react';
+import { ForgotPasswordForm } from '@/components/auth/ForgotPasswordForm';
+import { ResetPasswordForm } from '@/components/auth/ResetPasswordForm';
+import { VerifyEmailPanel } from '@/components/auth/VerifyEmailPanel';
+import { TwoFactorChallengeForm } from '@/components/auth/TwoFactorChallengeForm';
+import { Loader2, GraduationCap, MailWarning } from 'lucide-react';
+
+export type AuthMode = 'signin' | 'signup' | 'forgot-password' | 'reset-password' | 'verify-email';
+
+const MODE_COPY: Record<AuthMode, { title: string; description: string }> = {
+  signin: { title: 'Welcome Back', description: 'Sign in to your account to continue' },
+  signup: { title: 'Create Account', description: 'Join our educational platform today' },
+  'forgot-password': {
+    title: 'Forgot Password',
+    description: "Enter your email and we'll send you a link to reset your password",
+  },
+  'reset-password': { title: 'Reset Password', description: 'Choose a new password for your account' },
+  'verify-email': { title: 'Verify Email', description: 'Confirming your email address' },
+};
+
+const TWO_FACTOR_COPY = {
+  title: 'Two-Factor Authentication',
+  description: 'One more step to confirm it is you',
+};
 
 interface AuthFormProps {
-  mode: 'signin' | 'signup';
-  onToggleMode: () => void;
+  mode: AuthMode;
+  onModeChange: (mode: AuthMode) => void;
+  /** Token from an emailed link, used by the reset-password and verify-email modes. */
+  token?: string;
 }
 
-export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
+export const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, token }) => {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -22,6 +47,10 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
     role: '' as 'TVET' | 'ADOF' | '',
   });
   const [isLoading, setIsLoading] = useState(false);
+  // Set when sign-in is refused because the account's email is not verified yet.
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  // Set while sign-in waits for the second factor.
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const { login } = useAuth();
   const { toast } = useToast();
 
@@ -29,9 +58,39 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleAuthenticated = (session: AuthSession) => {
+    login(session);
+    toast({
+      title: 'Welcome back!',
+      description: 'Successfully signed in.',
+    });
+  };
+
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+    setIsLoading(true);
+
+    try {
+      const response = await api.resendVerificationEmail(unverifiedEmail);
+      toast({
+        title: 'Verification email sent',
+        description: response.message || 'Please check your inbox for a new link.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setUnverifiedEmail(null);
 
     try {
       if (mode === 'signup') {
@@ -50,7 +109,7 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
         
         toast({
           title: 'Account created successfully!',
-          description: 'Please sign in with your credentials.',
+          description: 'Check your email to verify your account, then sign in.',
         });
         
         // Clear form and switch to signin mode
@@ -60,7 +119,7 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
           password: '',
           role: '' as 'TVET' | 'ADOF' | '',
         });
-        onToggleMode();
+        onModeChange('signin');
       } else {
         if (!formData.email || !formData.password) {
           throw new Error('Please fill in all fields');
@@ -71,23 +130,20 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
           password: formData.password,
         };
         
-        const response = await api.signin(signinData);
-        
-        // Handle the API response format: { message: "Login successful", user: {...} }
-        const userData = response.user || {
-          id: response.id || Date.now().toString(),
-          name: response.name || 'User',
-          email: formData.email,
-          role: response.role || 'TVET',
-        };
+        // Rejects with an explicit error if the server does not return a user and tokens
+        const result = await api.signin(signinData);
         
-        login(userData);
-        toast({
-          title: 'Welcome back!',
-          description: 'Successfully signed in.',
-        });
+        if (result.status === 'two_factor_required') {
+          setChallengeToken(result.challengeToken);
+          return;
+        }
+        handleAuthenticated(result.session);
       }
     } catch (error) {
+      if (mode === 'signin' && error instanceof HttpError && error.code === EMAIL_NOT_VERIFIED) {
+        setUnverifiedEmail(formData.email);
+        return;
+      }
       toast({
         title: 'Error',
         description: error instanceof Error ? error.message : 'Something went wrong',
@@ -98,6 +154,36 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
     }
   };
 
+  const handleBackToSignin = () => {
+    setChallengeToken(null);
+    onModeChange('signin');
+  };
+
+  const renderModePanel = () => {
+    if (mode === 'signin' && challengeToken) {
+      return <TwoFactorChallengeForm challengeToken={challengeToken} onAuthenticated={handleAuthenticated} />;
+    }
+    switch (mode) {
+      case 'forgot-password':
+        return <ForgotPasswordForm onBackToSignin={() => onModeChange('signin')} />;
+      case 'reset-password':
+        return (
+          <ResetPasswordForm
+            token={token}
+            onBackToSignin={() => onModeChange('signin')}
+            onRequestNewLink={() => onModeChange('forgot-password')}
+          />
+        );
+      case 'verify-email':
+        return <VerifyEmailPanel token={token} onBackToSignin={() => onModeChange('signin')} />;
+      default:
+        return null;
+    }
+  };
+
+  const modePanel = renderModePanel();
+  const copy = mode === 'signin' && challengeToken ? TWO_FACTOR_COPY : MODE_COPY[mode];
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background relative overflow-hidden">
       {/* Background decorative elements */}
@@ -114,141 +200,179 @@ export const AuthForm: React.FC<AuthFormProps> = ({ mode, onToggleMode }) => {
           </div>
           <div>
             <CardTitle className="text-2xl font-bold">
-              {mode === 'signin' ? 'Welcome Back' : 'Create Account'}
+              {copy.title}
             </CardTitle>
             <CardDescription className="text-muted-foreground mt-2">
-              {mode === 'signin' 
-                ? 'Sign in to your account to continue' 
-                : 'Join our educational platform today'
-              }
+              {copy.description}
             </CardDescription>
           </div>
         </CardHeader>
         
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {mode === 'signup' && (
-              <div className="space-y-2">
-                <Label htmlFor="name" className="text-foreground">Full Name</Label>
-                <Input
-                  id="name"
-                  type="text"
-                  placeholder="Enter your full name"
-                  value={formData.name}
-                  onChange={(e) => handleInputChange('name', e.target.value)}
-                  className="bg-input/50 border-border/50 focus:border-primary"
-                  required
-                />
+          {modePanel ? (
+            <>
+              {modePanel}
+              <div className="mt-6 text-center text-sm">
+                <button
+                  type="button"
+                  onClick={handleBackToSignin}
+                  className="font-medium text-primary hover:underline"
+                >
+                  Back to sign in
+                </button>
               </div>
-            )}
+            </>
+          ) : (
+            <>
+              {unverifiedEmail && (
+                <Alert className="mb-6">
+                  <MailWarning className="h-4 w-4" />
+                  <AlertTitle>Email not verified</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>Please verify {unverifiedEmail} using the link we emailed you before signing in.</p>
+                    <Button type="button" variant="outline" size="sm" onClick={handleResendVerification} disabled={isLoading}>
+                      Resend verification email
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {mode === 'signup' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="name" className="text-foreground">Full Name</Label>
+                    <Input
+                      id="name"
+                      type="text"
+                      placeholder="Enter your full name"
+                      value={formData.name}
+                      onChange={(e) => handleInputChange('name', e.target.value)}
+                      className="bg-input/50 border-border/50 focus:border-primary"
+                      required
+                    />
+                  </div>
+                )}
             
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-foreground">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter your email"
-                value={formData.email}
-                onChange={(e) => handleInputChange('email', e.target.value)}
-                className="bg-input/50 border-border/50 focus:border-primary"
-                required
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email" className="text-foreground">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={formData.email}
+                    onChange={(e) => handleInputChange('email', e.target.value)}
+                    className="bg-input/50 border-border/50 focus:border-primary"
+                    required
+                  />
+                </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-foreground">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={formData.password}
-                onChange={(e) => handleInputChange('password', e.target.value)}
-                className="bg-input/50 border-border/50 focus:border-primary"
-                required
-              />
-            </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password" className="text-foreground">Password</Label>
+                    {mode === 'signin' && (
+                      <button
+                        type="button"
+                        onClick={() => onModeChange('forgot-password')}
+                        className="text-xs font-medium text-primary hover:underline"
+                        disabled={isLoading}
+                      >
+                        Forgot password?
+                      </button>
+                    )}
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={formData.password}
+                    onChange={(e) => handleInputChange('password', e.target.value)}
+                    className="bg-input/50 border-border/50 focus:border-primary"
+                    required
+                  />
+                </div>
             
-            {mode === 'signup' && (
-              <div className="space-y-2">
-                <Label htmlFor="role" className="text-foreground">Role</Label>
-                <Select onValueChange={(value) => handleInputChange('role', value)}>
-                  <SelectTrigger className="bg-input/50 border-border/50 focus:border-primary">
-                    <SelectValue placeholder="Select your role" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="TVET">TVET (Technical & Vocational Education)</SelectItem>
-                    <SelectItem value="ADOF">ADOF (Administrative Officer)</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            )}
+                {mode === 'signup' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="role" className="text-foreground">Role</Label>
+                    <Select onValueChange={(value) => handleInputChange('role', value)}>
+                      <SelectTrigger className="bg-input/50 border-border/50 focus:border-primary">
+                        <SelectValue placeholder="Select your role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="TVET">TVET (Technical & Vocational Education)</SelectItem>
+                        <SelectItem value="ADOF">ADOF (Administrative Officer)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
             
-            <Button
-              type="submit"
-              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-6"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {mode === 'signin' ? 'Signing in...' : 'Creating account...'}
-                </>
-              ) : (
-                mode === 'signin' ? 'Sign In' : 'Create Account'
-              )}
-            </Button>
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-6"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {mode === 'signin' ? 'Signing in...' : 'Creating account...'}
+                    </>
+                  ) : (
+                    mode === 'signin' ? 'Sign In' : 'Create Account'
+                  )}
+                </Button>
             
-            <div className="relative my-6">
-              <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t border-border" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-card px-2 text-muted-foreground">Or continue with</span>
-              </div>
-            </div>
+                <div className="relative my-6">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t border-border" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-card px-2 text-muted-foreground">Or continue with</span>
+                  </div>
+                </div>
             
-            <div className="grid grid-cols-2 gap-4">
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full bg-background hover:bg-accent/50"
-                disabled={isLoading}
-              >
-                <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4"/>
-                  <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853"/>
-                  <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l3.66-2.84z" fill="#FBBC05"/>
-                  <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335"/>
-                </svg>
-                Google
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full bg-background hover:bg-accent/50"
-                disabled={isLoading}
-              >
-                <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.413v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
-                </svg>
-                LinkedIn
-              </Button>
-            </div>
-          </form>
+                <div className="grid grid-cols-2 gap-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full bg-background hover:bg-accent/50"
+                    disabled={isLoading}
+                  >
+                    <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4"/>
+                      <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853"/>
+                      <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l3.66-2.84z" fill="#FBBC05"/>
+                      <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335"/>
+                    </svg>
+                    Google
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full bg-background hover:bg-accent/50"
+                    disabled={isLoading}
+                  >
+                    <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.413v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
+                    </svg>
+                    LinkedIn
+                  </Button>
+                </div>
+              </form>
           
-          <div className="mt-6 text-center text-sm">
-            <span className="text-muted-foreground">
-              {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
-            </span>
-            <button
-              type="button"
-              onClick={onToggleMode}
-              className="font-medium text-primary hover:underline"
-              disabled={isLoading}
-            >
-              {mode === 'signin' ? 'Sign up' : 'Sign in'}
-            </button>
-          </div>
+              <div className="mt-6 text-center text-sm">
+                <span className="text-muted-foreground">
+                  {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onModeChange(mode === 'signin' ? 'signup' : 'signin')}
+                  className="font-medium text-primary hover:underline"
+                  disabled={isLoading}
+                >
+                  {mode === 'signin' ? 'Sign up' : 'Sign in'}
+                </button>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
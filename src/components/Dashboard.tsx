@@ -1,23 +1,69 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
+import { EnvironmentBadge } from './EnvironmentBadge';
 import { useToast } from '@/hooks/use-toast';
-import { api, GenerateTestResponse } from '@/lib/api';
-import { LogOut, User, BookOpen, FileText, Loader2, CheckCircle, TrendingUp, Users, Award, Clock } from 'lucide-react';
-import { TestDisplay } from './TestDisplay';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
+import { api, GenerateTestResponse, ResultSummary } from '@/lib/api';
+import { ROUTES } from '@/lib/routes';
+import { deleteTestDraft, findLatestTestDraft, TestDraft } from '@/lib/test-drafts';
+import { ResumeDraftCard } from './ResumeDraftCard';
+import { ProgressAnalytics } from './dashboard/ProgressAnalytics';
+import { LogOut, ShieldCheck, History, User, BookOpen, FileText, Loader2, CheckCircle } from 'lucide-react';
 
 export const Dashboard: React.FC = () => {
   const { user, logout } = useAuth();
+  const navigate = useNavigate();
   const { toast } = useToast();
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedTest, setGeneratedTest] = useState<GenerateTestResponse | null>(null);
+  const [unfinishedDraft, setUnfinishedDraft] = useState<TestDraft | null>(null);
+  const [results, setResults] = useState<ResultSummary[] | null>(null);
+  const [resultsError, setResultsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    findLatestTestDraft(user.id, { source: 'tvet' }).then((draft) => {
+      if (!cancelled) setUnfinishedDraft(draft);
+    });
+    api
+      .listResults(user.id)
+      .then((loaded) => {
+        if (!cancelled) setResults(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setResultsError(err instanceof Error ? err.message : 'Failed to load your results');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const handleResumeDraft = () => {
+    if (!unfinishedDraft) return;
+    const test: GenerateTestResponse = {
+      testId: unfinishedDraft.testId,
+      questions: unfinishedDraft.questions,
+      message: '',
+      ...unfinishedDraft.limits,
+    };
+    navigate(ROUTES.tvetTest, { state: { test } });
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!unfinishedDraft) return;
+    await deleteTestDraft(unfinishedDraft.userId, unfinishedDraft.testId);
+    setUnfinishedDraft(null);
+  };
 
   const handleGenerateTest = async () => {
     if (!user) return;
     
     setIsGenerating(true);
+    let generatedTest: GenerateTestResponse;
     try {
       // First generate the test
       console.log('Step 1: Generating test...');
@@ -33,18 +79,19 @@ export const Dashboard: React.FC = () => {
         // Use MCQs data if it has questions, otherwise use generated test data
         if (mcqsData.questions && mcqsData.questions.length > 0) {
           console.log('Using MCQs from database');
-          setGeneratedTest({
+          generatedTest = {
             ...testData,
-            ...mcqsData,
-            mcqs_id: mcqsData.mcqs_id || mcqsData.document_id || testData.mcqs_id
-          });
+            questions: mcqsData.questions,
+            message: mcqsData.message || testData.message,
+            testId: mcqsData.testId || testData.testId,
+          };
         } else {
           console.log('Using generated test data');
-          setGeneratedTest(testData);
+          generatedTest = testData;
         }
       } catch (mcqError) {
         console.warn('Could not get MCQs from database, using generated test:', mcqError);
-        setGeneratedTest(testData);
+        generatedTest = testData;
       }
       
       toast({
@@ -57,59 +104,13 @@ export const Dashboard: React.FC = () => {
         description: error instanceof Error ? error.message : 'Failed to generate test',
         variant: 'destructive',
       });
+      return;
     } finally {
       setIsGenerating(false);
     }
+    navigate(ROUTES.tvetTest, { state: { test: generatedTest } });
   };
 
-  const handleNewTest = () => {
-    setGeneratedTest(null);
-  };
-
-  // Mock data for charts
-  const performanceData = [
-    { name: 'Week 1', score: 75 },
-    { name: 'Week 2', score: 82 },
-    { name: 'Week 3', score: 78 },
-    { name: 'Week 4', score: 88 },
-  ];
-
-  const skillsData = [
-    { name: 'Communication', value: 85, color: 'hsl(var(--primary))' },
-    { name: 'Technical Skills', value: 72, color: 'hsl(var(--secondary))' },
-    { name: 'Problem Solving', value: 78, color: 'hsl(var(--accent))' },
-    { name: 'Leadership', value: 65, color: 'hsl(var(--muted))' },
-  ];
-
-  const activityData = [
-    { name: 'Mon', tests: 2 },
-    { name: 'Tue', tests: 1 },
-    { name: 'Wed', tests: 3 },
-    { name: 'Thu', tests: 2 },
-    { name: 'Fri', tests: 4 },
-    { name: 'Sat', tests: 1 },
-    { name: 'Sun', tests: 0 },
-  ];
-
-  if (generatedTest) {
-    if (!user?.id) {
-      console.error('User ID is missing:', user);
-      return (
-        <div className="min-h-screen bg-background flex items-center justify-center">
-          <Card>
-            <CardContent className="p-6">
-              <p className="text-destructive">Error: User ID is missing. Please log in again.</p>
-              <Button onClick={logout} className="mt-4">
-                Back to Login
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      );
-    }
-    return <TestDisplay testData={generatedTest} onNewTest={handleNewTest} userId={user.id} />;
-  }
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -121,6 +122,7 @@ export const Dashboard: React.FC = () => {
                 <BookOpen className="w-4 h-4 text-primary-foreground" />
               </div>
               <h1 className="text-xl font-bold text-foreground">EduPlatform</h1>
+              <EnvironmentBadge />
             </div>
             
             <div className="flex items-center space-x-4">
@@ -131,6 +133,24 @@ export const Dashboard: React.FC = () => {
                   {user?.role}
                 </span>
               </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(ROUTES.tvetHistory)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(ROUTES.accountSecurity)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Security
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -148,6 +168,12 @@ export const Dashboard: React.FC = () => {
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
         <div className="max-w-4xl mx-auto">
+          {unfinishedDraft && (
+            <div className="mb-8">
+              <ResumeDraftCard draft={unfinishedDraft} onResume={handleResumeDraft} onDiscard={handleDiscardDraft} />
+            </div>
+          )}
+
           {/* Hero Section with Test Generation */}
           <div className="text-center mb-16">
             <div className="relative overflow-hidden bg-gradient-to-br from-primary/10 via-accent/5 to-secondary/10 border border-primary/30 rounded-3xl p-12 mb-8">
@@ -199,159 +225,30 @@ export const Dashboard: React.FC = () => {
             </div>
           </div>
 
-          {/* Stats Cards */}
-          <div className="grid md:grid-cols-4 gap-6 mb-12">
-            <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm font-medium text-muted-foreground">Tests Taken</CardTitle>
-                  <Award className="w-5 h-5 text-primary" />
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold text-foreground">12</div>
-                <p className="text-xs text-muted-foreground mt-1">+2 from last week</p>
-              </CardContent>
-            </Card>
-            
-            <Card className="bg-gradient-to-br from-success/10 to-success/5 border-success/20">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm font-medium text-muted-foreground">Average Score</CardTitle>
-                  <TrendingUp className="w-5 h-5 text-success" />
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold text-foreground">82%</div>
-                <p className="text-xs text-muted-foreground mt-1">+5% improvement</p>
-              </CardContent>
-            </Card>
-            
-            <Card className="bg-gradient-to-br from-accent/10 to-accent/5 border-accent/20">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm font-medium text-muted-foreground">Study Time</CardTitle>
-                  <Clock className="w-5 h-5 text-accent" />
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold text-foreground">24h</div>
-                <p className="text-xs text-muted-foreground mt-1">This month</p>
-              </CardContent>
-            </Card>
-            
-            <Card className="bg-gradient-to-br from-secondary/10 to-secondary/5 border-secondary/20">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm font-medium text-muted-foreground">Rank</CardTitle>
-                  <Users className="w-5 h-5 text-secondary" />
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="text-3xl font-bold text-foreground">#15</div>
-                <p className="text-xs text-muted-foreground mt-1">Top 20%</p>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Charts Section */}
-          <div className="grid lg:grid-cols-2 gap-8 mb-12">
-            {/* Performance Chart */}
-            <Card className="bg-card/50 border-border/50">
-              <CardHeader>
-                <CardTitle className="text-xl">Performance Trends</CardTitle>
-                <CardDescription>Your test scores over the last 4 weeks</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={performanceData}>
-                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                      <XAxis dataKey="name" className="text-xs" />
-                      <YAxis className="text-xs" />
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: 'hsl(var(--card))', 
-                          border: '1px solid hsl(var(--border))', 
-                          borderRadius: '8px' 
-                        }} 
-                      />
-                      <Line 
-                        type="monotone" 
-                        dataKey="score" 
-                        stroke="hsl(var(--primary))" 
-                        strokeWidth={3}
-                        dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 6 }}
-                      />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
+          {/* Progress */}
+          {resultsError ? (
+            <Card className="mb-12">
+              <CardContent className="p-6 text-center text-muted-foreground">
+                Your progress could not be loaded: {resultsError}
               </CardContent>
             </Card>
-
-            {/* Skills Breakdown */}
-            <Card className="bg-card/50 border-border/50">
-              <CardHeader>
-                <CardTitle className="text-xl">Skills Breakdown</CardTitle>
-                <CardDescription>Your proficiency across different areas</CardDescription>
+          ) : !results ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+              Loading your progress...
+            </div>
+          ) : results.length === 0 ? (
+            <Card className="mb-12 bg-card/50 border-border/50">
+              <CardHeader className="text-center">
+                <CardTitle className="text-xl">No results yet</CardTitle>
+                <CardDescription>
+                  Your scores, trait trends and activity will appear here after your first assessment.
+                </CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={skillsData}
-                        cx="50%"
-                        cy="50%"
-                        outerRadius={80}
-                        dataKey="value"
-                        label={({ name, value }) => `${name}: ${value}%`}
-                      >
-                        {skillsData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={entry.color} />
-                        ))}
-                      </Pie>
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: 'hsl(var(--card))', 
-                          border: '1px solid hsl(var(--border))', 
-                          borderRadius: '8px' 
-                        }} 
-                      />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
-              </CardContent>
             </Card>
-          </div>
-
-          {/* Activity Chart */}
-          <Card className="bg-card/50 border-border/50 mb-12">
-            <CardHeader>
-              <CardTitle className="text-xl">Weekly Activity</CardTitle>
-              <CardDescription>Number of tests taken each day this week</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="h-64">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={activityData}>
-                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="name" className="text-xs" />
-                    <YAxis className="text-xs" />
-                    <Tooltip 
-                      contentStyle={{ 
-                        backgroundColor: 'hsl(var(--card))', 
-                        border: '1px solid hsl(var(--border))', 
-                        borderRadius: '8px' 
-                      }} 
-                    />
-                    <Bar dataKey="tests" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
-            </CardContent>
-          </Card>
-
+          ) : (
+            <ProgressAnalytics results={results} />
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getConfig } from '@/lib/config';
+
+const ENVIRONMENT_STYLES = {
+  local: 'bg-blue-100 text-blue-700 border-blue-200',
+  staging: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  mock: 'bg-purple-100 text-purple-700 border-purple-200',
+};
+
+/**
+ * Marks non-production builds and mock-backend mode in page headers.
+ * Renders nothing for a production build talking to the real backend.
+ */
+export const EnvironmentBadge: React.FC = () => {
+  const { environment, apiBaseUrl, mockBackend } = getConfig();
+
+  if (mockBackend) {
+    return (
+      <Badge variant="outline" className={`text-xs uppercase ${ENVIRONMENT_STYLES.mock}`} title="Offline mock backend">
+        mock
+      </Badge>
+    );
+  }
+
+  if (environment === 'production') return null;
+
+  return (
+    <Badge variant="outline" className={`text-xs uppercase ${ENVIRONMENT_STYLES[environment]}`} title={apiBaseUrl}>
+      {environment}
+    </Badge>
+  );
+};
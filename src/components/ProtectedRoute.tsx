@@ -0,0 +1,40 @@
+import React, { ReactNode } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { User } from '@/lib/api';
+import { loginPath } from '@/lib/routes';
+import Forbidden from '@/pages/Forbidden';
+
+interface ProtectedRouteProps {
+  /** Roles allowed on this route; any signed-in user when omitted. */
+  roles?: User['role'][];
+  /** Rendered when allowed; nested routes render through `<Outlet />` otherwise. */
+  children?: ReactNode;
+}
+
+/**
+ * Route guard: sends signed-out visitors to the login page with a return URL
+ * and shows a 403 page, without changing the URL, for the wrong role.
+ */
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ roles, children }) => {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to={loginPath(`${location.pathname}${location.search}`)} replace />;
+  }
+
+  if (roles && !roles.includes(user.role)) {
+    return <Forbidden />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
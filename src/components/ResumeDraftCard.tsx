@@ -0,0 +1,56 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { TestDraft } from '@/lib/test-drafts';
+import { History, PlayCircle, Trash2 } from 'lucide-react';
+
+interface ResumeDraftCardProps {
+  draft: TestDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+  /** Label for the discard action, e.g. "Start over" where discarding starts a new test. */
+  discardLabel?: string;
+}
+
+export const ResumeDraftCard: React.FC<ResumeDraftCardProps> = ({
+  draft,
+  onResume,
+  onDiscard,
+  discardLabel = 'Discard',
+}) => {
+  const answered = Object.keys(draft.answers).length;
+  const total = draft.questions.length;
+  const { candidateName } = draft;
+
+  return (
+    <Card className="border-primary/30 bg-primary/5">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-primary" />
+          <span>
+            {candidateName ? `Resume ${candidateName}'s unfinished assessment` : 'Resume your unfinished assessment'}
+          </span>
+        </CardTitle>
+        <CardDescription>
+          {candidateName ?? 'You'} answered {answered} of {total} questions. Last saved{' '}
+          {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={total > 0 ? (answered / total) * 100 : 0} className="h-2" />
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={onResume}>
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
+          <Button variant="outline" onClick={onDiscard}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            {discardLabel}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
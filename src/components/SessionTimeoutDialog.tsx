@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock } from 'lucide-react';
+
+interface SessionTimeoutDialogProps {
+  /** Milliseconds until the idle logout, or null when no warning is due. */
+  remainingMs: number | null;
+  onStayActive: () => void;
+  onSignOut: () => void;
+}
+
+export const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({ remainingMs, onStayActive, onSignOut }) => {
+  const seconds = Math.max(0, Math.ceil((remainingMs ?? 0) / 1000));
+
+  return (
+    <AlertDialog open={remainingMs !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center space-x-2">
+            <Clock className="w-5 h-5 text-primary" />
+            <span>Are you still there?</span>
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            For your security you will be signed out in {seconds} second{seconds === 1 ? '' : 's'} due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>Sign Out</AlertDialogCancel>
+          <AlertDialogAction onClick={onStayActive}>Stay Signed In</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
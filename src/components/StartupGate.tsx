@@ -0,0 +1,101 @@
+import React, { useCallback, useEffect, useState, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AppConfig, getConfig, loadConfig } from '@/lib/config';
+import { pingBackend } from '@/lib/http';
+import { ServerCrash, RefreshCw } from 'lucide-react';
+
+type StartupState =
+  | { phase: 'loading' }
+  | { phase: 'ready' }
+  | { phase: 'failed'; title: string; detail: string; config?: AppConfig };
+
+interface StartupGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Loads runtime configuration and checks the backend before rendering the app,
+ * so an unreachable server is reported up front instead of on the first call.
+ */
+export const StartupGate: React.FC<StartupGateProps> = ({ children }) => {
+  const [state, setState] = useState<StartupState>({ phase: 'loading' });
+
+  const start = useCallback(async () => {
+    setState({ phase: 'loading' });
+
+    let config: AppConfig;
+    try {
+      config = await loadConfig();
+    } catch (error) {
+      setState({
+        phase: 'failed',
+        title: 'Configuration error',
+        detail: error instanceof Error ? error.message : 'Could not load configuration.',
+      });
+      return;
+    }
+
+    const health = await pingBackend();
+    if (!health.reachable) {
+      setState({
+        phase: 'failed',
+        title: 'Backend unreachable',
+        detail: health.error || 'The server did not respond.',
+        config,
+      });
+      return;
+    }
+
+    setState({ phase: 'ready' });
+  }, []);
+
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  if (state.phase === 'ready') {
+    return <>{children}</>;
+  }
+
+  if (state.phase === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Connecting to server...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const config = state.config || getConfig();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="w-12 h-12 bg-destructive/10 rounded-xl flex items-center justify-center">
+              <ServerCrash className="w-6 h-6 text-destructive" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold">{state.title}</CardTitle>
+            <CardDescription className="mt-2">{state.detail}</CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="p-4 bg-muted/50 rounded-lg text-sm space-y-1">
+            <p><strong>Environment:</strong> {config.environment}</p>
+            <p className="break-all"><strong>Backend:</strong> {config.apiBaseUrl || 'Not configured'}</p>
+          </div>
+          <Button onClick={start} className="w-full">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -4,6 +4,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TestResult } from '@/lib/api';
+import { useNormComparison } from '@/hooks/use-norm-comparison';
+import { NormGroupSelect } from './assessment/NormGroupSelect';
+import { TraitRadarChart } from './assessment/TraitRadarChart';
+import { TraitScoreTable } from './assessment/TraitScoreTable';
+import { ValidityBanner } from './assessment/ValidityBanner';
 import { Trophy, BarChart3, ArrowLeft, RotateCcw } from 'lucide-react';
 
 interface TestResultsProps {
@@ -19,6 +24,9 @@ export const TestResults: React.FC<TestResultsProps> = ({
 }) => {
   const { data } = result;
   const { percentage, total_score, max_score, analysis } = data;
+  // Older results carry only the labels in `analysis`
+  const traitScores = data.trait_scores ?? [];
+  const normComparison = useNormComparison(['tvet', 'all'], traitScores);
 
   const getScoreColor = (percentage: number) => {
     if (percentage >= 80) return 'text-green-600';
@@ -69,9 +77,19 @@ export const TestResults: React.FC<TestResultsProps> = ({
               </div>
             </div>
             <h1 className="text-3xl font-bold text-foreground mb-2">Test Results</h1>
-            <p className="text-muted-foreground">Your assessment has been completed successfully</p>
+            <p className="text-muted-foreground">
+              {data.partial
+                ? 'Time ran out before every question was answered. Unanswered questions scored zero.'
+                : 'Your assessment has been completed successfully'}
+            </p>
           </div>
 
+          {data.validity && data.validity.band !== 'acceptable' && (
+            <div className="mb-8">
+              <ValidityBanner validity={data.validity} />
+            </div>
+          )}
+
           {/* Score Overview */}
           <Card className="mb-8 bg-gradient-to-r from-primary/5 to-primary/10 border-primary/20">
             <CardHeader className="text-center">
@@ -99,7 +117,7 @@ export const TestResults: React.FC<TestResultsProps> = ({
           </Card>
 
           {/* Analysis Section */}
-          {Object.keys(analysis).length > 0 && (
+          {(traitScores.length > 0 || Object.keys(analysis).length > 0) && (
             <Card className="mb-8">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
@@ -111,22 +129,40 @@ export const TestResults: React.FC<TestResultsProps> = ({
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid gap-4">
-                  {Object.entries(analysis).map(([trait, level]) => (
-                    <div key={trait} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
-                      <div>
-                        <h3 className="font-semibold text-foreground">{trait}</h3>
-                        <p className="text-sm text-muted-foreground">Assessment category</p>
+                {traitScores.length > 0 ? (
+                  <div className="space-y-6">
+                    <TraitRadarChart traits={traitScores} />
+                    {normComparison.available.length > 0 && (
+                      <NormGroupSelect
+                        groups={normComparison.available}
+                        value={normComparison.group}
+                        onChange={normComparison.setGroup}
+                      />
+                    )}
+                    <TraitScoreTable
+                      traits={traitScores}
+                      norms={normComparison.norms}
+                      normGroup={normComparison.group}
+                    />
+                  </div>
+                ) : (
+                  <div className="grid gap-4">
+                    {Object.entries(analysis).map(([trait, level]) => (
+                      <div key={trait} className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+                        <div>
+                          <h3 className="font-semibold text-foreground">{trait}</h3>
+                          <p className="text-sm text-muted-foreground">Assessment category</p>
+                        </div>
+                        <Badge 
+                          variant={level === 'Strength' ? 'default' : 'secondary'}
+                          className="text-sm"
+                        >
+                          {level}
+                        </Badge>
                       </div>
-                      <Badge 
-                        variant={level === 'Strength' ? 'default' : 'secondary'}
-                        className="text-sm"
-                      >
-                        {level}
-                      </Badge>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { api, Job, TestResult } from '@/lib/api';
+import { CVData, loadCvData, saveCvData } from '@/lib/adof-wizard';
+import { ROUTES } from '@/lib/routes';
+import { AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+import { CVCollection } from './CVCollection';
+import { ADOFTestDisplay } from './ADOFTestDisplay';
+import { ADOFReports } from './ADOFReports';
+
+const StepLoading: React.FC<{ message: string }> = ({ message }) => (
+  <Card>
+    <CardContent className="py-12">
+      <div className="flex flex-col items-center justify-center space-y-4 text-muted-foreground">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        <p>{message}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+interface ReportStepProps {
+  job: Job;
+  cvData: CVData;
+}
+
+/** Loads the result named in the URL; an unknown result sends the officer back to the test. */
+const ReportStep: React.FC<ReportStepProps> = ({ job, cvData }) => {
+  const { resultId } = useParams<{ resultId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const handedOver = (location.state as { result?: TestResult } | null)?.result;
+  const [result, setResult] = useState<TestResult | null>(
+    handedOver?.data.result_id === resultId ? handedOver : null
+  );
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!resultId || result?.data.result_id === resultId) return;
+    let cancelled = false;
+
+    api
+      .getResultById(resultId)
+      .then((loaded) => {
+        if (!cancelled) setResult(loaded);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Failed to load ADOF result:', error);
+        toast({
+          title: 'Report Unavailable',
+          description: 'That assessment result could not be found. Please take the assessment.',
+          variant: 'destructive',
+        });
+        setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resultId, result, toast]);
+
+  if (failed) return <Navigate to={ROUTES.adofTest(job.id)} replace />;
+  if (!result) return <StepLoading message="Loading assessment report..." />;
+
+  return (
+    <ADOFReports
+      selectedJob={job}
+      cvData={cvData}
+      testResults={result}
+      onBackToJobs={() => navigate(ROUTES.adofJobs)}
+    />
+  );
+};
+
+interface JobStepsProps {
+  jobId: string;
+}
+
+const JobSteps: React.FC<JobStepsProps> = ({ jobId }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [job, setJob] = useState<Job | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const [cvData, setCvData] = useState<CVData | null>(() => (user ? loadCvData(user.id, jobId) : null));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .getJobs()
+      .then((jobs) => {
+        if (cancelled) return;
+        const match = jobs.find((candidate) => candidate.id === jobId);
+        if (match) {
+          setJob(match);
+        } else {
+          setJobError('This job position is no longer available.');
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setJobError(error instanceof Error ? error.message : 'Failed to load the job position.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (jobError) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <AlertCircle className="w-12 h-12 text-destructive mx-auto" />
+          <p className="text-muted-foreground">{jobError}</p>
+          <Button variant="outline" onClick={() => navigate(ROUTES.adofJobs)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Jobs
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!job || !user) return <StepLoading message="Loading job position..." />;
+
+  const handleCVSubmit = (data: CVData) => {
+    saveCvData(user.id, job.id, data);
+    setCvData(data);
+    navigate(ROUTES.adofTest(job.id));
+  };
+
+  const handleTestComplete = (result: TestResult) => {
+    navigate(ROUTES.adofReport(job.id, result.data.result_id), { state: { result } });
+  };
+
+  const cvRedirect = <Navigate to={ROUTES.adofCv(job.id)} replace />;
+
+  return (
+    <Routes>
+      <Route
+        path="cv"
+        element={
+          <CVCollection
+            selectedJob={job}
+            initialData={cvData}
+            onCVSubmit={handleCVSubmit}
+            onBack={() => navigate(ROUTES.adofJobs)}
+          />
+        }
+      />
+      <Route
+        path="test"
+        element={
+          cvData ? (
+            <ADOFTestDisplay
+              selectedJob={job}
+              cvData={cvData}
+              userId={user.id}
+              onTestComplete={handleTestComplete}
+              onBack={() => navigate(ROUTES.adofCv(job.id))}
+            />
+          ) : (
+            cvRedirect
+          )
+        }
+      />
+      <Route path="report/:resultId" element={cvData ? <ReportStep job={job} cvData={cvData} /> : cvRedirect} />
+      {/* Includes "report" without a result id: there is nothing to show before the test is taken. */}
+      <Route path="*" element={<Navigate to={cvData ? ROUTES.adofTest(job.id) : ROUTES.adofCv(job.id)} replace />} />
+    </Routes>
+  );
+};
+
+/**
+ * The cv, test and report steps for the job in the URL. The job is looked up
+ * from the jobs API and the CV from local persistence, so every step can be
+ * reloaded; steps whose prerequisites are missing redirect to the earlier one.
+ */
+export const ADOFJobWizard: React.FC = () => {
+  const { jobId } = useParams<{ jobId: string }>();
+  // Keyed so switching jobs starts from a clean state.
+  return <JobSteps key={jobId} jobId={jobId} />;
+};
@@ -1,9 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { TestResult } from '@/lib/api';
+import { api, JobFitSettings, TestResult, TraitTarget } from '@/lib/api';
+import { jobFit } from '@/lib/job-fit';
+import { VALIDITY_CHECK_LABELS } from '@/lib/assessment/validity';
+import { jobNormGroup } from '@/lib/norms';
+import { matchSkills } from '@/lib/skill-taxonomy';
+import { describeBlueprint } from '@/lib/test-blueprints';
+import { useNormComparison } from '@/hooks/use-norm-comparison';
+import { useSkillTaxonomy } from '@/hooks/use-skill-taxonomy';
+import { NormGroupSelect } from '../assessment/NormGroupSelect';
+import { TraitRadarChart } from '../assessment/TraitRadarChart';
+import { TraitScoreTable } from '../assessment/TraitScoreTable';
+import { ValidityBanner } from '../assessment/ValidityBanner';
+import { JobFitBreakdown } from './JobFitBreakdown';
+import { NormImportDialog } from './NormImportDialog';
+import { ProfileGapCard } from './ProfileGapCard';
+import { ResponseQualityCard } from './ResponseQualityCard';
+import { SkillTaxonomyImportDialog } from './SkillTaxonomyImportDialog';
 import { 
   Trophy, 
   BarChart3, 
@@ -25,7 +41,8 @@ import {
   BookOpen,
   Video,
   FileQuestion,
-  ChevronDown
+  ChevronDown,
+  ShieldAlert
 } from 'lucide-react';
 
 interface SelectedJob {
@@ -35,6 +52,8 @@ interface SelectedJob {
   description: string;
   requirements: string[];
   skills: string[];
+  fit?: JobFitSettings;
+  ideal_profile?: TraitTarget[];
 }
 
 interface CVData {
@@ -62,6 +81,19 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
 }) => {
   const { data } = testResults;
   const { percentage, total_score, max_score, analysis } = data;
+  // Older results carry only the labels in `analysis`
+  const traitScores = data.trait_scores ?? [];
+  // What the candidate was tested on; unknown for results from before blueprints were kept
+  const testedOn = describeBlueprint(data.blueprint, data.blueprint_id);
+  const normComparison = useNormComparison([jobNormGroup(selectedJob.id), 'all'], traitScores);
+  const skillTaxonomy = useSkillTaxonomy();
+  // Officers can edit the job's profile from the report, so keep the saved one
+  const [idealProfile, setIdealProfile] = useState<TraitTarget[]>(selectedJob.ideal_profile ?? []);
+
+  const handleSaveProfile = async (profile: TraitTarget[]) => {
+    const updated = await api.updateIdealProfile(selectedJob.id, profile);
+    setIdealProfile(updated.ideal_profile ?? []);
+  };
 
   const getScoreColor = (percentage: number) => {
     if (percentage >= 80) return 'text-green-600';
@@ -75,8 +107,19 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
     return 'destructive';
   };
 
-  const getRecommendation = (percentage: number) => {
-    if (percentage >= 80) {
+  // Driven by the job-fit score, which weighs the test together with the CV
+  const getRecommendation = (score: number) => {
+    if (data.validity?.band === 'invalid') {
+      return {
+        status: 'Retest Advised',
+        icon: ShieldAlert,
+        color: 'text-red-600',
+        bgColor: 'bg-red-50',
+        borderColor: 'border-red-200',
+        description: 'The answers show signs of careless responding, so the score cannot be relied on.'
+      };
+    }
+    if (score >= 80) {
       return {
         status: 'Highly Recommended',
         icon: CheckCircle,
@@ -85,7 +128,7 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
         borderColor: 'border-green-200',
         description: 'Excellent fit for this position with strong alignment across key competencies.'
       };
-    } else if (percentage >= 60) {
+    } else if (score >= 60) {
       return {
         status: 'Recommended with Development',
         icon: AlertCircle,
@@ -106,20 +149,14 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
     }
   };
 
-  const recommendation = getRecommendation(percentage);
-  const RecommendationIcon = recommendation.icon;
-
-  // Calculate skill match
-  const skillMatch = cvData.skills.filter(skill => 
-    selectedJob.skills.some(jobSkill => 
-      jobSkill.toLowerCase().includes(skill.toLowerCase()) || 
-      skill.toLowerCase().includes(jobSkill.toLowerCase())
-    )
-  );
+  // Calculate skill match through the taxonomy, so synonyms and narrower skills count
+  const skillMatchResult = matchSkills(skillTaxonomy.taxonomy, cvData.skills, selectedJob.skills);
+  const skillMatch = skillMatchResult.matchedSkills;
+  const skillMatchPercentage = skillMatchResult.percentage;
 
-  const skillMatchPercentage = selectedJob.skills.length > 0 
-    ? Math.round((skillMatch.length / selectedJob.skills.length) * 100)
-    : 0;
+  const fit = jobFit({ ...selectedJob, ideal_profile: idealProfile }, cvData, data, skillMatchResult);
+  const recommendation = getRecommendation(fit.score);
+  const RecommendationIcon = recommendation.icon;
 
   const handleDownloadReport = async () => {
     try {
@@ -160,6 +197,10 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
       doc.setTextColor(0, 0, 0);
       doc.text(`Position: ${selectedJob.title}`, 14, 94);
       doc.text(`Company: ${selectedJob.company}`, 14, 101);
+      if (testedOn) {
+        doc.setFontSize(9);
+        doc.text(doc.splitTextToSize(`Test blueprint: ${testedOn}`, pageWidth - 28).slice(0, 2), 14, 108);
+      }
       
       // Add skills match section
       doc.setFontSize(14);
@@ -181,24 +222,42 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
       doc.text('Assessment Results', 14, 160);
       
       doc.setFontSize(11);
-      // Get the percentage from the test results (it's a number, not a score property)
-      const percentage = testResults.percentage || 0;
-      doc.text(`Score: ${percentage}%`, 14, 170);
-      doc.text(`Recommendation: ${getRecommendation(percentage).text}`, 14, 177);
+      doc.text(`Score: ${percentage}% (${total_score}/${max_score} points)`, 14, 170);
+      doc.text(`Job Fit: ${fit.score}/100`, 14, 177);
+      doc.text(`Recommendation: ${recommendation.status}`, 14, 184);
+
+      // Results the validity checks cast doubt on carry the warning into the PDF
+      let tableY = 197;
+      const { validity } = testResults.data;
+      if (validity && validity.band !== 'acceptable') {
+        const findings = validity.checks
+          .filter((check) => check.flagged)
+          .map((check) => `${VALIDITY_CHECK_LABELS[check.id]}: ${check.detail}`);
+        const warning = doc.splitTextToSize(
+          [
+            `Validity warning (index ${validity.index}/100): this result ${
+              validity.band === 'invalid' ? 'should not be trusted' : 'may not be reliable'
+            }.`,
+            ...findings,
+          ].join(' '),
+          pageWidth - 28
+        );
+        doc.setTextColor(200, 30, 30);
+        doc.text(warning, 14, 193);
+        doc.setTextColor(0, 0, 0);
+        tableY = 199 + warning.length * 5;
+      }
       
-      // Add a simple table for test results
-      const headers = ['Section', 'Score'];
-      const analysis = testResults.analysis || {};
-      const data = [
-        ['Technical Knowledge', `${analysis['technical'] || 0}%`],
-        ['Problem Solving', `${analysis['problem_solving'] || 0}%`],
-        ['Communication', `${analysis['communication'] || 0}%`]
-      ];
+      // Add a table of the trait results, labels only for older results
+      const headers = traitScores.length > 0 ? ['Trait', 'Score', 'Level'] : ['Trait', 'Level'];
+      const rows = traitScores.length > 0
+        ? traitScores.map((trait) => [trait.trait, `${trait.percentage}% (${trait.score}/${trait.max_score})`, trait.band])
+        : Object.entries(analysis);
       
       autoTable(doc, {
-        startY: 190,
+        startY: tableY,
         head: [headers],
-        body: data,
+        body: rows,
         theme: 'grid',
         headStyles: {
           fillColor: [40, 62, 80],
@@ -208,6 +267,32 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
         margin: { left: 14, right: 14 },
         styles: { fontSize: 10 }
       });
+
+      // How the job-fit score was made up, below the trait table
+      const { lastAutoTable } = doc as unknown as { lastAutoTable: { finalY: number } };
+      autoTable(doc, {
+        startY: lastAutoTable.finalY + 10,
+        head: [['Job Fit', 'Weight', 'Score', 'Points', 'Why']],
+        body: [
+          ...fit.components.map((component) => [
+            component.label,
+            `${Math.round(component.share * 100)}%`,
+            `${component.score}%`,
+            component.contribution.toFixed(1),
+            component.explanation,
+          ]),
+          ['Total', '', '', `${fit.score}`, ''],
+        ],
+        theme: 'grid',
+        headStyles: {
+          fillColor: [40, 62, 80],
+          textColor: 255,
+          fontStyle: 'bold'
+        },
+        margin: { left: 14, right: 14 },
+        styles: { fontSize: 10 },
+        columnStyles: { 4: { cellWidth: 80 } }
+      });
       
       // Save the PDF
       doc.save(`ADOF_Report_${cvData.name.replace(/\s+/g, '_')}_${selectedJob.title.replace(/\s+/g, '_')}.pdf`);
@@ -278,6 +363,7 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
               <div className="space-y-2 text-sm">
                 <div className="font-medium">{selectedJob.title}</div>
                 <div className="text-muted-foreground">{selectedJob.company}</div>
+                {testedOn && <div className="text-xs text-muted-foreground">Test blueprint: {testedOn}</div>}
                 <div className="text-xs text-muted-foreground">
                   Assessment Date: {new Date().toLocaleDateString()}
                 </div>
@@ -287,6 +373,8 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
         </CardContent>
       </Card>
 
+      <ValidityBanner validity={data.validity} />
+
       {/* Overall Score */}
       <Card className={`${recommendation.bgColor} ${recommendation.borderColor} border-2`}>
         <CardHeader className="text-center">
@@ -297,10 +385,11 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="text-center">
-            <div className={`text-6xl font-bold ${getScoreColor(percentage)} mb-2`}>
-              {percentage}%
+            <div className={`text-6xl font-bold ${getScoreColor(fit.score)} mb-2`}>
+              {fit.score}%
             </div>
-            <Badge variant={getScoreBadgeVariant(percentage)} className="text-lg px-4 py-2 mb-2">
+            <p className="text-sm text-muted-foreground mb-2">Job fit</p>
+            <Badge variant={getScoreBadgeVariant(fit.score)} className="text-lg px-4 py-2 mb-2">
               {recommendation.status}
             </Badge>
             <p className="text-muted-foreground max-w-md mx-auto">
@@ -311,17 +400,21 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span>Assessment Score</span>
-              <span>{total_score}/{max_score} points</span>
+              <span>{percentage}% ({total_score}/{max_score} points)</span>
             </div>
             <Progress value={percentage} className="h-3" />
           </div>
+
+          <div className="rounded-lg bg-background/60 p-2">
+            <JobFitBreakdown fit={fit} />
+          </div>
         </CardContent>
       </Card>
 
       {/* Detailed Analysis */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Competency Analysis */}
-        {Object.keys(analysis).length > 0 && (
+        {(traitScores.length > 0 || Object.keys(analysis).length > 0) && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -333,25 +426,50 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {Object.entries(analysis).map(([trait, level]) => (
-                  <div key={trait} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      <Target className="w-4 h-4 text-primary" />
-                      <div>
-                        <h4 className="font-medium text-foreground">{trait}</h4>
-                        <p className="text-xs text-muted-foreground">Behavioral trait</p>
+              {traitScores.length > 0 ? (
+                <div className="space-y-4">
+                  <TraitRadarChart traits={traitScores} className="h-64" />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    {normComparison.available.length > 0 ? (
+                      <NormGroupSelect
+                        groups={normComparison.available}
+                        value={normComparison.group}
+                        onChange={normComparison.setGroup}
+                      />
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Import norm tables to see percentiles against other candidates.
+                      </p>
+                    )}
+                    <NormImportDialog onImported={normComparison.reload} />
+                  </div>
+                  <TraitScoreTable
+                    traits={traitScores}
+                    norms={normComparison.norms}
+                    normGroup={normComparison.group}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {Object.entries(analysis).map(([trait, level]) => (
+                    <div key={trait} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <Target className="w-4 h-4 text-primary" />
+                        <div>
+                          <h4 className="font-medium text-foreground">{trait}</h4>
+                          <p className="text-xs text-muted-foreground">Behavioral trait</p>
+                        </div>
                       </div>
+                      <Badge 
+                        variant={level === 'Strength' ? 'default' : 'secondary'}
+                        className="text-sm"
+                      >
+                        {level}
+                      </Badge>
                     </div>
-                    <Badge 
-                      variant={level === 'Strength' ? 'default' : 'secondary'}
-                      className="text-sm"
-                    >
-                      {level}
-                    </Badge>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -364,7 +482,7 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
               <span>Skills Match Analysis</span>
             </CardTitle>
             <CardDescription>
-              Alignment between candidate skills and job requirements
+              Alignment between candidate skills and job requirements, including synonyms and related skills
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -380,7 +498,7 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Matching Skills</span>
-                <span>{skillMatch.length}/{selectedJob.skills.length}</span>
+                <span>{skillMatchResult.covered.length}/{selectedJob.skills.length}</span>
               </div>
               <Progress value={skillMatchPercentage} className="h-2" />
             </div>
@@ -414,11 +532,41 @@ export const ADOFReports: React.FC<ADOFReportsProps> = ({
                   )}
                 </div>
               </div>
+
+              {skillMatchResult.missing.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-red-600 mb-2">Missing Job Skills</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {skillMatchResult.missing.map((skill, index) => (
+                      <Badge key={index} variant="outline" className="text-xs bg-red-50 text-red-700 border-red-200">
+                        {skill}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <SkillTaxonomyImportDialog onImported={skillTaxonomy.reload} />
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Profile Gap Analysis, for results with numeric trait scores */}
+      {traitScores.length > 0 && (
+        <ProfileGapCard
+          jobTitle={selectedJob.title}
+          profile={idealProfile}
+          traits={traitScores}
+          onSaveProfile={handleSaveProfile}
+        />
+      )}
+
+      {/* Response Quality */}
+      {data.telemetry && <ResponseQualityCard telemetry={data.telemetry} />}
+
       {/* Candidate Profile Summary */}
       <Card>
         <CardHeader>
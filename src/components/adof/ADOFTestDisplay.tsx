@@ -1,10 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { api, GenerateTestResponse, TestResult } from '@/lib/api';
-import { ArrowLeft, CheckCircle, FileText, ChevronLeft, ChevronRight, Loader2, User, Briefcase, ClipboardCheck } from 'lucide-react';
+import { useAssessment } from '@/hooks/use-assessment';
+import { api, GenerateTestResponse, TestBlueprint, TestResult, TraitTarget } from '@/lib/api';
+import { blueprintPreset, testCandidateContext, testJobContext, TEST_TRAITS } from '@/lib/test-blueprints';
+import { candidateDraftKey, deleteTestDraft, findLatestTestDraft, TestDraft } from '@/lib/test-drafts';
+import { ResumeDraftCard } from '../ResumeDraftCard';
+import { AssessmentNavigation } from '../assessment/AssessmentNavigation';
+import { PausedNotice, SubmittingNotice, TimeUpNotice } from '../assessment/AssessmentNotices';
+import { AssessmentTimer } from '../assessment/AssessmentTimer';
+import { QuestionCard } from '../assessment/QuestionCard';
+import { ScorePreview } from '../assessment/ScorePreview';
+import { AccommodationsDialog } from './AccommodationsDialog';
+import { BlueprintPicker } from './BlueprintPicker';
+import { ArrowLeft, FileText, Loader2, User, Briefcase, ClipboardCheck } from 'lucide-react';
 
 interface SelectedJob {
   id: string;
@@ -13,6 +23,7 @@ interface SelectedJob {
   description: string;
   requirements: string[];
   skills: string[];
+  ideal_profile?: TraitTarget[];
 }
 
 interface CVData {
@@ -33,6 +44,12 @@ interface ADOFTestDisplayProps {
   onBack: () => void;
 }
 
+/** The job-profile preset when the job's ideal profile names traits the test measures, otherwise the standard one. */
+const defaultBlueprint = (job: SelectedJob): TestBlueprint => {
+  const profiled = testJobContext(job).ideal_traits.some((trait) => TEST_TRAITS.includes(trait));
+  return blueprintPreset(profiled ? 'job-profile' : 'standard');
+};
+
 export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({ 
   selectedJob, 
   cvData, 
@@ -42,14 +59,52 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
 }) => {
   const { toast } = useToast();
   const [testData, setTestData] = useState<GenerateTestResponse | null>(null);
-  const [isLoadingTest, setIsLoadingTest] = useState(false);
-  const [selectedAnswers, setSelectedAnswers] = useState<{ [questionIndex: number]: number }>({});
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resumedDraft, setResumedDraft] = useState<TestDraft | null>(null);
+  // Starts out loading while saved progress is looked up
+  const [isLoadingTest, setIsLoadingTest] = useState(true);
+  const [pendingDraft, setPendingDraft] = useState<TestDraft | null>(null);
+  const [isChoosingBlueprint, setIsChoosingBlueprint] = useState(false);
+  const [blueprint, setBlueprint] = useState<TestBlueprint>(() => defaultBlueprint(selectedJob));
+  const candidateKey = candidateDraftKey(cvData);
 
   useEffect(() => {
-    generateTest();
-  }, [userId]);
+    let cancelled = false;
+    setTestData(null);
+    setResumedDraft(null);
+    setPendingDraft(null);
+    setIsChoosingBlueprint(false);
+    setIsLoadingTest(true);
+
+    // Offer to continue this candidate's unfinished assessment for this job before setting up a new one
+    findLatestTestDraft(userId, { source: 'adof', jobId: selectedJob.id, candidateKey }).then((draft) => {
+      if (cancelled) return;
+      if (draft) {
+        setPendingDraft(draft);
+      } else {
+        setIsChoosingBlueprint(true);
+      }
+      setIsLoadingTest(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, selectedJob.id, candidateKey]);
+
+  const handleResumeDraft = () => {
+    if (!pendingDraft) return;
+    const { testId, questions, limits, origin } = pendingDraft;
+    setTestData({ testId, questions, message: '', ...limits, ...origin });
+    setResumedDraft(pendingDraft);
+    setPendingDraft(null);
+  };
+
+  const handleStartOver = async () => {
+    if (!pendingDraft) return;
+    await deleteTestDraft(userId, pendingDraft.testId);
+    setPendingDraft(null);
+    setIsChoosingBlueprint(true);
+  };
 
   const generateTest = async () => {
     if (!userId) {
@@ -58,13 +113,21 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
         description: 'User ID is required to generate test.',
         variant: 'destructive',
       });
+      setIsLoadingTest(false);
       return;
     }
 
+    setIsChoosingBlueprint(false);
     setIsLoadingTest(true);
     try {
-      const response = await api.generateTest(userId);
-      setTestData(response);
+      const response = await api.generateTest(userId, {
+        job: testJobContext(selectedJob),
+        candidate: testCandidateContext(cvData),
+        blueprint,
+      });
+      // A server that does not echo the test's origin still gets it recorded with the result
+      setTestData({ job_id: selectedJob.id, blueprint_id: blueprint.id, ...response });
+      setResumedDraft(null);
       toast({
         title: 'Test Generated',
         description: 'Your personalized assessment is ready.',
@@ -81,102 +144,34 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
     }
   };
 
-  const handleAnswerSelect = (questionIndex: number, optionScore: number) => {
-    setSelectedAnswers(prev => ({
-      ...prev,
-      [questionIndex]: optionScore
-    }));
-  };
-
-  const handleNext = () => {
-    if (testData && currentQuestionIndex < testData.questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
-    }
-  };
-
-  const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(prev => prev - 1);
-    }
-  };
-
-  const handleSubmit = async () => {
-    if (!testData) return;
-
-    if (Object.keys(selectedAnswers).length !== testData.questions.length) {
-      toast({
-        title: 'Incomplete Test',
-        description: 'Please answer all questions before submitting.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    setIsSubmitting(true);
-
-    try {
-      // Get document ID from test data
-      const documentId = testData.mcqs_id || testData.document_id || testData.documentId || testData.id || testData._id || '';
-      
-      if (!documentId) {
-        throw new Error('Test document ID is missing. Please generate a new test.');
-      }
-
-      // Convert answers to the required format
-      const answersForAPI: Record<string, string> = {};
-      Object.entries(selectedAnswers).forEach(([questionIndex, score]) => {
-        const questionNumber = parseInt(questionIndex) + 1;
-        let responseText = '';
-        switch (score) {
-          case 1:
-            responseText = 'Strongly Disagree';
-            break;
-          case 2:
-            responseText = 'Disagree';
-            break;
-          case 3:
-            responseText = 'Neutral';
-            break;
-          case 4:
-            responseText = 'Agree';
-            break;
-          case 5:
-            responseText = 'Strongly Agree';
-            break;
-          default:
-            responseText = 'Neutral';
-        }
-        answersForAPI[questionNumber.toString()] = responseText;
-      });
-
-      const requestBody = {
-        user_id: userId,
-        mcq_id: documentId,
-        answers: answersForAPI,
-      };
-
-      console.log('Submitting ADOF test answers:', requestBody);
-
-      const submitResponse = await api.submitAnswers(requestBody);
-      const resultResponse = await api.getResultById(submitResponse.data.result_id);
-      
-      toast({
-        title: 'Assessment Completed!',
-        description: `Your score: ${resultResponse.data.percentage}%`,
-      });
+  if (pendingDraft) {
+    return (
+      <div className="space-y-6">
+        <ResumeDraftCard
+          draft={pendingDraft}
+          onResume={handleResumeDraft}
+          onDiscard={handleStartOver}
+          discardLabel="Start over"
+        />
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Go Back
+        </Button>
+      </div>
+    );
+  }
 
-      onTestComplete(resultResponse);
-    } catch (error) {
-      console.error('Error submitting test:', error);
-      toast({
-        title: 'Submission Failed',
-        description: error instanceof Error ? error.message : 'Failed to submit test. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+  if (isChoosingBlueprint) {
+    return (
+      <BlueprintPicker
+        blueprint={blueprint}
+        job={testJobContext(selectedJob)}
+        onChange={setBlueprint}
+        onGenerate={generateTest}
+        onBack={onBack}
+      />
+    );
+  }
 
   if (isLoadingTest) {
     return (
@@ -212,7 +207,7 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
                 </p>
               </div>
               <div className="flex justify-center space-x-4">
-                <Button onClick={generateTest}>
+                <Button onClick={() => setIsChoosingBlueprint(true)}>
                   Try Again
                 </Button>
                 <Button variant="outline" onClick={onBack}>
@@ -227,6 +222,127 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
     );
   }
 
+  return (
+    <AssessmentSession
+      key={testData.testId}
+      testData={testData}
+      blueprint={resumedDraft ? resumedDraft.blueprint : blueprint}
+      initialDraft={resumedDraft}
+      selectedJob={selectedJob}
+      cvData={cvData}
+      userId={userId}
+      onTestComplete={onTestComplete}
+      onBack={onBack}
+    />
+  );
+};
+
+interface AssessmentSessionProps extends ADOFTestDisplayProps {
+  testData: GenerateTestResponse;
+  /** Unknown for drafts saved before blueprints were kept with them. */
+  blueprint?: TestBlueprint;
+  initialDraft: TestDraft | null;
+}
+
+const AssessmentSession: React.FC<AssessmentSessionProps> = ({
+  testData,
+  blueprint,
+  initialDraft,
+  selectedJob,
+  cvData,
+  userId,
+  onTestComplete,
+  onBack,
+}) => {
+  const { toast } = useToast();
+
+  const handleSubmitted = (result: TestResult) => {
+    toast({
+      title: result.data.partial ? 'Assessment Submitted When Time Ran Out' : 'Assessment Completed!',
+      description: `Your score: ${result.data.percentage}%`,
+    });
+    onTestComplete(result);
+  };
+
+  const handleSubmitError = (error: unknown) => {
+    console.error('Error submitting test:', error);
+    toast({
+      title: 'Submission Failed',
+      description: error instanceof Error ? error.message : 'Failed to submit test. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const assessment = useAssessment({
+    userId,
+    test: testData,
+    blueprint,
+    draft: {
+      source: 'adof',
+      jobId: selectedJob.id,
+      candidateKey: candidateDraftKey(cvData),
+      candidateName: cvData.name,
+    },
+    initialDraft,
+    onSubmitted: handleSubmitted,
+    onSubmitError: handleSubmitError,
+  });
+  const { state, currentQuestion, currentSection } = assessment;
+  const isBusy = state.status !== 'in_progress';
+  const sectionNumber = state.sections.indexOf(currentSection) + 1;
+
+  const handleSubmit = () => {
+    if (!assessment.canSubmit) {
+      toast({
+        title: 'Incomplete Test',
+        description: 'Please answer all questions before submitting.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    assessment.submit();
+  };
+
+  const renderQuestion = () => {
+    if (state.timing.paused) {
+      return <PausedNotice onResume={assessment.resume} />;
+    }
+    if (state.expired) {
+      return (
+        <TimeUpNotice
+          answeredCount={assessment.answeredCount}
+          total={state.questions.length}
+          onSubmit={assessment.submit}
+        />
+      );
+    }
+    return (
+      <>
+        <QuestionCard
+          question={currentQuestion}
+          questionNumber={state.currentIndex + 1}
+          value={state.answers[state.currentIndex]}
+          onChange={assessment.answer}
+        />
+
+        {/* Navigation */}
+        <AssessmentNavigation
+          currentIndex={state.currentIndex}
+          sectionStart={currentSection.start}
+          sectionEnd={currentSection.end}
+          hasNextSection={!assessment.isLastSection}
+          isAnswered={assessment.isAnswered}
+          onPrevious={assessment.previous}
+          onNext={assessment.next}
+          onJump={assessment.goTo}
+          onNextSection={assessment.nextSection}
+          onSubmit={handleSubmit}
+          submitLabel="Complete Assessment"
+        />
+      </>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Context Cards */}
@@ -275,128 +391,53 @@ export const ADOFTestDisplay: React.FC<ADOFTestDisplayProps> = ({
             {testData.message || 'Complete this assessment to evaluate your fit for the selected position'}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="flex justify-between items-center text-sm text-muted-foreground">
-            <span>Question {currentQuestionIndex + 1} of {testData.questions.length}</span>
-            <span>Answered: {Object.keys(selectedAnswers).length}/{testData.questions.length}</span>
+            <span>
+              Question {state.currentIndex + 1} of {state.questions.length}
+              {state.sections.length > 1 &&
+                ` · Section ${sectionNumber} of ${state.sections.length}${currentSection.title ? `: ${currentSection.title}` : ''}`}
+            </span>
+            <span>Answered: {assessment.answeredCount}/{state.questions.length}</span>
           </div>
+          {assessment.isTimed && (
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <AssessmentTimer
+                sectionMs={assessment.remaining.sectionMs}
+                overallMs={assessment.remaining.overallMs}
+                sectionTitle={currentSection.title}
+                paused={state.timing.paused}
+                pauseAllowed={state.timing.pauseAllowed && !isBusy && !state.expired}
+                onPause={assessment.pause}
+                onResume={assessment.resume}
+              />
+              <AccommodationsDialog
+                extensionMs={state.timing.extensionMs}
+                pauseAllowed={state.timing.pauseAllowed}
+                onExtend={assessment.extendTime}
+                onAllowPause={assessment.allowPause}
+                disabled={isBusy || state.expired}
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Loading State for Submission */}
-      {isSubmitting && (
-        <Card className="bg-primary/5 border-primary/20">
-          <CardContent className="py-6">
-            <div className="flex items-center justify-center space-x-3">
-              <Loader2 className="w-6 h-6 text-primary animate-spin" />
-              <div>
-                <p className="text-lg font-semibold text-foreground">
-                  Processing Your Assessment...
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Analyzing your responses and generating results
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      {isBusy ? (
+        <SubmittingNotice
+          title="Processing Your Assessment..."
+          description="Analyzing your responses and generating results"
+        />
+      ) : (
+        renderQuestion()
       )}
 
-      {/* Current Question */}
-      {!isSubmitting && (
-        <Card className="bg-card/50 border-border/50">
-          <CardHeader>
-            <CardTitle className="text-lg">
-              Question {currentQuestionIndex + 1}: {testData.questions[currentQuestionIndex].question}
-            </CardTitle>
-            <CardDescription>
-              Select the option that best describes your response
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {testData.questions[currentQuestionIndex].options.map((option, optionIndex) => {
-                const isSelected = selectedAnswers[currentQuestionIndex] === option.score;
-                return (
-                  <button
-                    key={optionIndex}
-                    onClick={() => handleAnswerSelect(currentQuestionIndex, option.score)}
-                    className={`w-full p-4 text-left rounded-lg border transition-colors ${
-                      isSelected
-                        ? 'bg-primary/10 border-primary text-primary'
-                        : 'bg-card border-border hover:border-primary/50 text-foreground'
-                    } cursor-pointer`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <span className="font-medium">{option.text}</span>
-                      {isSelected && (
-                        <CheckCircle className="w-4 h-4 text-primary" />
-                      )}
-                    </div>
-                  </button>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Navigation */}
-      {!isSubmitting && (
-        <div className="flex justify-between items-center">
-          <Button
-            onClick={handlePrevious}
-            disabled={currentQuestionIndex === 0}
-            variant="outline"
-            className="flex items-center space-x-2"
-          >
-            <ChevronLeft className="w-4 h-4" />
-            <span>Previous</span>
-          </Button>
-
-          <div className="flex items-center space-x-2">
-            {testData.questions.map((_, index) => (
-              <div
-                key={index}
-                className={`w-3 h-3 rounded-full ${
-                  index === currentQuestionIndex
-                    ? 'bg-primary'
-                    : selectedAnswers[index] !== undefined
-                    ? 'bg-green-500'
-                    : 'bg-muted'
-                }`}
-              />
-            ))}
-          </div>
-
-          {currentQuestionIndex < testData.questions.length - 1 ? (
-            <Button
-              onClick={handleNext}
-              className="flex items-center space-x-2"
-            >
-              <span>Next</span>
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          ) : (
-            <Button
-              onClick={handleSubmit}
-              disabled={isSubmitting}
-              className="flex items-center space-x-2 bg-green-600 hover:bg-green-700"
-            >
-              {isSubmitting ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <CheckCircle className="w-4 h-4" />
-              )}
-              <span>{isSubmitting ? 'Submitting...' : 'Complete Assessment'}</span>
-            </Button>
-          )}
-        </div>
-      )}
+      {assessment.offlinePreview && !isBusy && <ScorePreview preview={assessment.offlinePreview} />}
 
       {/* Back Button */}
       <div className="flex justify-start">
-        <Button variant="ghost" onClick={onBack} disabled={isSubmitting}>
+        <Button variant="ghost" onClick={onBack} disabled={isBusy}>
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to CV Submission
         </Button>
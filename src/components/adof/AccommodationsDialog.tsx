@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Accessibility, Plus } from 'lucide-react';
+
+const EXTENSION_MINUTES = [5, 10, 15];
+
+interface AccommodationsDialogProps {
+  /** Extra time granted so far during this test. */
+  extensionMs: number;
+  pauseAllowed: boolean;
+  onExtend: (ms: number) => void;
+  onAllowPause: (allowed: boolean) => void;
+  disabled?: boolean;
+}
+
+/** Lets the supervising ADOF officer grant extra time or pausing while a timed test runs. */
+export const AccommodationsDialog: React.FC<AccommodationsDialogProps> = ({
+  extensionMs,
+  pauseAllowed,
+  onExtend,
+  onAllowPause,
+  disabled = false,
+}) => {
+  const { toast } = useToast();
+  const grantedMinutes = Math.round(extensionMs / 60_000);
+
+  const handleExtend = (minutes: number) => {
+    onExtend(minutes * 60_000);
+    toast({
+      title: 'Extra time granted',
+      description: `${minutes} minutes added to the test and to each section.`,
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Accessibility className="w-4 h-4 mr-2" />
+          Accommodations
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accessibility accommodations</DialogTitle>
+          <DialogDescription>
+            For officers supervising the candidate. Changes apply to this attempt only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Extra time</Label>
+            <div className="flex flex-wrap gap-2">
+              {EXTENSION_MINUTES.map((minutes) => (
+                <Button key={minutes} variant="outline" size="sm" onClick={() => handleExtend(minutes)}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  {minutes} min
+                </Button>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {grantedMinutes > 0 ? `${grantedMinutes} extra minutes granted so far.` : 'No extra time granted yet.'}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="allow-pause">Allow pausing</Label>
+              <p className="text-sm text-muted-foreground">The candidate can stop the clock, e.g. for a rest break.</p>
+            </div>
+            <Switch id="allow-pause" checked={pauseAllowed} onCheckedChange={onAllowPause} />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
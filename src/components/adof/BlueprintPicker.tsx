@@ -0,0 +1,165 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionType, TestBlueprint, TestJobContext } from '@/lib/api';
+import {
+  ALL_QUESTION_TYPES,
+  BLUEPRINT_PRESETS,
+  blueprintError,
+  blueprintPreset,
+  customBlueprint,
+  ITEMS_PER_TRAIT_OPTIONS,
+  QUESTION_TYPE_LABELS,
+  TEST_TRAITS,
+} from '@/lib/test-blueprints';
+import { ArrowLeft, ClipboardList } from 'lucide-react';
+
+interface BlueprintPickerProps {
+  blueprint: TestBlueprint;
+  job: TestJobContext;
+  onChange: (blueprint: TestBlueprint) => void;
+  onGenerate: () => void;
+  onBack: () => void;
+}
+
+interface CheckboxListProps<T extends string> {
+  id: string;
+  options: T[];
+  selected: T[];
+  label: (option: T) => string;
+  onToggle: (option: T) => void;
+}
+
+const CheckboxList = <T extends string>({ id, options, selected, label, onToggle }: CheckboxListProps<T>) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+    {options.map((option) => (
+      <div key={option} className="flex items-center space-x-2">
+        <Checkbox
+          id={`${id}-${option}`}
+          checked={selected.includes(option)}
+          onCheckedChange={() => onToggle(option)}
+        />
+        <Label htmlFor={`${id}-${option}`} className="font-normal">
+          {label(option)}
+        </Label>
+      </div>
+    ))}
+  </div>
+);
+
+const toggled = <T,>(items: T[], item: T) =>
+  items.includes(item) ? items.filter((existing) => existing !== item) : [...items, item];
+
+/** Lets the officer choose what the generated test is made of before it is created. */
+export const BlueprintPicker: React.FC<BlueprintPickerProps> = ({ blueprint, job, onChange, onGenerate, onBack }) => {
+  const preset = BLUEPRINT_PRESETS.find(({ id }) => id === blueprint.id);
+  const error = blueprintError(blueprint, job);
+  const profileTraits = job.ideal_traits.filter((trait) => TEST_TRAITS.includes(trait));
+
+  // Any adjustment makes the blueprint a custom one.
+  const adjust = (changes: Partial<TestBlueprint>) => onChange(customBlueprint(blueprint, changes));
+
+  const handlePreset = (id: string) => {
+    const chosen = blueprintPreset(id);
+    if (chosen) onChange(chosen);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardList className="w-5 h-5" />
+          <span>Test Setup</span>
+        </CardTitle>
+        <CardDescription>
+          Choose what the assessment for {job.title} covers. The job's requirements, skills and ideal profile and the
+          candidate's CV are sent along to tailor it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="blueprint-preset">Blueprint</Label>
+          <Select value={blueprint.id} onValueChange={handlePreset}>
+            <SelectTrigger id="blueprint-preset" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLUEPRINT_PRESETS.map(({ id, name }) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+              {!preset && <SelectItem value={blueprint.id}>Custom</SelectItem>}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            {preset ? preset.description : 'Adjusted from a preset.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Traits</Label>
+          <CheckboxList
+            id="blueprint-trait"
+            options={TEST_TRAITS}
+            selected={blueprint.traits}
+            label={(trait) => trait}
+            onToggle={(trait) => adjust({ traits: toggled(blueprint.traits, trait) })}
+          />
+          {blueprint.traits.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {profileTraits.length > 0
+                ? `From the job's ideal profile: ${profileTraits.join(', ')}.`
+                : 'None chosen, and the job has no ideal profile to take them from.'}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="blueprint-items">Items per trait</Label>
+          <Select
+            value={String(blueprint.items_per_trait)}
+            onValueChange={(value) => adjust({ items_per_trait: Number(value) })}
+          >
+            <SelectTrigger id="blueprint-items" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITEMS_PER_TRAIT_OPTIONS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Question types</Label>
+          <CheckboxList<QuestionType>
+            id="blueprint-type"
+            options={ALL_QUESTION_TYPES}
+            selected={blueprint.question_types}
+            label={(type) => QUESTION_TYPE_LABELS[type]}
+            onToggle={(type) => adjust({ question_types: toggled(blueprint.question_types, type) })}
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Go Back
+          </Button>
+          <Button onClick={onGenerate} disabled={!!error}>
+            Generate Test
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
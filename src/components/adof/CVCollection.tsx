@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,8 +6,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { FileText, Upload, X, Plus, ArrowLeft, ChevronRight, User, Mail, Phone, GraduationCap, Briefcase } from 'lucide-react';
+import { useSkillTaxonomy } from '@/hooks/use-skill-taxonomy';
+import { FileText, Upload, X, Plus, ArrowLeft, ChevronRight, User, Mail, Phone, GraduationCap, Briefcase, Loader2 } from 'lucide-react';
 import { api } from '@/lib/api';
+import { CvField, CvParseError, DetectedSkill, parseCvFile } from '@/lib/cv/parse-file';
+import { normalizeSkill, normalizeSkillText, searchSkills } from '@/lib/skill-taxonomy';
+import { PrefillConfidence } from './PrefillConfidence';
+import { SkillSuggestions } from './SkillSuggestions';
 
 interface SelectedJob {
   id: string;
@@ -30,13 +35,27 @@ interface CVData {
 
 interface CVCollectionProps {
   selectedJob: SelectedJob;
+  /** Details submitted earlier for this job, e.g. when coming back from the test. */
+  initialData?: CVData | null;
   onCVSubmit: (data: CVData) => void;
   onBack: () => void;
 }
 
-export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSubmit, onBack }) => {
+const FieldLabel: React.FC<{ htmlFor?: string; confidence?: number; children: React.ReactNode }> = ({
+  htmlFor,
+  confidence,
+  children,
+}) => (
+  <div className="flex items-center justify-between gap-2">
+    <Label htmlFor={htmlFor}>{children}</Label>
+    {confidence !== undefined && <PrefillConfidence confidence={confidence} />}
+  </div>
+);
+
+export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, initialData, onCVSubmit, onBack }) => {
   const { toast } = useToast();
-  const [formData, setFormData] = useState<CVData>({
+  const { taxonomy } = useSkillTaxonomy();
+  const [formData, setFormData] = useState<CVData>(initialData ?? {
     name: '',
     email: '',
     phone: '',
@@ -47,24 +66,97 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
   const [newSkill, setNewSkill] = useState('');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  // Confidence of each field filled in from the CV, until the candidate edits it.
+  const [prefilled, setPrefilled] = useState<Partial<Record<CvField, number>>>({});
+  const [skillSuggestions, setSkillSuggestions] = useState<DetectedSkill[]>([]);
+  // Parsing is async; only fields still empty when it finishes are filled.
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+  // The file being read; results for a file removed or replaced meanwhile are dropped.
+  const parsingFileRef = useRef<File | null>(null);
 
   const handleInputChange = (field: keyof CVData, value: string) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
+    setPrefilled(({ [field as CvField]: _edited, ...rest }) => rest);
   };
 
-  const handleAddSkill = () => {
-    if (newSkill.trim() && !formData.skills.includes(newSkill.trim())) {
+  // Skills are compared and stored under their canonical taxonomy names, so "JS" and "JavaScript" are one skill.
+  const skillKey = (skill: string) => normalizeSkillText(normalizeSkill(taxonomy, skill));
+  const hasSkill = (skill: string) =>
+    formDataRef.current.skills.some((existing) => skillKey(existing) === skillKey(skill));
+
+  const handleAcceptSkill = (skill: string) => {
+    if (!hasSkill(skill)) {
+      setFormData(prev => ({ ...prev, skills: [...prev.skills, normalizeSkill(taxonomy, skill)] }));
+    }
+    setSkillSuggestions(prev => prev.filter(suggestion => suggestion.skill !== skill));
+  };
+
+  const handleAcceptAllSkills = () => {
+    const added = [...new Set(skillSuggestions.map(({ skill }) => normalizeSkill(taxonomy, skill)))]
+      .filter(skill => !hasSkill(skill));
+    setFormData(prev => ({ ...prev, skills: [...prev.skills, ...added] }));
+    setSkillSuggestions([]);
+  };
+
+  const handleRejectSkill = (skill: string) => {
+    setSkillSuggestions(prev => prev.filter(suggestion => suggestion.skill !== skill));
+  };
+
+  const prefillFromCv = async (file: File) => {
+    parsingFileRef.current = file;
+    setIsParsing(true);
+    try {
+      const parsed = await parseCvFile(file, selectedJob.skills);
+      if (parsingFileRef.current !== file) return;
+      const current = formDataRef.current;
+      const filled = (Object.keys(parsed.fields) as CvField[]).filter((field) => !current[field].trim());
+
+      setFormData({ ...current, ...Object.fromEntries(filled.map((field) => [field, parsed.fields[field].value])) });
+      setPrefilled(Object.fromEntries(filled.map((field) => [field, parsed.fields[field].confidence])));
+      setSkillSuggestions(parsed.skills.filter(({ skill }) => !hasSkill(skill)));
+
+      toast({
+        title: filled.length > 0 ? 'CV Read' : 'Nothing to Fill In',
+        description:
+          filled.length > 0
+            ? `Filled in ${filled.length} field${filled.length > 1 ? 's' : ''} from your CV. ` +
+              'Please check them before continuing.'
+            : 'No new details were found in your CV.',
+      });
+    } catch (error) {
+      if (parsingFileRef.current !== file) return;
+      if (!(error instanceof CvParseError)) console.error('Error reading CV:', error);
+      toast({
+        title: 'Could Not Read Your CV',
+        description: `${error instanceof CvParseError ? error.message : 'Please try again.'} ` +
+          'You can still fill in the form yourself.',
+      });
+    } finally {
+      if (parsingFileRef.current === file) {
+        parsingFileRef.current = null;
+        setIsParsing(false);
+      }
+    }
+  };
+
+  const handleAddSkill = (skill = newSkill) => {
+    const canonical = normalizeSkill(taxonomy, skill);
+    if (canonical && !hasSkill(canonical)) {
       setFormData(prev => ({
         ...prev,
-        skills: [...prev.skills, newSkill.trim()]
+        skills: [...prev.skills, canonical]
       }));
       setNewSkill('');
     }
   };
 
+  const skillOptions = searchSkills(taxonomy, newSkill).filter(skill => !hasSkill(skill));
+
   const handleRemoveSkill = (skillToRemove: string) => {
     setFormData(prev => ({
       ...prev,
@@ -98,6 +190,7 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
 
       setUploadedFile(file);
       setFormData(prev => ({ ...prev, file }));
+      prefillFromCv(file);
     }
   };
 
@@ -253,6 +346,66 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
+            {/* File Upload */}
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 mb-4">
+                <Upload className="w-4 h-4 text-primary" />
+                <h3 className="text-lg font-semibold">CV Upload (Optional)</h3>
+              </div>
+
+              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
+                <input
+                  type="file"
+                  id="cv-upload"
+                  accept=".pdf,.doc,.docx"
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
+                <label htmlFor="cv-upload" className="cursor-pointer">
+                  <Upload className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+                  <p className="text-sm text-muted-foreground mb-1">
+                    Click to upload your CV (PDF or Word document)
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Maximum file size: 5MB. PDF and DOCX files fill in the form below for you.
+                  </p>
+                </label>
+
+                {isParsing && (
+                  <p className="mt-4 flex items-center justify-center text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Reading your CV...
+                  </p>
+                )}
+                
+                {uploadedFile && (
+                  <div className="mt-4 p-3 bg-muted rounded-lg flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <FileText className="w-4 h-4 text-primary" />
+                      <span className="text-sm font-medium">{uploadedFile.name}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {(uploadedFile.size / 1024 / 1024).toFixed(2)} MB
+                      </Badge>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setUploadedFile(null);
+                        setFormData(prev => ({ ...prev, file: undefined }));
+                        setSkillSuggestions([]);
+                        parsingFileRef.current = null;
+                        setIsParsing(false);
+                      }}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Personal Information */}
             <div className="space-y-4">
               <div className="flex items-center space-x-2 mb-4">
@@ -262,7 +415,7 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Full Name *</Label>
+                  <FieldLabel htmlFor="name" confidence={prefilled.name}>Full Name *</FieldLabel>
                   <Input
                     id="name"
                     placeholder="Enter your full name"
@@ -273,7 +426,7 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email Address *</Label>
+                  <FieldLabel htmlFor="email" confidence={prefilled.email}>Email Address *</FieldLabel>
                   <div className="relative">
                     <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                     <Input
@@ -290,7 +443,7 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="phone">Phone Number *</Label>
+                <FieldLabel htmlFor="phone" confidence={prefilled.phone}>Phone Number *</FieldLabel>
                 <div className="relative">
                   <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                   <Input
@@ -313,7 +466,9 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="experience">Work Experience *</Label>
+                <FieldLabel htmlFor="experience" confidence={prefilled.experience}>
+                  Work Experience *
+                </FieldLabel>
                 <Textarea
                   id="experience"
                   placeholder="Describe your relevant work experience, including job titles, companies, and key responsibilities..."
@@ -333,10 +488,35 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
                     onChange={(e) => setNewSkill(e.target.value)}
                     onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddSkill())}
                   />
-                  <Button type="button" onClick={handleAddSkill} size="sm">
+                  <Button type="button" onClick={() => handleAddSkill()} size="sm">
                     <Plus className="w-4 h-4" />
                   </Button>
                 </div>
+                {skillOptions.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {skillOptions.map((skill) => (
+                      <Button
+                        key={skill}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => handleAddSkill(skill)}
+                      >
+                        <Plus className="w-3 h-3 mr-1" />
+                        {skill}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {skillSuggestions.length > 0 && (
+                  <SkillSuggestions
+                    suggestions={skillSuggestions}
+                    onAccept={handleAcceptSkill}
+                    onReject={handleRejectSkill}
+                    onAcceptAll={handleAcceptAllSkills}
+                  />
+                )}
                 {formData.skills.length > 0 && (
                   <div className="flex flex-wrap gap-2 mt-2">
                     {formData.skills.map((skill, index) => (
@@ -364,7 +544,9 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="education">Educational Background *</Label>
+                <FieldLabel htmlFor="education" confidence={prefilled.education}>
+                  Educational Background *
+                </FieldLabel>
                 <Textarea
                   id="education"
                   placeholder="Describe your educational background, including degrees, institutions, and relevant coursework..."
@@ -376,56 +558,6 @@ export const CVCollection: React.FC<CVCollectionProps> = ({ selectedJob, onCVSub
               </div>
             </div>
 
-            {/* File Upload */}
-            <div className="space-y-4">
-              <div className="flex items-center space-x-2 mb-4">
-                <Upload className="w-4 h-4 text-primary" />
-                <h3 className="text-lg font-semibold">CV Upload (Optional)</h3>
-              </div>
-
-              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
-                <input
-                  type="file"
-                  id="cv-upload"
-                  accept=".pdf,.doc,.docx"
-                  onChange={handleFileUpload}
-                  className="hidden"
-                />
-                <label htmlFor="cv-upload" className="cursor-pointer">
-                  <Upload className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-sm text-muted-foreground mb-1">
-                    Click to upload your CV (PDF or Word document)
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    Maximum file size: 5MB
-                  </p>
-                </label>
-                
-                {uploadedFile && (
-                  <div className="mt-4 p-3 bg-muted rounded-lg flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <FileText className="w-4 h-4 text-primary" />
-                      <span className="text-sm font-medium">{uploadedFile.name}</span>
-                      <Badge variant="outline" className="text-xs">
-                        {(uploadedFile.size / 1024 / 1024).toFixed(2)} MB
-                      </Badge>
-                    </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setUploadedFile(null);
-                        setFormData(prev => ({ ...prev, file: undefined }));
-                      }}
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-            </div>
-
             {/* Action Buttons */}
             <div className="flex justify-between pt-6">
               <Button type="button" variant="outline" onClick={onBack}>
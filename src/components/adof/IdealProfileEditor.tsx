@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { TraitTarget } from '@/lib/api';
+import { profileError, sameTrait } from '@/lib/trait-profile';
+import { Loader2, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+
+interface IdealProfileEditorProps {
+  jobTitle: string;
+  profile: TraitTarget[];
+  /** Offered as trait names, usually those the test measured. */
+  traits: string[];
+  onSave: (profile: TraitTarget[]) => Promise<void>;
+}
+
+interface TargetRowProps {
+  target: TraitTarget;
+  index: number;
+  onChange: (target: TraitTarget) => void;
+  onRemove: () => void;
+}
+
+const TargetRow: React.FC<TargetRowProps> = ({ target, index, onChange, onRemove }) => (
+  <div className="flex items-center space-x-2">
+    <Input
+      className="flex-1"
+      placeholder="Trait"
+      list="ideal-profile-traits"
+      value={target.trait}
+      onChange={(e) => onChange({ ...target, trait: e.target.value })}
+      aria-label={`Trait ${index + 1}`}
+    />
+    <Input
+      className="w-20"
+      type="number"
+      min={0}
+      max={100}
+      value={Number.isNaN(target.min) ? '' : target.min}
+      onChange={(e) => onChange({ ...target, min: e.target.valueAsNumber })}
+      aria-label={`Minimum for trait ${index + 1}`}
+    />
+    <span className="text-muted-foreground">–</span>
+    <Input
+      className="w-20"
+      type="number"
+      min={0}
+      max={100}
+      value={Number.isNaN(target.max) ? '' : target.max}
+      onChange={(e) => onChange({ ...target, max: e.target.valueAsNumber })}
+      aria-label={`Maximum for trait ${index + 1}`}
+    />
+    <Button type="button" variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove trait ${index + 1}`}>
+      <Trash2 className="w-4 h-4" />
+    </Button>
+  </div>
+);
+
+/** Lets an officer set the range of each trait's percentage wanted for a job. */
+export const IdealProfileEditor: React.FC<IdealProfileEditorProps> = ({ jobTitle, profile, traits, onSave }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<TraitTarget[]>(profile);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const unused = traits.filter((trait) => !draft.some((target) => sameTrait(target.trait, trait)));
+
+  const updateRow = (index: number, target: TraitTarget) =>
+    setDraft((current) => current.map((existing, i) => (i === index ? target : existing)));
+
+  const handleSave = async () => {
+    const cleaned = draft.map((target) => ({ ...target, trait: target.trait.trim() }));
+    const problem = profileError(cleaned);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(cleaned);
+      setOpen(false);
+      toast({
+        title: 'Profile saved',
+        description: cleaned.length > 0
+          ? `The ideal profile for ${jobTitle} now covers ${cleaned.length} trait${cleaned.length > 1 ? 's' : ''}.`
+          : `${jobTitle} no longer has an ideal profile.`,
+      });
+    } catch (err) {
+      console.error('Error saving ideal profile:', err);
+      setError(err instanceof Error ? err.message : 'The profile could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setDraft(profile);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          {profile.length > 0 ? 'Edit Profile' : 'Define Profile'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Ideal trait profile</DialogTitle>
+          <DialogDescription>
+            The range of each trait's score, in percent, wanted for {jobTitle}. Candidates are compared with it in
+            their report and in the job-fit score.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {draft.length > 0 ? (
+            draft.map((target, index) => (
+              <TargetRow
+                key={index}
+                target={target}
+                index={index}
+                onChange={(next) => updateRow(index, next)}
+                onRemove={() => setDraft((current) => current.filter((_, i) => i !== index))}
+              />
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No traits yet. Without a profile the overall test score counts.
+            </p>
+          )}
+          <datalist id="ideal-profile-traits">
+            {unused.map((trait) => (
+              <option key={trait} value={trait} />
+            ))}
+          </datalist>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft((current) => [...current, { trait: unused[0] ?? '', min: 50, max: 100 }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add trait
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
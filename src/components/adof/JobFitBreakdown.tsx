@@ -0,0 +1,46 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { JobFit } from '@/lib/job-fit';
+
+interface JobFitBreakdownProps {
+  fit: JobFit;
+}
+
+/** Each part of the job-fit score with its weight, its own score and the points it adds. */
+export const JobFitBreakdown: React.FC<JobFitBreakdownProps> = ({ fit }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Part</TableHead>
+        <TableHead className="text-right">Weight</TableHead>
+        <TableHead className="w-2/5">Score</TableHead>
+        <TableHead className="text-right">Points</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {fit.components.map((component) => (
+        <TableRow key={component.id}>
+          <TableCell>
+            <div className="font-medium">{component.label}</div>
+            <div className="text-xs text-muted-foreground">{component.explanation}</div>
+          </TableCell>
+          <TableCell className="text-right tabular-nums">{Math.round(component.share * 100)}%</TableCell>
+          <TableCell>
+            <div className="flex items-center space-x-2">
+              <Progress value={component.score} className="h-2 flex-1" />
+              <span className="w-10 text-right text-sm tabular-nums">{component.score}%</span>
+            </div>
+          </TableCell>
+          <TableCell className="text-right tabular-nums">{component.contribution.toFixed(1)}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell className="font-semibold" colSpan={3}>
+          Job fit
+        </TableCell>
+        <TableCell className="text-right font-semibold tabular-nums">{fit.score}</TableCell>
+      </TableRow>
+    </TableBody>
+  </Table>
+);
@@ -5,7 +5,11 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Briefcase, Search, MapPin, Clock, DollarSign, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { api } from '@/lib/api';
+import { api, TraitTarget } from '@/lib/api';
+import { coversSkill } from '@/lib/skill-taxonomy';
+import { TEST_TRAITS } from '@/lib/test-blueprints';
+import { useSkillTaxonomy } from '@/hooks/use-skill-taxonomy';
+import { IdealProfileEditor } from './IdealProfileEditor';
 
 interface Job {
   id: string;
@@ -17,6 +21,7 @@ interface Job {
   description: string;
   requirements: string[];
   skills: string[];
+  ideal_profile?: TraitTarget[];
 }
 
 interface JobSelectionProps {
@@ -30,6 +35,7 @@ export const JobSelection: React.FC<JobSelectionProps> = ({ onJobSelect }) => {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { taxonomy } = useSkillTaxonomy();
 
   const categories = [
     { key: 'all', label: 'All Jobs' },
@@ -91,6 +97,12 @@ export const JobSelection: React.FC<JobSelectionProps> = ({ onJobSelect }) => {
     };
   }, []); // Removed toast from dependencies
 
+  // Officers can set a job's profile before anyone is assessed for it
+  const handleSaveProfile = async (jobId: string, profile: TraitTarget[]) => {
+    const updated = await api.updateIdealProfile(jobId, profile);
+    setJobs(prev => prev.map(job => (job.id === jobId ? updated : job)));
+  };
+
   const filteredJobs = jobs.filter(job => {
     // Handle cases where skills might be undefined
     const jobSkills = job.skills || [];
@@ -99,7 +111,9 @@ export const JobSelection: React.FC<JobSelectionProps> = ({ onJobSelect }) => {
     
     const matchesSearch = jobTitle.includes(searchTerm.toLowerCase()) ||
                          companyName.includes(searchTerm.toLowerCase()) ||
-                         jobSkills.some(skill => skill?.toLowerCase().includes(searchTerm.toLowerCase()));
+                         // "JS" finds JavaScript jobs and "JavaScript frameworks" finds React ones
+                         jobSkills.some(skill => skill?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                           (skill && coversSkill(taxonomy, skill, searchTerm)));
     
     if (selectedCategory === 'all') return matchesSearch;
     
@@ -264,7 +278,16 @@ export const JobSelection: React.FC<JobSelectionProps> = ({ onJobSelect }) => {
                     </div>
                   )}
                   
-                  <div className="mt-4 flex justify-end">
+                  <div className="mt-4 flex items-center justify-between">
+                    {/* Clicks in the editor, including its dialog, must not select the job */}
+                    <div onClick={(e) => e.stopPropagation()}>
+                      <IdealProfileEditor
+                        jobTitle={job.title}
+                        profile={job.ideal_profile ?? []}
+                        traits={TEST_TRAITS}
+                        onSave={(profile) => handleSaveProfile(job.id, profile)}
+                      />
+                    </div>
                     <Button variant="ghost" size="sm" className="text-primary">
                       Apply Now <ChevronRight className="w-4 h-4 ml-1" />
                     </Button>
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { NORM_CSV_COLUMNS, NormCsvError, normGroupLabel, parseNormCsv, saveNormTables } from '@/lib/norms';
+import { Upload } from 'lucide-react';
+
+interface NormImportDialogProps {
+  onImported: () => void;
+}
+
+/** Lets an officer import norm tables from a CSV file. */
+export const NormImportDialog: React.FC<NormImportDialogProps> = ({ onImported }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const tables = parseNormCsv(await file.text());
+      await saveNormTables(tables);
+      setError(null);
+      setOpen(false);
+      onImported();
+      toast({
+        title: 'Norms imported',
+        description: `Norm tables for ${tables.map((table) => normGroupLabel(table.group)).join(', ')}.`,
+      });
+    } catch (err) {
+      if (!(err instanceof NormCsvError)) console.error('Error importing norms:', err);
+      setError(err instanceof Error ? err.message : 'The norm tables could not be saved.');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Norms
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import norm tables</DialogTitle>
+          <DialogDescription>
+            A CSV file with the columns <code>{NORM_CSV_COLUMNS.join(',')}</code>, one row per group and trait. The
+            mean and standard deviation are of the trait percentage; <code>n</code> is optional. Groups are{' '}
+            <code>all</code>, <code>tvet</code> or <code>job:&lt;job id&gt;</code>. Imported groups replace their
+            earlier tables.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
+          <input type="file" id="norm-upload" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          <label htmlFor="norm-upload" className="cursor-pointer">
+            <Upload className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Click to choose a CSV file</p>
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
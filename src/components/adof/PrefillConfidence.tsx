@@ -0,0 +1,27 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface PrefillConfidenceProps {
+  /** 0-1, as detected by the CV parser. */
+  confidence: number;
+}
+
+const LEVELS = [
+  { min: 0.8, label: 'High', dot: 'bg-success' },
+  { min: 0.5, label: 'Medium', dot: 'bg-warning' },
+  { min: 0, label: 'Low', dot: 'bg-destructive' },
+];
+
+/** Marks a form field filled in from the uploaded CV, with how sure the parser was. */
+export const PrefillConfidence: React.FC<PrefillConfidenceProps> = ({ confidence }) => {
+  const level = LEVELS.find(({ min }) => confidence >= min) ?? LEVELS[LEVELS.length - 1];
+  return (
+    <span
+      className="inline-flex items-center space-x-1 text-xs font-normal text-muted-foreground"
+      title="Filled in from your CV. Please check it."
+    >
+      <span className={cn('w-2 h-2 rounded-full', level.dot)} />
+      <span>From CV · {level.label.toLowerCase()} confidence</span>
+    </span>
+  );
+};
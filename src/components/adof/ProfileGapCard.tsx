@@ -0,0 +1,95 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TraitResult, TraitTarget } from '@/lib/api';
+import { TRAIT_GAP_LABELS, TraitGap, TraitGapStatus, traitGaps, unmeasuredTraits } from '@/lib/trait-profile';
+import { Crosshair } from 'lucide-react';
+import { IdealProfileEditor } from './IdealProfileEditor';
+import { TraitGapChart } from './TraitGapChart';
+
+interface ProfileGapCardProps {
+  jobTitle: string;
+  profile: TraitTarget[];
+  traits: TraitResult[];
+  onSaveProfile: (profile: TraitTarget[]) => Promise<void>;
+}
+
+const STATUS_ORDER: TraitGapStatus[] = ['above', 'within', 'below'];
+
+const STATUS_STYLES: Record<TraitGapStatus, { heading: string; badge: string }> = {
+  above: { heading: 'text-yellow-600', badge: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  within: { heading: 'text-green-600', badge: 'bg-green-50 text-green-700 border-green-200' },
+  below: { heading: 'text-red-600', badge: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+const GapList: React.FC<{ status: TraitGapStatus; gaps: TraitGap[] }> = ({ status, gaps }) => (
+  <div>
+    <h4 className={`text-sm font-semibold mb-2 ${STATUS_STYLES[status].heading}`}>{TRAIT_GAP_LABELS[status]}</h4>
+    <div className="flex flex-wrap gap-1">
+      {gaps.length > 0 ? (
+        gaps.map((gap) => (
+          <Badge key={gap.trait} variant="outline" className={`text-xs ${STATUS_STYLES[status].badge}`}>
+            {gap.trait} {gap.percentage}%{gap.gap > 0 && ` (${gap.gap} ${status === 'above' ? 'over' : 'under'})`}
+          </Badge>
+        ))
+      ) : (
+        <span className="text-xs text-muted-foreground">None</span>
+      )}
+    </div>
+  </div>
+);
+
+/** The candidate's trait results against the job's ideal profile, with the officer's profile editor. */
+export const ProfileGapCard: React.FC<ProfileGapCardProps> = ({ jobTitle, profile, traits, onSaveProfile }) => {
+  const gaps = traitGaps(profile, traits);
+  const unmeasured = unmeasuredTraits(profile, traits);
+  const editor = (
+    <IdealProfileEditor
+      jobTitle={jobTitle}
+      profile={profile}
+      traits={traits.map(({ trait }) => trait)}
+      onSave={onSaveProfile}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <Crosshair className="w-5 h-5" />
+              <span>Profile Gap Analysis</span>
+            </CardTitle>
+            <CardDescription>Trait results against the ideal profile for {jobTitle}</CardDescription>
+          </div>
+          {editor}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profile.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This job has no ideal trait profile yet. Define one to see where the candidate falls short of or goes beyond
+            what the role needs.
+          </p>
+        ) : (
+          <>
+            {gaps.length > 0 ? (
+              <TraitGapChart gaps={gaps} />
+            ) : (
+              <p className="text-sm text-muted-foreground">The test did not measure any of the profiled traits.</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {STATUS_ORDER.map((status) => (
+                <GapList key={status} status={status} gaps={gaps.filter((gap) => gap.status === status)} />
+              ))}
+            </div>
+            {unmeasured.length > 0 && (
+              <p className="text-xs text-muted-foreground">Not measured by this test: {unmeasured.join(', ')}.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { TestTelemetry } from '@/lib/api';
+import { RAPID_RESPONSE_MS, summarizeResponseQuality } from '@/lib/assessment/telemetry';
+import { Activity, AlertTriangle } from 'lucide-react';
+
+// Share of rapid answers above which the whole result is called into question.
+const RAPID_SHARE_WARNING = 0.25;
+
+interface ResponseQualityCardProps {
+  telemetry: TestTelemetry;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-3 bg-muted/50 rounded-lg">
+    <div className="text-xl font-semibold text-foreground">{value}</div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+  </div>
+);
+
+/** Time per item and flagged rapid responses, for judging how carefully the test was answered. */
+export const ResponseQualityCard: React.FC<ResponseQualityCardProps> = ({ telemetry }) => {
+  const quality = summarizeResponseQuality(telemetry);
+  const rapidShare = quality.answered > 0 ? quality.rapid.length / quality.answered : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="w-5 h-5" />
+          <span>Response Quality</span>
+        </CardTitle>
+        <CardDescription>
+          How the candidate worked through the items
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat
+            label="Median time per item"
+            value={quality.medianTimeMs === null ? '—' : formatSeconds(quality.medianTimeMs)}
+          />
+          <Stat label="Rapid responses" value={`${quality.rapid.length}/${quality.answered}`} />
+          <Stat label="Answer changes" value={String(quality.answerChanges)} />
+          <Stat label="Items revisited" value={String(quality.revisited)} />
+        </div>
+
+        {rapidShare >= RAPID_SHARE_WARNING && (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-warning/5 border border-warning/30 text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-warning flex-shrink-0" />
+            <span>
+              {Math.round(rapidShare * 100)}% of the answers took less than {RAPID_RESPONSE_MS / 1000} seconds.
+              The candidate may not have read the items, so treat these results with caution.
+            </span>
+          </div>
+        )}
+
+        {quality.rapid.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-muted-foreground mb-2">Flagged rapid responses</h4>
+            <div className="flex flex-wrap gap-1">
+              {quality.rapid.map((question) => (
+                <Badge key={question.question_no} variant="outline" className="text-xs">
+                  Q{question.question_no} · {formatSeconds(question.time_ms)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DetectedSkill } from '@/lib/cv/parse-file';
+import { Check, Sparkles, X } from 'lucide-react';
+
+interface SkillSuggestionsProps {
+  suggestions: DetectedSkill[];
+  onAccept: (skill: string) => void;
+  onReject: (skill: string) => void;
+  onAcceptAll: () => void;
+}
+
+/** Skills found in the uploaded CV, each to be accepted into the form or dismissed. */
+export const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ suggestions, onAccept, onReject, onAcceptAll }) => (
+  <div className="rounded-lg border border-primary/20 bg-primary/5 p-3 space-y-2">
+    <div className="flex items-center justify-between">
+      <p className="flex items-center text-sm text-muted-foreground">
+        <Sparkles className="w-4 h-4 mr-2 text-primary" />
+        Skills found in your CV
+      </p>
+      <Button type="button" variant="ghost" size="sm" onClick={onAcceptAll}>
+        Add all
+      </Button>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      {suggestions.map(({ skill, confidence }) => (
+        <Badge
+          key={skill}
+          variant="outline"
+          className={confidence >= 0.8 ? 'text-sm bg-background' : 'text-sm bg-background border-dashed'}
+          title={confidence >= 0.8 ? 'Listed among your skills' : 'Mentioned in your CV'}
+        >
+          {skill}
+          <button
+            type="button"
+            onClick={() => onAccept(skill)}
+            className="ml-2 hover:text-success"
+            aria-label={`Add ${skill}`}
+          >
+            <Check className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onReject(skill)}
+            className="ml-1 hover:text-destructive"
+            aria-label={`Dismiss ${skill}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { parseSkillTaxonomy, saveSkillEntries, SKILL_CSV_COLUMNS, SkillTaxonomyError } from '@/lib/skill-taxonomy';
+import { Upload } from 'lucide-react';
+
+interface SkillTaxonomyImportDialogProps {
+  onImported: () => void;
+}
+
+/** Lets an officer extend the skills taxonomy from a JSON or CSV file. */
+export const SkillTaxonomyImportDialog: React.FC<SkillTaxonomyImportDialogProps> = ({ onImported }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const skills = parseSkillTaxonomy(await file.text(), file.name);
+      await saveSkillEntries(skills);
+      setError(null);
+      setOpen(false);
+      onImported();
+      toast({
+        title: 'Skills imported',
+        description: `${skills.length} skill${skills.length > 1 ? 's' : ''} saved to the taxonomy.`,
+      });
+    } catch (err) {
+      if (!(err instanceof SkillTaxonomyError)) console.error('Error importing skills:', err);
+      setError(err instanceof Error ? err.message : 'The skills could not be saved.');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Skills
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import skills taxonomy</DialogTitle>
+          <DialogDescription>
+            A JSON list of <code>{'{ "name", "synonyms", "parent" }'}</code> objects, or a CSV file with the columns{' '}
+            <code>{SKILL_CSV_COLUMNS.join(',')}</code> and synonyms separated by semicolons. Only the name is required;
+            the parent is the broader skill this one belongs to. Imported skills replace earlier ones with the same
+            name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
+          <input
+            type="file"
+            id="skill-taxonomy-upload"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <label htmlFor="skill-taxonomy-upload" className="cursor-pointer">
+            <Upload className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Click to choose a JSON or CSV file</p>
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
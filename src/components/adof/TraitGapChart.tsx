@@ -0,0 +1,55 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { TraitGap, TraitGapStatus } from '@/lib/trait-profile';
+
+interface TraitGapChartProps {
+  gaps: TraitGap[];
+}
+
+const STATUS_COLORS: Record<TraitGapStatus, string> = {
+  above: 'hsl(var(--warning))',
+  within: 'hsl(var(--success))',
+  below: 'hsl(var(--destructive))',
+};
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+/** Each profiled trait's target range beside the candidate's score, coloured by where it falls. */
+export const TraitGapChart: React.FC<TraitGapChartProps> = ({ gaps }) => {
+  const data = gaps.map((gap) => ({ ...gap, range: [gap.min, gap.max] }));
+
+  return (
+    <div style={{ height: Math.max(160, gaps.length * 56 + 60) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" barGap={2}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" horizontal={false} />
+          <XAxis type="number" domain={[0, 100]} tickFormatter={(value) => `${value}%`} className="text-xs" />
+          <YAxis type="category" dataKey="trait" width={130} className="text-xs" />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number | number[], name: string) =>
+              Array.isArray(value) ? [`${value[0]}–${value[1]}%`, name] : [`${value}%`, name]
+            }
+          />
+          <Legend />
+          <Bar dataKey="range" name="Target range" fill="hsl(var(--primary))" fillOpacity={0.25} barSize={14} />
+          <Bar
+            dataKey="percentage"
+            name="Candidate"
+            fill="hsl(var(--muted-foreground))"
+            barSize={14}
+            radius={[0, 4, 4, 0]}
+          >
+            {data.map((gap) => (
+              <Cell key={gap.trait} fill={STATUS_COLORS[gap.status]} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface AssessmentNavigationProps {
+  currentIndex: number;
+  /** Question indexes of the current section, `start` inclusive and `end` exclusive. */
+  sectionStart: number;
+  sectionEnd: number;
+  /** More sections follow; the last question then leads on instead of submitting. */
+  hasNextSection?: boolean;
+  isAnswered: (questionIndex: number) => boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onJump: (questionIndex: number) => void;
+  onNextSection?: () => void;
+  onSubmit: () => void;
+  isSubmitting?: boolean;
+  submitLabel?: string;
+}
+
+export const AssessmentNavigation: React.FC<AssessmentNavigationProps> = ({
+  currentIndex,
+  sectionStart,
+  sectionEnd,
+  hasNextSection = false,
+  isAnswered,
+  onPrevious,
+  onNext,
+  onJump,
+  onNextSection,
+  onSubmit,
+  isSubmitting = false,
+  submitLabel = 'Submit Test',
+}) => {
+  const sectionIndexes = Array.from({ length: sectionEnd - sectionStart }, (_, offset) => sectionStart + offset);
+  const unansweredInSection = sectionIndexes.filter((index) => !isAnswered(index)).length;
+
+  return (
+    <div className="flex justify-between items-center">
+      <Button
+        onClick={onPrevious}
+        disabled={currentIndex === sectionStart}
+        variant="outline"
+        className="flex items-center space-x-2"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        <span>Previous</span>
+      </Button>
+
+      <div className="flex flex-wrap justify-center items-center gap-2">
+        {sectionIndexes.map((index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onJump(index)}
+            aria-label={`Go to question ${index + 1}`}
+            aria-current={index === currentIndex ? 'step' : undefined}
+            className={`w-3 h-3 rounded-full ${
+              index === currentIndex
+                ? 'bg-primary'
+                : isAnswered(index)
+                ? 'bg-success'
+                : 'bg-muted'
+            }`}
+          />
+        ))}
+      </div>
+
+      {currentIndex < sectionEnd - 1 ? (
+        <Button
+          onClick={onNext}
+          className="flex items-center space-x-2"
+        >
+          <span>Next</span>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      ) : hasNextSection ? (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button className="flex items-center space-x-2">
+              <span>Next Section</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            {unansweredInSection > 0 ? (
+              <>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Finish this section first</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {unansweredInSection} question{unansweredInSection === 1 ? ' is' : 's are'} still unanswered.
+                    Sections cannot be revisited, so answer every question before moving on.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Back to Questions</AlertDialogCancel>
+                </AlertDialogFooter>
+              </>
+            ) : (
+              <>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Move on to the next section?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    You will not be able to come back to this section.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Stay Here</AlertDialogCancel>
+                  <AlertDialogAction onClick={onNextSection}>Continue</AlertDialogAction>
+                </AlertDialogFooter>
+              </>
+            )}
+          </AlertDialogContent>
+        </AlertDialog>
+      ) : (
+        <Button
+          onClick={onSubmit}
+          disabled={isSubmitting}
+          className="flex items-center space-x-2 bg-success hover:bg-success/90"
+        >
+          {isSubmitting ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <CheckCircle className="w-4 h-4" />
+          )}
+          <span>{isSubmitting ? 'Submitting...' : submitLabel}</span>
+        </Button>
+      )}
+    </div>
+  );
+};
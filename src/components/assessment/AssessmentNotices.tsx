@@ -0,0 +1,65 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlarmClock, Loader2, Pause, Play, Send } from 'lucide-react';
+
+interface SubmittingNoticeProps {
+  title: string;
+  description: string;
+}
+
+export const SubmittingNotice: React.FC<SubmittingNoticeProps> = ({ title, description }) => (
+  <Card className="bg-primary/5 border-primary/20">
+    <CardContent className="py-6">
+      <div className="flex items-center justify-center space-x-3">
+        <Loader2 className="w-6 h-6 text-primary animate-spin" />
+        <div>
+          <p className="text-lg font-semibold text-foreground">{title}</p>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+/** Stands in for the question while the clock is paused, so it cannot be read off the clock. */
+export const PausedNotice: React.FC<{ onResume: () => void }> = ({ onResume }) => (
+  <Card className="bg-card/50 border-border/50">
+    <CardContent className="py-12 text-center space-y-4">
+      <Pause className="w-10 h-10 text-muted-foreground mx-auto" />
+      <div>
+        <p className="text-lg font-semibold text-foreground">Test paused</p>
+        <p className="text-sm text-muted-foreground">The clock is stopped. Questions are hidden until you resume.</p>
+      </div>
+      <Button onClick={onResume}>
+        <Play className="w-4 h-4 mr-2" />
+        Resume Test
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+interface TimeUpNoticeProps {
+  answeredCount: number;
+  total: number;
+  /** Submits the answers again after a failed automatic submission. */
+  onSubmit: () => void;
+}
+
+export const TimeUpNotice: React.FC<TimeUpNoticeProps> = ({ answeredCount, total, onSubmit }) => (
+  <Card className="bg-warning/5 border-warning/30">
+    <CardContent className="py-10 text-center space-y-4">
+      <AlarmClock className="w-10 h-10 text-warning mx-auto" />
+      <div>
+        <p className="text-lg font-semibold text-foreground">Time is up</p>
+        <p className="text-sm text-muted-foreground">
+          You answered {answeredCount} of {total} questions. Your answers could not be submitted automatically.
+        </p>
+      </div>
+      <Button onClick={onSubmit}>
+        <Send className="w-4 h-4 mr-2" />
+        Submit Answers
+      </Button>
+    </CardContent>
+  </Card>
+);
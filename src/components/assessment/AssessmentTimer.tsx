@@ -0,0 +1,64 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { getConfig } from '@/lib/config';
+import { Clock, Pause, Play } from 'lucide-react';
+
+interface AssessmentTimerProps {
+  /** Milliseconds left in the current section; null when it is untimed. */
+  sectionMs: number | null;
+  /** Milliseconds left for the whole test; null when it is untimed. */
+  overallMs: number | null;
+  sectionTitle?: string;
+  paused: boolean;
+  pauseAllowed: boolean;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Amber below the largest warning threshold, red below the smallest.
+const urgencyClassName = (ms: number) => {
+  const thresholdsMs = getConfig().timeWarningSeconds.map((seconds) => seconds * 1000);
+  if (thresholdsMs.length === 0) return 'text-foreground';
+  if (ms <= Math.min(...thresholdsMs)) return 'text-destructive';
+  if (ms <= Math.max(...thresholdsMs)) return 'text-warning';
+  return 'text-foreground';
+};
+
+const Countdown: React.FC<{ label: string; ms: number }> = ({ label, ms }) => (
+  <div className="flex flex-col items-end">
+    <span className="text-xs text-muted-foreground">{label}</span>
+    <span className={`font-mono text-lg font-semibold tabular-nums ${urgencyClassName(ms)}`} role="timer">
+      {formatCountdown(ms)}
+    </span>
+  </div>
+);
+
+export const AssessmentTimer: React.FC<AssessmentTimerProps> = ({
+  sectionMs,
+  overallMs,
+  sectionTitle,
+  paused,
+  pauseAllowed,
+  onPause,
+  onResume,
+}) => (
+  <div className="flex items-center space-x-4" aria-live="off">
+    <Clock className="w-5 h-5 text-muted-foreground" />
+    {sectionMs !== null && <Countdown label={sectionTitle ? `${sectionTitle} left` : 'Section time left'} ms={sectionMs} />}
+    {overallMs !== null && <Countdown label="Test time left" ms={overallMs} />}
+    {pauseAllowed && (
+      <Button variant="outline" size="sm" onClick={paused ? onResume : onPause}>
+        {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+        {paused ? 'Resume' : 'Pause'}
+      </Button>
+    )}
+  </div>
+);
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { normGroupLabel } from '@/lib/norms';
+
+interface NormGroupSelectProps {
+  /** Groups with a norm table. */
+  groups: string[];
+  value: string;
+  onChange: (group: string) => void;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const NormGroupSelect: React.FC<NormGroupSelectProps> = ({ groups, value, onChange }) => (
+  <div className="flex items-center space-x-2">
+    <Label htmlFor="norm-group" className="text-sm text-muted-foreground whitespace-nowrap">
+      Compare with
+    </Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id="norm-group" className="h-8 w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {groups.map((group) => (
+          <SelectItem key={group} value={group}>
+            {capitalize(normGroupLabel(group))}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { QuestionType, TestQuestion } from '@/lib/api';
+import { AnswerValue, questionType } from '@/lib/assessment/question-types';
+import { QuestionInput } from './QuestionInputs';
+
+const INSTRUCTIONS: Record<QuestionType, string> = {
+  likert: 'Select the option that best describes your response',
+  single_choice: 'Select the correct answer',
+  multi_select: 'Select all answers that apply',
+  numeric: 'Enter your answer as a number',
+  text: 'Type a short answer',
+  ranking: 'Put the options in order, first to last',
+  image_choice: 'Select the picture that answers the question',
+};
+
+interface QuestionCardProps {
+  question: TestQuestion;
+  questionNumber: number;
+  value?: AnswerValue;
+  onChange: (value: AnswerValue | undefined) => void;
+  disabled?: boolean;
+}
+
+export const QuestionCard: React.FC<QuestionCardProps> = ({
+  question,
+  questionNumber,
+  value,
+  onChange,
+  disabled = false,
+}) => (
+  <Card className="bg-card/50 border-border/50">
+    <CardHeader>
+      <CardTitle className="text-lg">
+        Question {questionNumber}: {question.question}
+      </CardTitle>
+      <CardDescription>
+        {INSTRUCTIONS[questionType(question)]}
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {question.image_url && (
+        <img
+          src={question.image_url}
+          alt=""
+          className="max-h-64 mx-auto rounded-lg border border-border/50 object-contain"
+        />
+      )}
+      <QuestionInput question={question} value={value} onChange={onChange} disabled={disabled} />
+    </CardContent>
+  </Card>
+);
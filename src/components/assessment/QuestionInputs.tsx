@@ -0,0 +1,234 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { TestQuestion } from '@/lib/api';
+import {
+  AnswerValue,
+  DEFAULT_TEXT_MAX_LENGTH,
+  parseNumericAnswer,
+  questionType,
+} from '@/lib/assessment/question-types';
+import { ArrowDown, ArrowUp, CheckCircle } from 'lucide-react';
+
+interface QuestionInputProps<T extends AnswerValue = AnswerValue> {
+  question: TestQuestion;
+  value?: T;
+  /** undefined clears the answer. */
+  onChange: (value: T | undefined) => void;
+  disabled?: boolean;
+}
+
+const optionClassName = (isSelected: boolean, disabled: boolean) =>
+  `w-full p-4 text-left rounded-lg border transition-colors ${
+    isSelected
+      ? 'bg-primary/10 border-primary text-primary'
+      : 'bg-card border-border hover:border-primary/50 text-foreground'
+  } ${disabled ? 'cursor-default' : 'cursor-pointer'}`;
+
+export const ChoiceInput: React.FC<QuestionInputProps<number>> = ({ question, value, onChange, disabled = false }) => (
+  <div className="space-y-3">
+    {question.options.map((option, optionIndex) => {
+      const isSelected = value === optionIndex;
+      return (
+        <button
+          key={optionIndex}
+          onClick={() => onChange(optionIndex)}
+          disabled={disabled}
+          className={optionClassName(isSelected, disabled)}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{option.text}</span>
+            {isSelected && (
+              <CheckCircle className="w-4 h-4 text-primary" />
+            )}
+          </div>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const ImageChoiceInput: React.FC<QuestionInputProps<number>> = ({ question, value, onChange, disabled = false }) => (
+  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+    {question.options.map((option, optionIndex) => {
+      const isSelected = value === optionIndex;
+      return (
+        <button
+          key={optionIndex}
+          onClick={() => onChange(optionIndex)}
+          disabled={disabled}
+          aria-pressed={isSelected}
+          className={`${optionClassName(isSelected, disabled)} flex flex-col items-center space-y-2`}
+        >
+          {option.image_url && (
+            <img src={option.image_url} alt={option.text} className="h-28 w-full object-contain" />
+          )}
+          <span className="text-sm font-medium text-center">{option.text}</span>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const MultiSelectInput: React.FC<QuestionInputProps<number[]>> = ({ question, value, onChange, disabled = false }) => {
+  const selected = value ?? [];
+  const maxSelections = question.max_selections ?? question.options.length;
+
+  const toggle = (optionIndex: number) => {
+    const next = selected.includes(optionIndex)
+      ? selected.filter((index) => index !== optionIndex)
+      : [...selected, optionIndex].sort((a, b) => a - b);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      {question.options.map((option, optionIndex) => {
+        const isSelected = selected.includes(optionIndex);
+        const isLocked = disabled || (!isSelected && selected.length >= maxSelections);
+        return (
+          <label
+            key={optionIndex}
+            className={`${optionClassName(isSelected, isLocked)} flex items-center space-x-3 ${isLocked && !isSelected ? 'opacity-60' : ''}`}
+          >
+            <Checkbox checked={isSelected} disabled={isLocked} onCheckedChange={() => toggle(optionIndex)} />
+            <span className="font-medium">{option.text}</span>
+          </label>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">
+        {selected.length} selected
+        {question.max_selections !== undefined && ` (up to ${question.max_selections})`}
+      </p>
+    </div>
+  );
+};
+
+export const RankingInput: React.FC<QuestionInputProps<number[]>> = ({ question, value, onChange, disabled = false }) => {
+  const order = value ?? question.options.map((_, index) => index);
+
+  const move = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {order.map((optionIndex, position) => (
+          <li
+            key={optionIndex}
+            className="flex items-center justify-between p-3 rounded-lg border border-border bg-card"
+          >
+            <div className="flex items-center space-x-3">
+              <span className="w-6 h-6 rounded-full bg-primary/10 text-primary text-sm font-semibold flex items-center justify-center">
+                {position + 1}
+              </span>
+              <span className="font-medium">{question.options[optionIndex].text}</span>
+            </div>
+            <div className="flex space-x-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => move(position, -1)}
+                disabled={disabled || position === 0}
+                aria-label={`Move "${question.options[optionIndex].text}" up`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => move(position, 1)}
+                disabled={disabled || position === order.length - 1}
+                aria-label={`Move "${question.options[optionIndex].text}" down`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {value === undefined && (
+        <Button variant="outline" size="sm" onClick={() => onChange(order)} disabled={disabled}>
+          Keep this order
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export const NumericInput: React.FC<QuestionInputProps<string>> = ({ question, value, onChange, disabled = false }) => {
+  const raw = value ?? '';
+  const isInvalid = raw.trim() !== '' && parseNumericAnswer(question, raw) === null;
+  const range =
+    question.min !== undefined && question.max !== undefined
+      ? `Enter a number from ${question.min} to ${question.max}.`
+      : question.min !== undefined
+      ? `Enter a number of at least ${question.min}.`
+      : question.max !== undefined
+      ? `Enter a number no greater than ${question.max}.`
+      : 'Enter a number.';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-3 max-w-xs">
+        <Input
+          type="number"
+          inputMode="decimal"
+          value={raw}
+          min={question.min}
+          max={question.max}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          disabled={disabled}
+          aria-invalid={isInvalid}
+        />
+        {question.unit && <span className="text-muted-foreground">{question.unit}</span>}
+      </div>
+      <p className={`text-xs ${isInvalid ? 'text-destructive' : 'text-muted-foreground'}`}>{range}</p>
+    </div>
+  );
+};
+
+export const TextInput: React.FC<QuestionInputProps<string>> = ({ question, value, onChange, disabled = false }) => {
+  const maxLength = question.max_length ?? DEFAULT_TEXT_MAX_LENGTH;
+  const text = value ?? '';
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={text}
+        maxLength={maxLength}
+        rows={4}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+        disabled={disabled}
+        placeholder="Type your answer"
+      />
+      <p className="text-xs text-muted-foreground text-right">
+        {text.length}/{maxLength}
+      </p>
+    </div>
+  );
+};
+
+/** Renders the input for the question's type. */
+export const QuestionInput: React.FC<QuestionInputProps> = ({ question, value, onChange, disabled }) => {
+  const props = { question, onChange, disabled };
+  switch (questionType(question)) {
+    case 'multi_select':
+      return <MultiSelectInput {...props} value={value as number[] | undefined} />;
+    case 'ranking':
+      return <RankingInput {...props} value={value as number[] | undefined} />;
+    case 'numeric':
+      return <NumericInput {...props} value={value as string | undefined} />;
+    case 'text':
+      return <TextInput {...props} value={value as string | undefined} />;
+    case 'image_choice':
+      return <ImageChoiceInput {...props} value={value as number | undefined} />;
+    default:
+      return <ChoiceInput {...props} value={value as number | undefined} />;
+  }
+};
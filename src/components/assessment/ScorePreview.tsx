@@ -0,0 +1,42 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScoredTest } from '@/lib/assessment/scoring';
+import { WifiOff } from 'lucide-react';
+
+interface ScorePreviewProps {
+  preview: ScoredTest;
+}
+
+/** Locally computed trait scores, shown while the answers cannot reach the server. */
+export const ScorePreview: React.FC<ScorePreviewProps> = ({ preview }) => (
+  <Card className="border-dashed">
+    <CardHeader>
+      <CardTitle className="flex items-center space-x-2">
+        <WifiOff className="w-5 h-5" />
+        <span>Offline Preview</span>
+      </CardTitle>
+      <CardDescription>
+        Your answers are saved on this device. Submit again once you are back online for the official result;
+        questions that only the server can mark are left out here.
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {preview.traits.map((trait) => (
+        <div key={trait.trait} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-foreground">{trait.trait}</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-muted-foreground">{trait.normalized}%</span>
+              <Badge variant={trait.band === 'Strength' ? 'default' : 'secondary'} className="text-xs">
+                {trait.band}
+              </Badge>
+            </div>
+          </div>
+          <Progress value={trait.normalized} className="h-2" />
+        </div>
+      ))}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { TraitResult } from '@/lib/api';
+
+interface TraitRadarChartProps {
+  traits: TraitResult[];
+  className?: string;
+}
+
+/** Percentage per trait on a spider chart; needs at least three traits to draw a shape. */
+export const TraitRadarChart: React.FC<TraitRadarChartProps> = ({ traits, className = 'h-72' }) => {
+  if (traits.length < 3) return null;
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <RadarChart data={traits} outerRadius="75%">
+          <PolarGrid className="opacity-50" />
+          <PolarAngleAxis dataKey="trait" className="text-xs" />
+          <PolarRadiusAxis domain={[0, 100]} tickCount={5} angle={90} className="text-xs" />
+          <Tooltip
+            formatter={(value: number) => [`${value}%`, 'Score']}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px'
+            }}
+          />
+          <Radar
+            dataKey="percentage"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.3}
+            strokeWidth={2}
+          />
+        </RadarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
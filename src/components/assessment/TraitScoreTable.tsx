@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TraitResult } from '@/lib/api';
+import { NormScore, normGroupLabel, ordinal } from '@/lib/norms';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+type SortKey = 'trait' | 'percentage';
+
+interface TraitScoreTableProps {
+  traits: TraitResult[];
+  /** Percentiles by trait within `normGroup`; the column is left out without them. */
+  norms?: Record<string, NormScore>;
+  normGroup?: string | null;
+}
+
+const SortButton: React.FC<{ label: string; active: boolean; ascending: boolean; onClick: () => void }> = ({
+  label,
+  active,
+  ascending,
+  onClick,
+}) => {
+  const Icon = !active ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+  return (
+    <button type="button" onClick={onClick} className="inline-flex items-center space-x-1 hover:text-foreground">
+      <span>{label}</span>
+      <Icon className="w-3 h-3" />
+    </button>
+  );
+};
+
+/** Per-trait scores with bars, sortable by trait name or score (highest first by default). */
+export const TraitScoreTable: React.FC<TraitScoreTableProps> = ({ traits, norms = {}, normGroup }) => {
+  const showNorms = !!normGroup && Object.keys(norms).length > 0;
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'percentage', ascending: false });
+
+  const sorted = [...traits].sort((a, b) => {
+    const order = sort.key === 'trait' ? a.trait.localeCompare(b.trait) : a.percentage - b.percentage;
+    return sort.ascending ? order : -order;
+  });
+
+  // A new column starts A-Z for names and highest first for scores.
+  const toggleSort = (key: SortKey) =>
+    setSort((current) =>
+      current.key === key ? { key, ascending: !current.ascending } : { key, ascending: key === 'trait' },
+    );
+
+  const ariaSort = (key: SortKey) => (sort.key !== key ? 'none' : sort.ascending ? 'ascending' : 'descending');
+
+  return (
+    <Table>
+      {showNorms && <TableCaption>Percentiles among {normGroupLabel(normGroup)}.</TableCaption>}
+      <TableHeader>
+        <TableRow>
+          <TableHead aria-sort={ariaSort('trait')}>
+            <SortButton
+              label="Trait"
+              active={sort.key === 'trait'}
+              ascending={sort.ascending}
+              onClick={() => toggleSort('trait')}
+            />
+          </TableHead>
+          <TableHead className="w-2/5" aria-sort={ariaSort('percentage')}>
+            <SortButton
+              label="Score"
+              active={sort.key === 'percentage'}
+              ascending={sort.ascending}
+              onClick={() => toggleSort('percentage')}
+            />
+          </TableHead>
+          {showNorms && <TableHead>Percentile</TableHead>}
+          <TableHead className="text-right">Level</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map((trait) => {
+          const norm = norms[trait.trait];
+          return (
+            <TableRow key={trait.trait}>
+              <TableCell className="font-medium">{trait.trait}</TableCell>
+              <TableCell>
+                <div className="flex items-center space-x-3">
+                  <Progress value={trait.percentage} className="h-2 flex-1" />
+                  <span className="w-20 text-right text-xs text-muted-foreground tabular-nums">
+                    {trait.percentage}% · {trait.score}/{trait.max_score}
+                  </span>
+                </div>
+              </TableCell>
+              {showNorms && (
+                <TableCell>
+                  {norm ? (
+                    <div title={`${ordinal(norm.percentile)} percentile among ${normGroupLabel(normGroup)}`}>
+                      <div className="text-sm font-medium">{ordinal(norm.percentile)}</div>
+                      <div className="text-xs text-muted-foreground">Stanine {norm.stanine}</div>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">No norm</span>
+                  )}
+                </TableCell>
+              )}
+              <TableCell className="text-right">
+                <Badge variant={trait.band === 'Strength' ? 'default' : 'secondary'} className="text-xs">
+                  {trait.band}
+                </Badge>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ResultValidity } from '@/lib/api';
+import { VALIDITY_CHECK_LABELS } from '@/lib/assessment/validity';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+
+interface ValidityBannerProps {
+  validity?: ResultValidity;
+}
+
+/** Warns when careless-responding checks cast doubt on a result; renders nothing otherwise. */
+export const ValidityBanner: React.FC<ValidityBannerProps> = ({ validity }) => {
+  if (!validity || validity.band === 'acceptable') return null;
+
+  const invalid = validity.band === 'invalid';
+  const Icon = invalid ? ShieldAlert : AlertTriangle;
+  const flagged = validity.checks.filter((check) => check.flagged);
+
+  return (
+    <div
+      role="alert"
+      className={`flex items-start space-x-3 p-4 rounded-lg border-2 ${
+        invalid ? 'bg-destructive/5 border-destructive/30' : 'bg-warning/5 border-warning/30'
+      }`}
+    >
+      <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${invalid ? 'text-destructive' : 'text-warning'}`} />
+      <div className="space-y-2 text-sm">
+        <p className="font-semibold text-foreground">
+          {invalid ? 'This result should not be trusted' : 'This result may not be reliable'}
+          <span className="font-normal text-muted-foreground"> · Validity index {validity.index}/100</span>
+        </p>
+        <p className="text-muted-foreground">
+          The answers show signs of careless responding, so the scores may not reflect the candidate.
+          {invalid && ' A supervised retest is advised.'}
+        </p>
+        {flagged.length > 0 && (
+          <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+            {flagged.map((check) => (
+              <li key={check.id}>
+                <span className="font-medium text-foreground">{VALIDITY_CHECK_LABELS[check.id]}:</span> {check.detail}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
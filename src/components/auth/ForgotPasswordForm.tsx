@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { Loader2, MailCheck } from 'lucide-react';
+
+interface ForgotPasswordFormProps {
+  onBackToSignin: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToSignin }) => {
+  const [email, setEmail] = useState('');
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await api.requestPasswordReset(email);
+      setSentMessage(response.message || 'If an account exists for this email, a reset link has been sent.');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sentMessage) {
+    return (
+      <div className="space-y-6">
+        <Alert>
+          <MailCheck className="h-4 w-4" />
+          <AlertDescription>{sentMessage}</AlertDescription>
+        </Alert>
+        <Button type="button" variant="outline" className="w-full" onClick={onBackToSignin}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="reset-email" className="text-foreground">Email</Label>
+        <Input
+          id="reset-email"
+          type="email"
+          placeholder="Enter your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="bg-input/50 border-border/50 focus:border-primary"
+          required
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-6"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending link...
+          </>
+        ) : (
+          'Send reset link'
+        )}
+      </Button>
+    </form>
+  );
+};
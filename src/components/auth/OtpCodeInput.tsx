@@ -0,0 +1,38 @@
+import React from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+
+export const OTP_LENGTH = 6;
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called once all six digits are entered. */
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+export const OtpCodeInput: React.FC<OtpCodeInputProps> = ({ value, onChange, onComplete, disabled }) => (
+  <InputOTP
+    maxLength={OTP_LENGTH}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      <InputOTPSlot index={0} />
+      <InputOTPSlot index={1} />
+      <InputOTPSlot index={2} />
+    </InputOTPGroup>
+    <InputOTPSeparator />
+    <InputOTPGroup>
+      <InputOTPSlot index={3} />
+      <InputOTPSlot index={4} />
+      <InputOTPSlot index={5} />
+    </InputOTPGroup>
+  </InputOTP>
+);
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { getPasswordStrength } from '@/lib/password-strength';
+
+// Full class names so Tailwind picks them up.
+const SCORE_COLORS = [
+  '[&>div]:bg-destructive',
+  '[&>div]:bg-destructive',
+  '[&>div]:bg-yellow-500',
+  '[&>div]:bg-green-500',
+  '[&>div]:bg-green-600',
+];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  if (!password) return null;
+
+  const { score, label, suggestions } = getPasswordStrength(password);
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Password strength</span>
+        <span className="font-medium text-foreground">{label}</span>
+      </div>
+      <Progress value={((score + 1) / 5) * 100} className={cn('h-2', SCORE_COLORS[score])} />
+      {suggestions.length > 0 && (
+        <p className="text-xs text-muted-foreground">{suggestions[0]}</p>
+      )}
+    </div>
+  );
+};
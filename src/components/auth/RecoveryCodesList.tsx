@@ -0,0 +1,59 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Copy, Download } from 'lucide-react';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+export const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes }) => {
+  const { toast } = useToast();
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: 'Copied', description: 'Recovery codes copied to the clipboard.' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy to the clipboard.', variant: 'destructive' });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'projekanda-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Store these codes somewhere safe. Each one signs you in once if you lose access to your
+          authenticator app, and they will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center">{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { Loader2 } from 'lucide-react';
+
+interface ResendVerificationFormProps {
+  /** Prefills the email, e.g. from a blocked sign-in. */
+  email?: string;
+}
+
+export const ResendVerificationForm: React.FC<ResendVerificationFormProps> = ({ email: initialEmail = '' }) => {
+  const [email, setEmail] = useState(initialEmail);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await api.resendVerificationEmail(email);
+      toast({
+        title: 'Verification email sent',
+        description: response.message || 'Please check your inbox for a new link.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleResend} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="verify-email" className="text-foreground">Email</Label>
+        <Input
+          id="verify-email"
+          type="email"
+          placeholder="Enter your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="bg-input/50 border-border/50 focus:border-primary"
+          required
+        />
+      </div>
+      <Button type="submit" variant="outline" className="w-full" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          'Resend verification email'
+        )}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { isPasswordAcceptable, MIN_PASSWORD_LENGTH } from '@/lib/password-strength';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+interface ResetPasswordFormProps {
+  /** Token from the emailed reset link. */
+  token?: string;
+  onBackToSignin: () => void;
+  onRequestNewLink: () => void;
+}
+
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, onBackToSignin, onRequestNewLink }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  if (!token) {
+    return (
+      <div className="space-y-6">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Invalid reset link</AlertTitle>
+          <AlertDescription>This link is missing its reset token. Please request a new one.</AlertDescription>
+        </Alert>
+        <Button type="button" className="w-full" onClick={onRequestNewLink}>
+          Request a new link
+        </Button>
+      </div>
+    );
+  }
+
+  const passwordsMatch = password === confirmPassword;
+  const canSubmit = isPasswordAcceptable(password) && passwordsMatch;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsLoading(true);
+
+    try {
+      const response = await api.resetPassword({ token, password });
+      toast({
+        title: 'Password updated',
+        description: response.message || 'You can now sign in with your new password.',
+      });
+      onBackToSignin();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="new-password" className="text-foreground">New Password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          autoComplete="new-password"
+          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="bg-input/50 border-border/50 focus:border-primary"
+          required
+        />
+        <PasswordStrengthMeter password={password} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password" className="text-foreground">Confirm Password</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          autoComplete="new-password"
+          placeholder="Re-enter your new password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className="bg-input/50 border-border/50 focus:border-primary"
+          required
+        />
+        {confirmPassword && !passwordsMatch && (
+          <p className="text-xs text-destructive">Passwords do not match.</p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-6"
+        disabled={isLoading || !canSubmit}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Updating password...
+          </>
+        ) : (
+          'Reset Password'
+        )}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { api, AuthSession } from '@/lib/api';
+import { OtpCodeInput, OTP_LENGTH } from './OtpCodeInput';
+import { Loader2 } from 'lucide-react';
+
+interface TwoFactorChallengeFormProps {
+  challengeToken: string;
+  onAuthenticated: (session: AuthSession) => void;
+}
+
+/** Second sign-in step for accounts with two-factor authentication enabled. */
+export const TwoFactorChallengeForm: React.FC<TwoFactorChallengeFormProps> = ({ challengeToken, onAuthenticated }) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const verify = async (data: { code?: string; recoveryCode?: string }) => {
+    setIsLoading(true);
+
+    try {
+      const session = await api.verifyTwoFactor({ challengeToken, ...data });
+      onAuthenticated(session);
+    } catch (error) {
+      setCode('');
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useRecoveryCode) {
+      if (recoveryCode.trim()) verify({ recoveryCode: recoveryCode.trim() });
+    } else if (code.length === OTP_LENGTH) {
+      verify({ code });
+    }
+  };
+
+  const canSubmit = useRecoveryCode ? !!recoveryCode.trim() : code.length === OTP_LENGTH;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code" className="text-foreground">Recovery Code</Label>
+          <Input
+            id="recovery-code"
+            type="text"
+            autoComplete="off"
+            placeholder="xxxxx-xxxxx"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            className="bg-input/50 border-border/50 focus:border-primary font-mono"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Each recovery code can only be used once.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground text-center">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+          <OtpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => verify({ code: value })}
+            disabled={isLoading}
+          />
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-6"
+        disabled={isLoading || !canSubmit}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          'Verify'
+        )}
+      </Button>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={() => setUseRecoveryCode((prev) => !prev)}
+          className="text-sm font-medium text-primary hover:underline"
+          disabled={isLoading}
+        >
+          {useRecoveryCode ? 'Use your authenticator app instead' : 'Use a recovery code'}
+        </button>
+      </div>
+    </form>
+  );
+};
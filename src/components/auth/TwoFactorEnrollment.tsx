@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { api, TwoFactorSetup } from '@/lib/api';
+import { OtpCodeInput, OTP_LENGTH } from './OtpCodeInput';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { Loader2 } from 'lucide-react';
+
+type EnrollmentStep =
+  | { step: 'loading' }
+  | { step: 'scan'; setup: TwoFactorSetup }
+  | { step: 'recovery-codes'; codes: string[] };
+
+interface TwoFactorEnrollmentProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+/** Walks the user through scanning the secret, confirming a code and saving recovery codes. */
+export const TwoFactorEnrollment: React.FC<TwoFactorEnrollmentProps> = ({ onComplete, onCancel }) => {
+  const [state, setState] = useState<EnrollmentStep>({ step: 'loading' });
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .setupTwoFactor()
+      .then((setup) => {
+        if (!cancelled) setState({ step: 'scan', setup });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Something went wrong',
+          variant: 'destructive',
+        });
+        onCancel();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toast, onCancel]);
+
+  const confirmCode = async (value: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.enableTwoFactor(value);
+      setState({ step: 'recovery-codes', codes: response.recovery_codes });
+    } catch (error) {
+      setCode('');
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (state.step === 'loading') {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Preparing setup...
+      </div>
+    );
+  }
+
+  if (state.step === 'recovery-codes') {
+    return (
+      <div className="space-y-4">
+        <h3 className="font-semibold text-foreground">Save your recovery codes</h3>
+        <RecoveryCodesList codes={state.codes} />
+        <Button type="button" className="w-full" onClick={onComplete}>
+          I have saved my codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="font-semibold text-foreground">1. Scan this QR code</h3>
+        <p className="text-sm text-muted-foreground">
+          Use an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+        </p>
+        <div className="flex justify-center rounded-lg bg-white p-4">
+          <QRCodeSVG value={state.setup.otpauth_url} size={176} />
+        </div>
+        <p className="text-sm text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <p className="rounded-md bg-muted px-3 py-2 text-center font-mono text-sm break-all select-all">
+          {formatSecret(state.setup.secret)}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold text-foreground">2. Enter the 6-digit code</h3>
+        <OtpCodeInput value={code} onChange={setCode} onComplete={confirmCode} disabled={isLoading} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={() => confirmCode(code)}
+          disabled={isLoading || code.length !== OTP_LENGTH}
+        >
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Enable
+        </Button>
+      </div>
+    </div>
+  );
+};
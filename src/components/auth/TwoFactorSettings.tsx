@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, TwoFactorStatus } from '@/lib/api';
+import { TwoFactorEnrollment } from './TwoFactorEnrollment';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { OtpCodeInput, OTP_LENGTH } from './OtpCodeInput';
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+
+type CodeAction = 'disable' | 'regenerate';
+
+const ACTION_COPY: Record<CodeAction, { title: string; description: string; confirm: string }> = {
+  disable: {
+    title: 'Disable two-factor authentication',
+    description: 'Enter a code from your authenticator app, or a recovery code, to turn off two-factor authentication.',
+    confirm: 'Disable',
+  },
+  regenerate: {
+    title: 'Regenerate recovery codes',
+    description: 'Your existing recovery codes will stop working. Enter a code from your authenticator app to continue.',
+    confirm: 'Regenerate',
+  },
+};
+
+interface ConfirmCodeDialogProps {
+  action: CodeAction | null;
+  onClose: () => void;
+  onConfirm: (action: CodeAction, code: string) => Promise<void>;
+}
+
+const ConfirmCodeDialog: React.FC<ConfirmCodeDialogProps> = ({ action, onClose, onConfirm }) => {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setCode('');
+    setUseRecoveryCode(false);
+  }, [action]);
+
+  if (!action) return null;
+
+  const canSubmit = useRecoveryCode ? !!code.trim() : code.length === OTP_LENGTH;
+
+  const handleConfirm = async () => {
+    setIsLoading(true);
+    try {
+      await onConfirm(action, code.trim());
+    } finally {
+      setIsLoading(false);
+      setCode('');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{ACTION_COPY[action].title}</DialogTitle>
+          <DialogDescription>{ACTION_COPY[action].description}</DialogDescription>
+        </DialogHeader>
+
+        {useRecoveryCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="confirm-recovery-code">Recovery Code</Label>
+            <Input
+              id="confirm-recovery-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+              className="font-mono"
+              autoFocus
+            />
+          </div>
+        ) : (
+          <OtpCodeInput value={code} onChange={setCode} disabled={isLoading} />
+        )}
+
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode((prev) => !prev);
+            setCode('');
+          }}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          {useRecoveryCode ? 'Use your authenticator app instead' : 'Use a recovery code'}
+        </button>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={action === 'disable' ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={isLoading || !canSubmit}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {ACTION_COPY[action].confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/** Account setting for enabling, disabling and managing two-factor authentication. */
+export const TwoFactorSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [pendingAction, setPendingAction] = useState<CodeAction | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await api.getTwoFactorStatus());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleEnrollmentComplete = useCallback(() => {
+    setIsEnrolling(false);
+    toast({ title: 'Two-factor authentication enabled', description: 'You will be asked for a code when you sign in.' });
+    loadStatus();
+  }, [toast, loadStatus]);
+
+  const handleEnrollmentCancel = useCallback(() => setIsEnrolling(false), []);
+
+  const handleConfirm = async (action: CodeAction, code: string) => {
+    try {
+      if (action === 'disable') {
+        const response = await api.disableTwoFactor(code);
+        toast({ title: 'Two-factor authentication disabled', description: response.message });
+        setNewCodes(null);
+      } else {
+        const response = await api.regenerateRecoveryCodes(code);
+        setNewCodes(response.recovery_codes);
+      }
+      setPendingAction(null);
+      loadStatus();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            <span>Two-Factor Authentication</span>
+          </CardTitle>
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>{status.enabled ? 'Enabled' : 'Off'}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Require a code from an authenticator app in addition to your password when signing in.
+          {user?.role === 'ADOF' && ' Strongly recommended for ADOF officers, who handle candidate CVs and personal data.'}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading...
+          </div>
+        ) : isEnrolling ? (
+          <TwoFactorEnrollment onComplete={handleEnrollmentComplete} onCancel={handleEnrollmentCancel} />
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? '' : 's'} remaining.
+            </p>
+            {newCodes && <RecoveryCodesList codes={newCodes} />}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPendingAction('regenerate')}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                Regenerate recovery codes
+              </Button>
+              <Button variant="outline" className="text-destructive" onClick={() => setPendingAction('disable')}>
+                <ShieldOff className="w-4 h-4 mr-2" />
+                Disable
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => setIsEnrolling(true)}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Enable two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <ConfirmCodeDialog action={pendingAction} onClose={() => setPendingAction(null)} onConfirm={handleConfirm} />
+    </Card>
+  );
+};
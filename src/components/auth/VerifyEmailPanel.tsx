@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ResendVerificationForm } from './ResendVerificationForm';
+import { api } from '@/lib/api';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+
+type VerifyState =
+  | { status: 'verifying' }
+  | { status: 'verified'; message: string }
+  | { status: 'failed'; message: string };
+
+interface VerifyEmailPanelProps {
+  /** Token from the emailed verification link. */
+  token?: string;
+  onBackToSignin: () => void;
+}
+
+export const VerifyEmailPanel: React.FC<VerifyEmailPanelProps> = ({ token, onBackToSignin }) => {
+  const [state, setState] = useState<VerifyState>(
+    token ? { status: 'verifying' } : { status: 'failed', message: 'This link is missing its verification token.' },
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    api
+      .verifyEmail(token)
+      .then((response) => {
+        if (!cancelled) {
+          setState({ status: 'verified', message: response.message || 'Your email address has been verified.' });
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setState({
+            status: 'failed',
+            message: error instanceof Error ? error.message : 'We could not verify your email address.',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (state.status === 'verifying') {
+    return (
+      <div className="flex flex-col items-center py-6 text-muted-foreground">
+        <Loader2 className="w-6 h-6 animate-spin mb-3" />
+        <p>Verifying your email address...</p>
+      </div>
+    );
+  }
+
+  if (state.status === 'verified') {
+    return (
+      <div className="space-y-6">
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Email verified</AlertTitle>
+          <AlertDescription>{state.message}</AlertDescription>
+        </Alert>
+        <Button type="button" className="w-full" onClick={onBackToSignin}>
+          Continue to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Verification failed</AlertTitle>
+        <AlertDescription>{state.message}</AlertDescription>
+      </Alert>
+      <ResendVerificationForm />
+    </div>
+  );
+};
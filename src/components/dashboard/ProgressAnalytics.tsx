@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResultSummary } from '@/lib/api';
+import {
+  activityBuckets,
+  DASHBOARD_RANGES,
+  DashboardRange,
+  dashboardStats,
+  resultsInRange,
+  scoreTimeline,
+  traitAverages,
+} from '@/lib/result-analytics';
+import { Award, Target, TrendingUp, Clock } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  LineChart,
+  Line,
+  Legend,
+} from 'recharts';
+
+interface ProgressAnalyticsProps {
+  /** The learner's results, in any order; at least one. */
+  results: ResultSummary[];
+}
+
+const TRAIT_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--success))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(199 89% 48%)',
+  'hsl(271 81% 56%)',
+];
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+const ACTIVITY_DESCRIPTIONS: Record<DashboardRange, string> = {
+  '7d': 'Number of tests taken each day this week',
+  '30d': 'Number of tests taken each week',
+  '90d': 'Number of tests taken each week',
+  all: 'Number of tests taken each month',
+};
+
+const signed = (value: number, unit = '') => `${value > 0 ? '+' : ''}${value}${unit}`;
+
+const StatCard: React.FC<{
+  title: string;
+  value: string;
+  detail: string;
+  icon: React.ElementType;
+  tone: 'primary' | 'success' | 'accent' | 'secondary';
+}> = ({ title, value, detail, icon: Icon, tone }) => {
+  // Full class names so Tailwind keeps them.
+  const tones = {
+    primary: ['from-primary/10 to-primary/5 border-primary/20', 'text-primary'],
+    success: ['from-success/10 to-success/5 border-success/20', 'text-success'],
+    accent: ['from-accent/10 to-accent/5 border-accent/20', 'text-accent'],
+    secondary: ['from-secondary/10 to-secondary/5 border-secondary/20', 'text-secondary'],
+  };
+  const [cardTone, iconTone] = tones[tone];
+  return (
+    <Card className={`bg-gradient-to-br ${cardTone}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+          <Icon className={`w-5 h-5 ${iconTone}`} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="text-3xl font-bold text-foreground truncate">{value}</div>
+        <p className="text-xs text-muted-foreground mt-1">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+};
+
+const EmptyChart: React.FC<{ className: string; message?: string }> = ({
+  className,
+  message = 'No tests in this period',
+}) => (
+  <div className={`${className} flex items-center justify-center text-sm text-muted-foreground`}>{message}</div>
+);
+
+/** Stat cards and charts for the TVET dashboard, computed from the learner's results. */
+export const ProgressAnalytics: React.FC<ProgressAnalyticsProps> = ({ results }) => {
+  const [range, setRange] = useState<DashboardRange>('30d');
+  const period =
+    range === 'all' ? 'all time' : `the ${DASHBOARD_RANGES.find((option) => option.value === range).label.toLowerCase()}`;
+
+  const stats = dashboardStats(results, range);
+  const timeline = scoreTimeline(results, range);
+  // Strongest first; a trait keeps its colour in both trait charts.
+  const averages = traitAverages(resultsInRange(results, range));
+  const traitColor = (index: number) => TRAIT_COLORS[index % TRAIT_COLORS.length];
+  const activityData = activityBuckets(results, range);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold text-foreground">Your Progress</h3>
+        <Select value={range} onValueChange={(value) => setRange(value as DashboardRange)}>
+          <SelectTrigger className="w-44" aria-label="Date range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DASHBOARD_RANGES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid md:grid-cols-4 gap-6 mb-12">
+        <StatCard
+          title="Tests Taken"
+          value={String(stats.testsTaken)}
+          detail={stats.testsChange !== undefined ? `${signed(stats.testsChange)} from the period before` : 'All time'}
+          icon={Award}
+          tone="primary"
+        />
+        <StatCard
+          title="Average Score"
+          value={stats.averageScore !== undefined ? `${stats.averageScore}%` : '—'}
+          detail={
+            stats.averageChange !== undefined
+              ? `${signed(stats.averageChange, ' pts')} from the period before`
+              : `Over ${period}`
+          }
+          icon={TrendingUp}
+          tone="success"
+        />
+        <StatCard
+          title="Latest Score"
+          value={stats.latestScore !== undefined ? `${stats.latestScore}%` : '—'}
+          detail={
+            stats.latestChange !== undefined
+              ? `${signed(stats.latestChange, ' pts')} from the attempt before`
+              : 'Most recent attempt'
+          }
+          icon={Clock}
+          tone="accent"
+        />
+        <StatCard
+          title="Strongest Trait"
+          value={stats.strongestTrait?.trait ?? '—'}
+          detail={stats.strongestTrait ? `Averaging ${stats.strongestTrait.percentage}%` : 'No trait scores yet'}
+          icon={Target}
+          tone="secondary"
+        />
+      </div>
+
+      {/* Charts Section */}
+      <div className="grid lg:grid-cols-2 gap-8 mb-12">
+        {/* Performance Chart */}
+        <Card className="bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="text-xl">Performance Trends</CardTitle>
+            <CardDescription>Your test scores over {period}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <EmptyChart className="h-80" />
+            ) : (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={timeline}>
+                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                    <XAxis dataKey="label" className="text-xs" />
+                    <YAxis domain={[0, 100]} className="text-xs" />
+                    <Tooltip formatter={(value: number) => [`${value}%`, 'Score']} contentStyle={tooltipStyle} />
+                    <Line
+                      type="monotone"
+                      dataKey="score"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={3}
+                      dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 6 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Skills Breakdown */}
+        <Card className="bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="text-xl">Skills Breakdown</CardTitle>
+            <CardDescription>Your average score per trait over {period}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {averages.length === 0 ? (
+              <EmptyChart className="h-80" message="No trait scores in this period" />
+            ) : (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={averages}
+                      cx="50%"
+                      cy="50%"
+                      outerRadius={80}
+                      dataKey="percentage"
+                      nameKey="trait"
+                      label={({ name, value }) => `${name}: ${value}%`}
+                    >
+                      {averages.map(({ trait }, index) => (
+                        <Cell key={trait} fill={traitColor(index)} />
+                      ))}
+                    </Pie>
+                    <Tooltip contentStyle={tooltipStyle} />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trait Evolution */}
+      <Card className="bg-card/50 border-border/50 mb-12">
+        <CardHeader>
+          <CardTitle className="text-xl">Trait Evolution</CardTitle>
+          <CardDescription>How each trait score changed from attempt to attempt</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {averages.length === 0 ? (
+            <EmptyChart className="h-72" message="No trait scores in this period" />
+          ) : (
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={timeline}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis dataKey="label" className="text-xs" />
+                  <YAxis domain={[0, 100]} className="text-xs" />
+                  <Tooltip formatter={(value: number) => `${value}%`} contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {averages.map(({ trait }, index) => (
+                    <Line
+                      key={trait}
+                      type="monotone"
+                      dataKey={trait}
+                      stroke={traitColor(index)}
+                      strokeWidth={2}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Activity Chart */}
+      <Card className="bg-card/50 border-border/50 mb-12">
+        <CardHeader>
+          <CardTitle className="text-xl">Activity</CardTitle>
+          <CardDescription>{ACTIVITY_DESCRIPTIONS[range]}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={activityData}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="label" className="text-xs" />
+                <YAxis allowDecimals={false} className="text-xs" />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Bar dataKey="tests" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ResultSummary } from '@/lib/api';
+import { compareAttempts, HISTORY_DATE_FORMAT, TraitMovement, TraitSnapshot } from '@/lib/result-history';
+import { ArrowDownRight, ArrowUpRight, Minus, Plus, X } from 'lucide-react';
+
+interface AttemptComparisonProps {
+  /** Newest first, as returned by `api.listResults`; needs at least two. */
+  results: ResultSummary[];
+}
+
+const attemptLabel = (result: ResultSummary) =>
+  `${format(new Date(result.created_at), HISTORY_DATE_FORMAT)} · ${result.percentage}%`;
+
+const snapshotText = (snapshot?: TraitSnapshot) => {
+  if (!snapshot) return '—';
+  return snapshot.percentage !== undefined ? `${snapshot.percentage}% (${snapshot.band})` : snapshot.band;
+};
+
+const AttemptSelect: React.FC<{
+  id: string;
+  label: string;
+  results: ResultSummary[];
+  value: string;
+  onChange: (resultId: string) => void;
+}> = ({ id, label, results, value, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-sm text-muted-foreground">
+      {label}
+    </Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-64">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {results.map((result) => (
+          <SelectItem key={result.result_id} value={result.result_id}>
+            {attemptLabel(result)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const MovementCell: React.FC<{ movement: TraitMovement }> = ({ movement }) => {
+  const delta = movement.delta !== undefined ? `${movement.delta > 0 ? '+' : ''}${movement.delta} pts` : null;
+  switch (movement.direction) {
+    case 'up':
+      return (
+        <span className="inline-flex items-center text-success">
+          <ArrowUpRight className="w-4 h-4 mr-1" />
+          {delta ?? 'Improved'}
+        </span>
+      );
+    case 'down':
+      return (
+        <span className="inline-flex items-center text-destructive">
+          <ArrowDownRight className="w-4 h-4 mr-1" />
+          {delta ?? 'Declined'}
+        </span>
+      );
+    case 'new':
+      return (
+        <span className="inline-flex items-center text-muted-foreground">
+          <Plus className="w-4 h-4 mr-1" />
+          Newly assessed
+        </span>
+      );
+    case 'dropped':
+      return (
+        <span className="inline-flex items-center text-muted-foreground">
+          <X className="w-4 h-4 mr-1" />
+          Not assessed
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center text-muted-foreground">
+          <Minus className="w-4 h-4 mr-1" />
+          {delta ?? 'No change'}
+        </span>
+      );
+  }
+};
+
+/** Trait-by-trait changes between two attempts, defaulting to the latest two. */
+export const AttemptComparison: React.FC<AttemptComparisonProps> = ({ results }) => {
+  const [earlierId, setEarlierId] = useState(results[1]?.result_id);
+  const [laterId, setLaterId] = useState(results[0]?.result_id);
+
+  const earlier = results.find((result) => result.result_id === earlierId) ?? results[1];
+  const later = results.find((result) => result.result_id === laterId) ?? results[0];
+  if (!earlier || !later) return null;
+
+  // Compare in time order whichever way round the attempts were picked.
+  const [from, to] = earlier.created_at <= later.created_at ? [earlier, later] : [later, earlier];
+  const movements = from === to ? [] : compareAttempts(from, to);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <AttemptSelect
+          id="compare-earlier"
+          label="Earlier attempt"
+          results={results}
+          value={earlier.result_id}
+          onChange={setEarlierId}
+        />
+        <AttemptSelect
+          id="compare-later"
+          label="Later attempt"
+          results={results}
+          value={later.result_id}
+          onChange={setLaterId}
+        />
+      </div>
+
+      {movements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Choose two different attempts to compare.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trait</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+              <TableHead>Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.map((movement) => (
+              <TableRow key={movement.trait}>
+                <TableCell className="font-medium">{movement.trait}</TableCell>
+                <TableCell>{snapshotText(movement.before)}</TableCell>
+                <TableCell>{snapshotText(movement.after)}</TableCell>
+                <TableCell>
+                  <MovementCell movement={movement} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
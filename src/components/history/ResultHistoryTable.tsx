@@ -0,0 +1,69 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ResultSummary } from '@/lib/api';
+import { HISTORY_DATE_FORMAT, resultTraits, traitSnapshot } from '@/lib/result-history';
+import { ExternalLink } from 'lucide-react';
+
+interface ResultHistoryTableProps {
+  results: ResultSummary[];
+  onOpen: (resultId: string) => void;
+  /** Listed first among each result's traits. */
+  highlightTrait?: string;
+}
+
+export const ResultHistoryTable: React.FC<ResultHistoryTableProps> = ({ results, onOpen, highlightTrait }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Date</TableHead>
+        <TableHead>Test</TableHead>
+        <TableHead className="text-right">Score</TableHead>
+        <TableHead>Traits</TableHead>
+        <TableHead className="sr-only">Actions</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {results.map((result) => {
+        const traits = resultTraits(result).sort((a, b) => Number(b === highlightTrait) - Number(a === highlightTrait));
+        return (
+          <TableRow key={result.result_id}>
+            <TableCell className="whitespace-nowrap">
+              {format(new Date(result.created_at), HISTORY_DATE_FORMAT)}
+            </TableCell>
+            <TableCell>
+              <div className="font-medium">{result.test_title || 'Assessment'}</div>
+              {result.partial && <div className="text-xs text-muted-foreground">Submitted when time ran out</div>}
+            </TableCell>
+            <TableCell className="text-right font-semibold tabular-nums">{result.percentage}%</TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {traits.map((trait) => {
+                  const snapshot = traitSnapshot(result, trait);
+                  return (
+                    <Badge
+                      key={trait}
+                      variant={snapshot?.band === 'Strength' ? 'default' : 'secondary'}
+                      className={trait === highlightTrait ? 'text-xs ring-2 ring-ring' : 'text-xs'}
+                      title={snapshot?.percentage !== undefined ? `${snapshot.percentage}%` : undefined}
+                    >
+                      {trait}: {snapshot?.band}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </TableCell>
+            <TableCell className="text-right">
+              <Button variant="ghost" size="sm" onClick={() => onOpen(result.result_id)}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                View
+              </Button>
+            </TableCell>
+          </TableRow>
+        );
+      })}
+    </TableBody>
+  </Table>
+);
@@ -1,19 +1,51 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'TVET' | 'ADOF';
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { api, AuthSession, User } from '@/lib/api';
+import { getConfig } from '@/lib/config';
+import {
+  abortSessionRequests,
+  endSession,
+  getSession,
+  onSessionEnd,
+  setSession,
+  SessionEndReason,
+} from '@/lib/session';
+import { broadcastSessionChange, subscribeToSessionChanges } from '@/lib/session-sync';
+import { useIdleTimeout } from '@/hooks/use-idle-timeout';
+import { toast } from '@/hooks/use-toast';
+import { SessionTimeoutDialog } from '@/components/SessionTimeoutDialog';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (userData: User) => void;
+  login: (session: AuthSession) => void;
   logout: () => void;
 }
 
+const USER_KEY = 'auth_user';
+
+// Activity is shared with other tabs at most this often so an idle tab does
+// not sign out a user who is working in another one.
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15_000;
+
+const SESSION_END_MESSAGES: Partial<Record<SessionEndReason, { title: string; description: string }>> = {
+  expired: {
+    title: 'Session expired',
+    description: 'Please sign in again to continue.',
+  },
+  idle: {
+    title: 'Signed out',
+    description: 'You were signed out due to inactivity.',
+  },
+};
+
+// Revoke server-side on a best-effort basis; the local session ends regardless.
+const revokeStoredSession = () => {
+  const session = getSession();
+  if (session) {
+    api.signout(session.refreshToken).catch((error) => console.warn('Sign out request failed:', error));
+  }
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -31,29 +63,111 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Bumped when another tab changes the session, remounting every view so no
+  // state from the previous user survives.
+  const [sessionVersion, setSessionVersion] = useState(0);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  const lastActivityBroadcast = useRef(0);
 
   useEffect(() => {
-    // Check for stored auth data on app load
-    const storedUser = localStorage.getItem('auth_user');
-    if (storedUser) {
+    // Check for stored auth data on app load. A user without tokens is a
+    // leftover from before token sessions and cannot call the API.
+    const storedUser = localStorage.getItem(USER_KEY);
+    if (storedUser && getSession()) {
       try {
         setUser(JSON.parse(storedUser));
       } catch (error) {
-        localStorage.removeItem('auth_user');
+        localStorage.removeItem(USER_KEY);
       }
+    } else {
+      localStorage.removeItem(USER_KEY);
     }
     setIsLoading(false);
   }, []);
 
-  const login = (userData: User) => {
+  useEffect(
+    () =>
+      onSessionEnd((reason) => {
+        setUser(null);
+        localStorage.removeItem(USER_KEY);
+        broadcastSessionChange({ type: 'logout' });
+        const message = SESSION_END_MESSAGES[reason];
+        if (message) toast(message);
+      }),
+    [],
+  );
+
+  const login = useCallback(({ user: userData, tokens }: AuthSession) => {
+    abortSessionRequests();
+    setSession(tokens);
     setUser(userData);
-    localStorage.setItem('auth_user', JSON.stringify(userData));
-  };
+    localStorage.setItem(USER_KEY, JSON.stringify(userData));
+    broadcastSessionChange({ type: 'login', user: userData });
+  }, []);
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('auth_user');
-  };
+  const logout = useCallback(() => {
+    revokeStoredSession();
+    endSession('signed_out');
+  }, []);
+
+  const { idleTimeoutMinutes, idleWarningSeconds } = getConfig();
+  const { remainingMs, stayActive } = useIdleTimeout({
+    enabled: !!user,
+    timeoutMs: idleTimeoutMinutes * 60_000,
+    warningMs: idleWarningSeconds * 1000,
+    onTimeout: () => {
+      revokeStoredSession();
+      endSession('idle');
+    },
+    onActivity: () => {
+      const now = Date.now();
+      if (now - lastActivityBroadcast.current < ACTIVITY_BROADCAST_INTERVAL_MS) return;
+      lastActivityBroadcast.current = now;
+      broadcastSessionChange({ type: 'activity' });
+    },
+  });
+
+  useEffect(
+    () =>
+      subscribeToSessionChanges((message) => {
+        const current = userRef.current;
+
+        if (message.type === 'activity') {
+          if (current) stayActive();
+          return;
+        }
+
+        if (message.type === 'logout') {
+          if (!current) return;
+          // Tokens were already cleared in the shared storage by the other tab.
+          abortSessionRequests();
+          setUser(null);
+          setSessionVersion((version) => version + 1);
+          toast({ title: 'Signed out', description: 'Your session was ended in another tab.' });
+          return;
+        }
+
+        // Same account signing in again elsewhere only refreshed the shared tokens.
+        if (current?.id === message.user.id) return;
+
+        abortSessionRequests();
+        setUser(message.user);
+        setSessionVersion((version) => version + 1);
+        if (current) {
+          toast({
+            title: 'Account changed',
+            description: `You are now signed in as ${message.user.name} from another tab.`,
+          });
+        }
+      }),
+    [stayActive],
+  );
+
+  const handleStayActive = useCallback(() => {
+    stayActive();
+    broadcastSessionChange({ type: 'activity' });
+  }, [stayActive]);
 
   const value = {
     user,
@@ -64,7 +178,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   return (
     <AuthContext.Provider value={value}>
-      {children}
+      <React.Fragment key={sessionVersion}>{children}</React.Fragment>
+      <SessionTimeoutDialog remainingMs={remainingMs} onStayActive={handleStayActive} onSignOut={logout} />
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,324 @@
+import * as React from "react";
+import {
+  api,
+  GenerateTestResponse,
+  SubmittedAnswer,
+  TestQuestion,
+  TestBlueprint,
+  TestOrigin,
+  TestResult,
+  TestTimeLimits,
+} from "@/lib/api";
+import { getConfig } from "@/lib/config";
+import { NetworkError } from "@/lib/http";
+import {
+  answeredCount,
+  assessmentReducer,
+  canSubmit,
+  createAssessmentState,
+  currentSectionIndex,
+  isAnswered,
+  isComplete,
+  isEditable,
+  isTimed,
+  remainingTime,
+} from "@/lib/assessment/engine";
+import { AnswerValue } from "@/lib/assessment/question-types";
+import { crossCheckAnalysis, ScoredTest, scoreTest } from "@/lib/assessment/scoring";
+import { buildSubmission } from "@/lib/assessment/submission";
+import { buildTelemetry, recordTime } from "@/lib/assessment/telemetry";
+import { assessValidity } from "@/lib/assessment/validity";
+import { deleteTestDraft, saveTestDraft, TestDraft } from "@/lib/test-drafts";
+import { toast } from "@/hooks/use-toast";
+
+const TICK_MS = 1000;
+// A running clock is written to the draft this often; answers are saved at once. Time
+// after the last save is not lost: the draft's clock is stamped with the wall-clock
+// time it counts up to, and resuming charges everything since.
+const TIMING_SAVE_INTERVAL_MS = 10_000;
+
+interface AssessmentOptions {
+  userId: string;
+  test: Pick<GenerateTestResponse, "testId" | "questions"> & TestTimeLimits & TestOrigin;
+  /** The blueprint an ADOF test was generated from, kept with the draft and the result. */
+  blueprint?: TestBlueprint;
+  /** Identifies the flow the autosaved draft belongs to. */
+  draft: Pick<TestDraft, "source" | "jobId" | "candidateKey" | "candidateName">;
+  /** Saved progress to continue from. */
+  initialDraft?: TestDraft | null;
+  /** Called with the detailed result, or the submission response if that cannot be fetched. */
+  onSubmitted: (result: TestResult) => void;
+  onSubmitError: (error: unknown) => void;
+}
+
+// Local scoring only previews and cross-checks; the server's result stands
+const scoreLocally = (questions: TestQuestion[], answers: Record<string, SubmittedAnswer>, partial: boolean) => {
+  try {
+    return scoreTest(questions, answers, { partial });
+  } catch (error) {
+    console.warn("Could not score the answers locally:", error);
+    return null;
+  }
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.round(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+/**
+ * Runs one test attempt: answers and navigation through the assessment
+ * engine, the clock with threshold warnings for timed tests, per-question
+ * telemetry, draft autosave and submission with response-validity checks.
+ * When time runs out the answers given so far are submitted automatically;
+ * any submission with unanswered questions is flagged partial.
+ */
+export function useAssessment({
+  userId,
+  test,
+  blueprint,
+  draft,
+  initialDraft,
+  onSubmitted,
+  onSubmitError,
+}: AssessmentOptions) {
+  const [state, dispatch] = React.useReducer(assessmentReducer, undefined, () =>
+    createAssessmentState(test, initialDraft, Date.now()),
+  );
+  const { source, jobId, candidateKey, candidateName } = draft;
+  const stateRef = React.useRef(state);
+  stateRef.current = state;
+  const onSubmittedRef = React.useRef(onSubmitted);
+  onSubmittedRef.current = onSubmitted;
+  const onSubmitErrorRef = React.useRef(onSubmitError);
+  onSubmitErrorRef.current = onSubmitError;
+  // Local scoring of the answers after a submission failed for lack of a connection
+  const [offlinePreview, setOfflinePreview] = React.useState<ScoredTest | null>(null);
+
+  const timed = isTimed(state);
+  // Untimed tests tick too, for the time spent on each question
+  const running = isEditable(state);
+  const remaining = remainingTime(state);
+  const sectionIndex = currentSectionIndex(state);
+  const timingBucket = Math.floor(state.timing.elapsedMs / TIMING_SAVE_INTERVAL_MS);
+  const { paused, extensionMs, pauseAllowed } = state.timing;
+
+  // Autosave so a reload or crash does not lose the answers, or restart the clock
+  React.useEffect(() => {
+    const current = stateRef.current;
+    if (current.status !== "in_progress" || !test.testId) return;
+    if (answeredCount(current) === 0 && current.timing.elapsedMs === 0) return;
+    saveTestDraft({
+      userId,
+      testId: test.testId,
+      source,
+      jobId,
+      candidateKey,
+      candidateName,
+      origin: { job_id: test.job_id, blueprint_id: test.blueprint_id },
+      blueprint,
+      questions: current.questions,
+      limits: { time_limit_seconds: test.time_limit_seconds, sections: test.sections, accommodations: test.accommodations },
+      answers: current.answers,
+      currentQuestionIndex: current.currentIndex,
+      timing: timed ? current.timing : undefined,
+      telemetry: current.telemetry,
+    });
+  }, [
+    state.answers,
+    state.currentIndex,
+    state.expired,
+    timingBucket,
+    paused,
+    extensionMs,
+    pauseAllowed,
+    timed,
+    userId,
+    test.testId,
+    test.time_limit_seconds,
+    test.sections,
+    test.accommodations,
+    test.job_id,
+    test.blueprint_id,
+    blueprint,
+    source,
+    jobId,
+    candidateKey,
+    candidateName,
+  ]);
+
+  // Time since the last tick is also counted before every move, so time on
+  // each question is not rounded to whole ticks
+  const lastTick = React.useRef(Date.now());
+  const flushTime = React.useCallback(() => {
+    const now = Date.now();
+    dispatch({ type: "tick", elapsedMs: now - lastTick.current, at: now });
+    lastTick.current = now;
+  }, []);
+
+  React.useEffect(() => {
+    if (!running) return;
+    lastTick.current = Date.now();
+    // The clock restarts now, after a pause or a failed submission
+    dispatch({ type: "tick", elapsedMs: 0, at: lastTick.current });
+    const interval = window.setInterval(flushTime, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [running, flushTime]);
+
+  // Warn once as each remaining time crosses a configured threshold
+  const { overallMs, sectionMs } = remaining;
+  const previousRemaining = React.useRef({ overallMs, sectionMs, sectionIndex });
+  React.useEffect(() => {
+    const previous = previousRemaining.current;
+    previousRemaining.current = { overallMs, sectionMs, sectionIndex };
+    const thresholdsMs = getConfig().timeWarningSeconds.map((seconds) => seconds * 1000);
+    const crossed = (before: number | null, after: number | null) =>
+      before !== null && after !== null ? thresholdsMs.find((t) => before > t && after <= t && after > 0) : undefined;
+
+    const overallThreshold = crossed(previous.overallMs, overallMs);
+    const sectionThreshold = previous.sectionIndex === sectionIndex ? crossed(previous.sectionMs, sectionMs) : undefined;
+    if (overallThreshold !== undefined) {
+      toast({ title: `${formatDuration(overallThreshold)} left`, description: "Time for the whole test is running out." });
+    } else if (sectionThreshold !== undefined) {
+      const title = stateRef.current.sections[sectionIndex].title || "this section";
+      toast({ title: `${formatDuration(sectionThreshold)} left`, description: `Time for ${title} is running out.` });
+    }
+  }, [overallMs, sectionMs, sectionIndex]);
+
+  React.useEffect(() => {
+    if (state.timedOutSection === null) return;
+    const section = stateRef.current.sections[state.timedOutSection];
+    toast({
+      title: "Time is up for this section",
+      description: `${section.title || "The section"} is closed; your answers there have been kept.`,
+    });
+  }, [state.timedOutSection]);
+
+  const answer = React.useCallback(
+    (value: AnswerValue | undefined) => dispatch({ type: "answer", questionIndex: state.currentIndex, value }),
+    [state.currentIndex],
+  );
+  const next = React.useCallback(() => {
+    flushTime();
+    dispatch({ type: "next" });
+  }, [flushTime]);
+  const previous = React.useCallback(() => {
+    flushTime();
+    dispatch({ type: "previous" });
+  }, [flushTime]);
+  const goTo = React.useCallback(
+    (index: number) => {
+      flushTime();
+      dispatch({ type: "goTo", index });
+    },
+    [flushTime],
+  );
+  const nextSection = React.useCallback(() => {
+    flushTime();
+    dispatch({ type: "nextSection" });
+  }, [flushTime]);
+  const pause = React.useCallback(() => {
+    flushTime();
+    dispatch({ type: "pause" });
+  }, [flushTime]);
+  const resume = React.useCallback(() => dispatch({ type: "resume" }), []);
+  const extendTime = React.useCallback((ms: number) => dispatch({ type: "extendTime", ms }), []);
+  const allowPause = React.useCallback((allowed: boolean) => dispatch({ type: "allowPause", allowed }), []);
+
+  const submit = React.useCallback(async () => {
+    const current = stateRef.current;
+    if (!canSubmit(current)) return;
+
+    // Count the time since the last tick here: a dispatched tick would not be seen yet
+    const telemetry = isEditable(current)
+      ? recordTime(current.telemetry, current.currentIndex, Date.now() - lastTick.current)
+      : current.telemetry;
+    let submission;
+    try {
+      submission = buildSubmission(userId, test.testId, current.questions, current.answers, {
+        partial: !isComplete(current),
+        telemetry: buildTelemetry(current.questions, current.answers, telemetry),
+      });
+    } catch (error) {
+      onSubmitErrorRef.current(error);
+      return;
+    }
+
+    const localScore = scoreLocally(current.questions, submission.answers, !!submission.partial);
+    dispatch({ type: "submitStarted" });
+    setOfflinePreview(null);
+    let response: TestResult;
+    try {
+      response = await api.submitAnswers(submission);
+    } catch (error) {
+      dispatch({ type: "submitFailed", error: error instanceof Error ? error.message : "Submission failed" });
+      // Offline, the answers stay in the draft; meanwhile show what they score locally
+      if (error instanceof NetworkError) setOfflinePreview(localScore);
+      onSubmitErrorRef.current(error);
+      return;
+    }
+
+    await deleteTestDraft(userId, test.testId);
+    let result = response;
+    try {
+      result = await api.getResultById(response.data.result_id);
+    } catch (error) {
+      console.warn("Could not fetch the detailed result, using the submission response:", error);
+    }
+    const mismatched = localScore ? crossCheckAnalysis(current.questions, localScore, result.data.analysis) : [];
+    if (mismatched.length > 0) {
+      console.warn("The server's trait analysis differs from the local scoring for:", mismatched.join(", "));
+    }
+    // A server that does not check response validity gets the same checks run here
+    if (!result.data.validity) {
+      const validity = assessValidity(current.questions, submission.answers, submission.telemetry);
+      result = { ...result, data: { ...result.data, validity } };
+    }
+    // Nor does every server keep what the test was generated for; the report names it
+    const {
+      job_id = test.job_id,
+      blueprint_id = test.blueprint_id ?? blueprint?.id,
+      blueprint: resultBlueprint = blueprint,
+    } = result.data;
+    result = { ...result, data: { ...result.data, job_id, blueprint_id, blueprint: resultBlueprint } };
+    dispatch({ type: "submitSucceeded" });
+    onSubmittedRef.current(result);
+  }, [userId, test.testId, test.job_id, test.blueprint_id, blueprint]);
+
+  // Auto-submit once when time runs out; a failed attempt is retried by hand
+  const autoSubmitted = React.useRef(false);
+  React.useEffect(() => {
+    if (!state.expired || autoSubmitted.current) return;
+    autoSubmitted.current = true;
+    toast({ title: "Time is up", description: "Your answers so far are being submitted." });
+    submit();
+  }, [state.expired, submit]);
+
+  return {
+    state,
+    currentQuestion: state.questions[state.currentIndex],
+    currentSection: state.sections[sectionIndex],
+    isLastSection: sectionIndex === state.sections.length - 1,
+    isTimed: timed,
+    remaining,
+    answeredCount: answeredCount(state),
+    isComplete: isComplete(state),
+    canSubmit: canSubmit(state),
+    isAnswered: (questionIndex: number) => isAnswered(state, questionIndex),
+    isSubmitting: state.status === "submitting",
+    isSubmitted: state.status === "submitted",
+    answer,
+    next,
+    previous,
+    goTo,
+    nextSection,
+    pause,
+    resume,
+    extendTime,
+    allowPause,
+    submit,
+    offlinePreview,
+  };
+}
@@ -0,0 +1,70 @@
+import * as React from "react";
+
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "scroll", "touchstart"] as const;
+const TICK_MS = 1000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+  /** Called on every local activity event, e.g. to share activity with other tabs. */
+  onActivity?: () => void;
+}
+
+/**
+ * Tracks user activity and calls `onTimeout` after `timeoutMs` without any.
+ * `remainingMs` is set during the final `warningMs` so a warning can be shown;
+ * activity alone does not dismiss the warning, `stayActive` does.
+ */
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout, onActivity }: IdleTimeoutOptions) {
+  const [remainingMs, setRemainingMs] = React.useState<number | null>(null);
+  const lastActivity = React.useRef(Date.now());
+  const warningShown = React.useRef(false);
+  const onTimeoutRef = React.useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+  const onActivityRef = React.useRef(onActivity);
+  onActivityRef.current = onActivity;
+
+  const stayActive = React.useCallback(() => {
+    lastActivity.current = Date.now();
+    warningShown.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) {
+      warningShown.current = false;
+      setRemainingMs(null);
+      return;
+    }
+
+    lastActivity.current = Date.now();
+
+    const handleActivity = () => {
+      if (warningShown.current) return;
+      lastActivity.current = Date.now();
+      onActivityRef.current?.();
+    };
+
+    const interval = window.setInterval(() => {
+      const idleFor = Date.now() - lastActivity.current;
+      if (idleFor >= timeoutMs) {
+        warningShown.current = false;
+        setRemainingMs(null);
+        onTimeoutRef.current();
+      } else if (idleFor >= timeoutMs - warningMs) {
+        warningShown.current = true;
+        setRemainingMs(timeoutMs - idleFor);
+      }
+    }, TICK_MS);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  return { remainingMs, stayActive };
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import { NormTable, TraitResult } from "@/lib/api";
+import { listNormTables, NormScore, traitNormScores } from "@/lib/norms";
+
+/**
+ * Percentiles of trait results within one of `groups`, in order of preference.
+ * Only groups with an imported norm table are offered; the first is chosen
+ * until the user picks another. Call `reload` after importing tables.
+ */
+export function useNormComparison(groups: string[], traits: TraitResult[]) {
+  const [tables, setTables] = React.useState<NormTable[]>([]);
+  const [chosen, setChosen] = React.useState<string | null>(null);
+
+  const reload = React.useCallback(() => {
+    listNormTables().then(setTables);
+  }, []);
+  React.useEffect(reload, [reload]);
+
+  const available = groups.filter((group) => tables.some((table) => table.group === group));
+  const group = chosen !== null && available.includes(chosen) ? chosen : available[0] ?? null;
+  const table = tables.find((candidate) => candidate.group === group);
+  const norms: Record<string, NormScore> = table ? traitNormScores(table, traits) : {};
+
+  return { available, group, setGroup: setChosen, norms, reload };
+}
@@ -0,0 +1,17 @@
+import * as React from "react";
+import { DEFAULT_TAXONOMY, loadSkillTaxonomy, SkillTaxonomy } from "@/lib/skill-taxonomy";
+
+/**
+ * The skills taxonomy with imported entries. The built-in skills are used
+ * until the imports have loaded; call `reload` after importing more.
+ */
+export function useSkillTaxonomy() {
+  const [taxonomy, setTaxonomy] = React.useState<SkillTaxonomy>(DEFAULT_TAXONOMY);
+
+  const reload = React.useCallback(() => {
+    loadSkillTaxonomy().then(setTaxonomy);
+  }, []);
+  React.useEffect(reload, [reload]);
+
+  return { taxonomy, reload };
+}
@@ -0,0 +1,47 @@
+import { onSessionEnd } from './session';
+
+/**
+ * Candidate details entered in the ADOF wizard. The backend stores the CV but
+ * has no endpoint to read it back, so the wizard keeps its own copy per job to
+ * survive a reload. sessionStorage keeps it to the current tab, and it is
+ * dropped when the session ends since it is personal data.
+ */
+
+export interface CVData {
+  name: string;
+  email: string;
+  phone: string;
+  experience: string;
+  skills: string[];
+  education: string;
+  /** Not persisted; only present in the tab where the file was chosen. */
+  file?: File;
+}
+
+const KEY_PREFIX = 'adof_cv:';
+
+const keyFor = (userId: string, jobId: string) => `${KEY_PREFIX}${userId}:${jobId}`;
+
+export const saveCvData = (userId: string, jobId: string, { file: _file, ...data }: CVData) => {
+  sessionStorage.setItem(keyFor(userId, jobId), JSON.stringify(data));
+};
+
+export const loadCvData = (userId: string, jobId: string): CVData | null => {
+  const stored = sessionStorage.getItem(keyFor(userId, jobId));
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed.name === 'string' && Array.isArray(parsed.skills) ? parsed : null;
+  } catch {
+    sessionStorage.removeItem(keyFor(userId, jobId));
+    return null;
+  }
+};
+
+export const clearCvData = () => {
+  Object.keys(sessionStorage)
+    .filter((key) => key.startsWith(KEY_PREFIX))
+    .forEach((key) => sessionStorage.removeItem(key));
+};
+
+onSessionEnd(clearCvData);
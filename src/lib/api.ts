@@ -1,4 +1,26 @@
-const API_BASE_URL = 'https://projekanda.top';
+import { ApiError, request, SchemaError } from './http';
+import { SessionTokens, toSessionTokens } from './session';
+import {
+  generateTestResponseSchema,
+  getMcqsResponseSchema,
+  jobListSchema,
+  jobSchema,
+  messageResponseSchema,
+  normTableListSchema,
+  recoveryCodesResponseSchema,
+  resultListResponseSchema,
+  signinResponseSchema,
+  signinResultSchema,
+  signupResponseSchema,
+  skillListSchema,
+  submitAnswersResponseSchema,
+  submitUserDataResponseSchema,
+  testResultSchema,
+  twoFactorSetupSchema,
+  twoFactorStatusSchema,
+} from './schemas';
+
+export { ApiError, NetworkError, HttpError, SchemaError, SessionExpiredError, RequestCancelledError } from './http';
 
 export interface SignupData {
   name: string;
@@ -12,38 +34,264 @@ export interface SigninData {
   password: string;
 }
 
+/** `code` sent with the 403 from /signin when the email is not yet verified. */
+export const EMAIL_NOT_VERIFIED = 'email_not_verified';
+
+export interface ResetPasswordData {
+  token: string;
+  password: string;
+}
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: 'TVET' | 'ADOF';
+}
+
+export interface SignupResponse {
+  message?: string;
+  [key: string]: unknown;
+}
+
+export interface SigninResponse {
+  message: string;
+  user: User;
+  access_token: string;
+  refresh_token: string;
+  /** Seconds until `access_token` expires. */
+  expires_in: number;
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: SessionTokens;
+}
+
+interface TwoFactorChallengeResponse {
+  message: string;
+  two_factor_required: true;
+  /** Short-lived token that identifies the half-finished sign-in. */
+  challenge_token: string;
+}
+
+/** Sign-in either completes or stops at the second factor. */
+export type SigninResult =
+  | { status: 'authenticated'; session: AuthSession }
+  | { status: 'two_factor_required'; challengeToken: string };
+
+export interface TwoFactorVerifyData {
+  challengeToken: string;
+  /** Six-digit code from the authenticator app. */
+  code?: string;
+  /** One of the single-use recovery codes, used instead of `code`. */
+  recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  /** Base32 secret for manual entry. */
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface RecoveryCodesResponse {
+  message: string;
+  recovery_codes: string[];
+}
+
+/** How a question is answered. Tests from before question types only contain Likert items. */
+export type QuestionType = 'likert' | 'single_choice' | 'multi_select' | 'numeric' | 'text' | 'ranking' | 'image_choice';
+
+export interface QuestionOption {
+  score: number;
+  text: string;
+  /** Picture for image questions; `text` doubles as its alt text. */
+  image_url?: string;
+}
+
 export interface TestQuestion {
   question: string;
   question_no: number;
   trait: string;
-  options: {
-    score: number;
-    text: string;
-  }[];
-}
-
-export interface GenerateTestResponse {
-  mcqs_id?: string;
-  document_id?: string;
-  documentId?: string;
-  id?: string;
-  _id?: string;
+  /** Defaults to `likert` when the server leaves it out. */
+  type?: QuestionType;
+  /** Empty for numeric and text questions. */
+  options: QuestionOption[];
+  /** Illustration shown with the question stem. */
+  image_url?: string;
+  /** Numeric questions: accepted range and the unit shown next to the input. */
+  min?: number;
+  max?: number;
+  unit?: string;
+  /** Text questions: longest accepted answer. */
+  max_length?: number;
+  /** Multi-select questions: how many options must and may be chosen. */
+  min_selections?: number;
+  max_selections?: number;
+  /** `id` of the `TestSection` the question belongs to. */
+  section?: string;
+  /**
+   * Likert items sharing a `pair` id ask the same thing, so their answers
+   * should agree; one may be worded the other way round (`reverse_keyed`).
+   * Options are always listed in scale order, from disagree to agree.
+   */
+  pair?: string;
+  /** Likert items worded against the trait: option scores count in reverse, 5 as 1 on a 1-5 scale. */
+  reverse_keyed?: boolean;
+  /** How much the item's points count towards its trait; 1 when missing. */
+  weight?: number;
+}
+
+export interface TestSection {
+  id: string;
+  title: string;
+  /** Untimed when missing. */
+  time_limit_seconds?: number;
+}
+
+/** Accessibility accommodations granted to the test taker by an officer. */
+export interface TestAccommodations {
+  /** Added to every time limit, e.g. 25 for a quarter more time. */
+  extra_time_percent?: number;
+  pause_allowed?: boolean;
+}
+
+/**
+ * Optional timing for a test. Sections run in order and lock once left; their
+ * questions must be listed together and in section order.
+ */
+export interface TestTimeLimits {
+  time_limit_seconds?: number;
+  sections?: TestSection[];
+  accommodations?: TestAccommodations;
+}
+
+/** What a generated test is made of; officers pick one before an ADOF assessment. */
+export interface TestBlueprint {
+  id: string;
+  name: string;
+  /** Personality traits to measure; empty to take them from the job's ideal profile. */
+  traits: string[];
+  /** Likert items per trait. */
+  items_per_trait: number;
+  /** `likert` adds the personality items; the other types choose the knowledge check items. */
+  question_types: QuestionType[];
+}
+
+/** The job an ADOF test is generated for. */
+export interface TestJobContext {
+  id: string;
+  title: string;
+  requirements: string[];
+  skills: string[];
+  /** Traits in the job's ideal profile. */
+  ideal_traits: string[];
+}
+
+/** What the CV says about the candidate, to tailor the test. */
+export interface TestCandidateContext {
+  experience: string;
+  education: string;
+  skills: string[];
+}
+
+/** Left out for TVET tests, which are the same for everyone. */
+export interface GenerateTestOptions {
+  job?: TestJobContext;
+  candidate?: TestCandidateContext;
+  blueprint?: TestBlueprint;
+}
+
+/** The job and blueprint a test was generated for, when it was generated for one. */
+export interface TestOrigin {
+  job_id?: string;
+  blueprint_id?: string;
+}
+
+export interface GenerateTestResponse extends TestTimeLimits, TestOrigin {
+  /** Canonical test id, normalized from whichever id field the server sent. */
+  testId: string;
   message: string;
   questions: TestQuestion[];
   trait?: string;
 }
 
-export interface GetMcqsResponse {
-  mcqs_id?: string;
-  document_id?: string;
+export interface GetMcqsResponse extends TestTimeLimits, TestOrigin {
+  testId?: string;
   questions: TestQuestion[];
   message?: string;
 }
 
+/**
+ * One serialized answer: the option text for Likert, single-choice and image
+ * questions, option texts for multi-select (as chosen) and ranking (in ranked
+ * order), the number for numeric questions and the trimmed text for free text.
+ */
+export type SubmittedAnswer = string | number | string[];
+
+/** Numeric result for one trait. */
+export interface TraitResult {
+  trait: string;
+  score: number;
+  max_score: number;
+  /** `score` as a percentage of `max_score`. */
+  percentage: number;
+  /** The same label as in `analysis`, e.g. "Strength". */
+  band: string;
+}
+
+export type ValidityCheckId = 'straight_lining' | 'alternating_pattern' | 'inconsistent_pairs' | 'fast_completion';
+
+export interface ValidityCheck {
+  id: ValidityCheckId;
+  /** 0 for no sign of the problem, up to 1 for a clear case. */
+  severity: number;
+  flagged: boolean;
+  /** Plain-language finding, e.g. "18 of 20 scale answers are identical". */
+  detail: string;
+}
+
+/** How far a result reflects genuine responding, from careless-responding checks. */
+export interface ResultValidity {
+  /** 0-100, higher is more trustworthy. */
+  index: number;
+  band: 'acceptable' | 'questionable' | 'invalid';
+  checks: ValidityCheck[];
+}
+
+/** How one question was handled while the test was taken. */
+export interface QuestionTelemetry {
+  question_no: number;
+  /** Milliseconds the question was on screen, over all visits. */
+  time_ms: number;
+  /** Times the answer was changed after first being given. */
+  answer_changes: number;
+  visits: number;
+  answered: boolean;
+}
+
+/** Sent with the answers so reviewers can spot careless responding. */
+export interface TestTelemetry {
+  questions: QuestionTelemetry[];
+  /** `question_no` of each question shown, in order. */
+  navigation: number[];
+}
+
 export interface SubmitAnswersData {
   user_id: string;
   mcq_id: string;
-  answers: Record<string, string>;
+  /** Keyed by `question_no`. */
+  answers: Record<string, SubmittedAnswer>;
+  /** Set when time ran out before every question was answered. */
+  partial?: boolean;
+  /** `question_no` of each question left out of a partial submission. */
+  unanswered?: number[];
+  telemetry?: TestTelemetry;
 }
 
 export interface SubmitAnswersResponse {
@@ -55,7 +303,16 @@ export interface SubmitAnswersResponse {
     result_id: string;
     total_score: number;
     user_id: string;
-  };
+    /** The answers were submitted automatically when time ran out. */
+    partial?: boolean;
+    /** As submitted with the answers. */
+    telemetry?: TestTelemetry;
+    validity?: ResultValidity;
+    /** Older results only have the labels in `analysis`. */
+    trait_scores?: TraitResult[];
+    /** The blueprint an ADOF test was generated from, when the server keeps it. */
+    blueprint?: TestBlueprint;
+  } & TestOrigin;
   message: string;
 }
 
@@ -68,10 +325,61 @@ export interface TestResult {
     result_id: string;
     total_score: number;
     user_id: string;
-  };
+    /** The answers were submitted automatically when time ran out. */
+    partial?: boolean;
+    /** As submitted with the answers. */
+    telemetry?: TestTelemetry;
+    validity?: ResultValidity;
+    /** Older results only have the labels in `analysis`. */
+    trait_scores?: TraitResult[];
+    /** The blueprint an ADOF test was generated from, when the server keeps it. */
+    blueprint?: TestBlueprint;
+  } & TestOrigin;
   message: string;
 }
 
+/** One entry of a learner's result history; the full result comes from `getResultById`. */
+export interface ResultSummary {
+  result_id: string;
+  mcq_id: string;
+  /** ISO 8601 time of submission. */
+  created_at: string;
+  test_title?: string;
+  percentage: number;
+  total_score: number;
+  max_score: number;
+  analysis: Record<string, string>;
+  partial?: boolean;
+  trait_scores?: TraitResult[];
+}
+
+/** Highest qualification, in ascending order of `EDUCATION_LEVELS`. */
+export type EducationLevel = 'none' | 'certificate' | 'diploma' | 'bachelor' | 'master' | 'doctorate';
+
+/** Relative importance of each part of the job-fit score; they need not add up to 100. */
+export interface JobFitWeights {
+  skills: number;
+  experience: number;
+  education: number;
+  assessment: number;
+}
+
+/** How candidates are scored for a job; anything left out falls back to the defaults. */
+export interface JobFitSettings {
+  weights?: Partial<JobFitWeights>;
+  /** Years of experience that earn the full experience score. */
+  min_experience_years?: number;
+  /** Lowest qualification that earns the full education score. */
+  education_level?: EducationLevel;
+}
+
+/** The range of a trait's percentage (0-100) wanted for a job. */
+export interface TraitTarget {
+  trait: string;
+  min: number;
+  max: number;
+}
+
 export interface Job {
   id: string;
   title: string;
@@ -83,248 +391,254 @@ export interface Job {
   requirements: string[];
   skills: string[];
   category?: string;
+  fit?: JobFitSettings;
+  /** Trait results wanted for the role; without one the overall test score counts. */
+  ideal_profile?: TraitTarget[];
+}
+
+/** Mean and standard deviation of a trait percentage (0-100) in a norm group. */
+export interface TraitNorm {
+  trait: string;
+  mean: number;
+  sd: number;
+  /** Size of the norm sample, when known. */
+  n?: number;
+}
+
+/** Groups are `all`, `tvet` or `job:<job id>`. */
+export interface NormTable {
+  group: string;
+  traits: TraitNorm[];
+  /** ISO timestamp of the import, set by the server. */
+  imported_at: string;
+}
+
+export type NormTableImport = Omit<NormTable, 'imported_at'>;
+
+/** A skill in the shared taxonomy, beyond the built-in ones. */
+export interface SkillEntry {
+  /** Canonical name, shown wherever the skill is displayed. */
+  name: string;
+  /** Other spellings and abbreviations, matched case-insensitively. */
+  synonyms: string[];
+  /** Canonical name of the broader skill. */
+  parent?: string;
 }
 
 export const api = {
-  async signup(data: SignupData) {
-    const response = await fetch(`${API_BASE_URL}/signup`, {
+  async signup(data: SignupData): Promise<SignupResponse> {
+    return request<SignupResponse>('/signup', signupResponseSchema, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
+      body: data,
+      errorMessage: 'Signup failed',
+      auth: false,
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(error || 'Signup failed');
+  async signin(data: SigninData): Promise<SigninResult> {
+    let response: SigninResponse | TwoFactorChallengeResponse;
+    try {
+      response = await request<SigninResponse | TwoFactorChallengeResponse>('/signin', signinResultSchema, {
+        method: 'POST',
+        body: data,
+        errorMessage: 'Signin failed',
+        auth: false,
+      });
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        throw new ApiError('Sign-in did not return a valid user session. Please try again or contact support.', '/signin');
+      }
+      throw error;
+    }
+    if ('two_factor_required' in response) {
+      return { status: 'two_factor_required', challengeToken: response.challenge_token };
     }
+    return { status: 'authenticated', session: { user: response.user, tokens: toSessionTokens(response) } };
+  },
+
+  async verifyTwoFactor({ challengeToken, code, recoveryCode }: TwoFactorVerifyData): Promise<AuthSession> {
+    const response = await request<SigninResponse>('/2fa/verify', signinResponseSchema, {
+      method: 'POST',
+      body: { challenge_token: challengeToken, code, recovery_code: recoveryCode },
+      errorMessage: 'Verification failed',
+      auth: false,
+    });
+    return { user: response.user, tokens: toSessionTokens(response) };
+  },
 
-    return response.json();
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return request<TwoFactorStatus>('/2fa/status', twoFactorStatusSchema, {
+      errorMessage: 'Failed to load two-factor settings',
+    });
   },
 
-  async signin(data: SigninData) {
-    const response = await fetch(`${API_BASE_URL}/signin`, {
+  /** Starts enrollment; the secret stays inactive until `enableTwoFactor` confirms a code. */
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    return request<TwoFactorSetup>('/2fa/setup', twoFactorSetupSchema, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
+      errorMessage: 'Failed to start two-factor setup',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(error || 'Signin failed');
-    }
+  async enableTwoFactor(code: string): Promise<RecoveryCodesResponse> {
+    return request<RecoveryCodesResponse>('/2fa/enable', recoveryCodesResponseSchema, {
+      method: 'POST',
+      body: { code },
+      errorMessage: 'Failed to enable two-factor authentication',
+    });
+  },
 
-    return response.json();
+  /** `code` may be an authenticator code or an unused recovery code. */
+  async disableTwoFactor(code: string): Promise<{ message: string }> {
+    return request<{ message: string }>('/2fa/disable', messageResponseSchema, {
+      method: 'POST',
+      body: { code },
+      errorMessage: 'Failed to disable two-factor authentication',
+    });
   },
 
-  async generateTest(userId: string): Promise<GenerateTestResponse> {
-    console.log('Generating test for user:', userId);
-    
-    const response = await fetch(`${API_BASE_URL}/generate_test`, {
+  async regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+    return request<RecoveryCodesResponse>('/2fa/recovery_codes', recoveryCodesResponseSchema, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ user_id: userId }),
+      body: { code },
+      errorMessage: 'Failed to regenerate recovery codes',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(error || 'Test generation failed');
-    }
+  async signout(refreshToken: string): Promise<void> {
+    await request<{ message: string }>('/signout', messageResponseSchema, {
+      method: 'POST',
+      body: { refresh_token: refreshToken },
+      errorMessage: 'Sign out failed',
+      auth: false,
+    });
+  },
 
-    const result = await response.json();
-    console.log('Generate test API response:', result);
-    return result;
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
+    return request<{ message: string }>('/forgot_password', messageResponseSchema, {
+      method: 'POST',
+      body: { email },
+      errorMessage: 'Could not send the password reset email',
+      auth: false,
+    });
   },
 
-  async getMcqs(userId: string): Promise<GetMcqsResponse> {
-    console.log('Getting MCQs for user:', userId);
-    
-    const response = await fetch(`${API_BASE_URL}/get_mcqs/${userId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  async resetPassword(data: ResetPasswordData): Promise<{ message: string }> {
+    return request<{ message: string }>('/reset_password', messageResponseSchema, {
+      method: 'POST',
+      body: data,
+      errorMessage: 'Password reset failed',
+      auth: false,
     });
+  },
 
-    const responseText = await response.text();
-    
-    console.log('=== GET MCQS DEBUG ===');
-    console.log('URL:', `${API_BASE_URL}/get_mcqs/${userId}`);
-    console.log('Status:', response.status);
-    console.log('Response:', responseText);
-    console.log('=====================');
-
-    if (!response.ok) {
-      let errorMessage = 'Failed to get MCQs';
-      try {
-        const errorData = JSON.parse(responseText);
-        errorMessage = errorData.error || errorData.message || errorMessage;
-      } catch {
-        errorMessage = responseText || errorMessage;
-      }
-      throw new Error(errorMessage);
-    }
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    return request<{ message: string }>('/verify_email', messageResponseSchema, {
+      method: 'POST',
+      body: { token },
+      errorMessage: 'Email verification failed',
+      auth: false,
+    });
+  },
 
-    try {
-      const result = JSON.parse(responseText);
-      console.log('Get MCQs API response:', result);
-      return result;
-    } catch (error) {
-      console.error('Failed to parse MCQs response:', responseText);
-      throw new Error('Invalid response format from server');
-    }
+  async resendVerificationEmail(email: string): Promise<{ message: string }> {
+    return request<{ message: string }>('/resend_verification', messageResponseSchema, {
+      method: 'POST',
+      body: { email },
+      errorMessage: 'Could not resend the verification email',
+      auth: false,
+    });
   },
 
-  async submitAnswers(data: SubmitAnswersData): Promise<SubmitAnswersResponse> {
-    const url = `${API_BASE_URL}/submit_answers`;
-    const requestBody = JSON.stringify(data);
-    
-    console.log('=== API SUBMIT DEBUG ===');
-    console.log('URL:', url);
-    console.log('Method: POST');
-    console.log('Headers:', { 'Content-Type': 'application/json' });
-    console.log('Request data object:', data);
-    console.log('Request body string:', requestBody);
-    console.log('Request body length:', requestBody.length);
-    console.log('========================');
-    
-    const response = await fetch(url, {
+  async generateTest(userId: string, options: GenerateTestOptions = {}): Promise<GenerateTestResponse> {
+    return request<GenerateTestResponse>('/generate_test', generateTestResponseSchema, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: requestBody,
+      body: { user_id: userId, ...options },
+      errorMessage: 'Test generation failed',
     });
+  },
 
-    // Read the response body once
-    const responseText = await response.text();
-    
-    console.log('=== API RESPONSE DEBUG ===');
-    console.log('Status:', response.status);
-    console.log('Status Text:', response.statusText);
-    console.log('Headers:', Object.fromEntries(response.headers.entries()));
-    console.log('Response body:', responseText);
-    console.log('Response length:', responseText.length);
-    console.log('==========================');
-    
-    if (!response.ok) {
-      let errorMessage = 'Answer submission failed';
-      try {
-        const errorData = JSON.parse(responseText);
-        errorMessage = errorData.error || errorData.message || errorMessage;
-      } catch {
-        errorMessage = responseText || errorMessage;
-      }
-      console.error('API Error Response:', responseText);
-      throw new Error(errorMessage);
-    }
+  async getMcqs(userId: string): Promise<GetMcqsResponse> {
+    return request<GetMcqsResponse>(`/get_mcqs/${encodeURIComponent(userId)}`, getMcqsResponseSchema, {
+      errorMessage: 'Failed to get MCQs',
+    });
+  },
 
-    try {
-      return JSON.parse(responseText);
-    } catch (error) {
-      console.error('Failed to parse response:', responseText);
-      throw new Error('Invalid response format from server');
-    }
+  async submitAnswers(data: SubmitAnswersData): Promise<SubmitAnswersResponse> {
+    return request<SubmitAnswersResponse>('/submit_answers', submitAnswersResponseSchema, {
+      method: 'POST',
+      body: data,
+      errorMessage: 'Answer submission failed',
+    });
   },
 
   async getJobs(): Promise<Job[]> {
-    console.log('Making request to:', `${API_BASE_URL}/jobs`);
-    try {
-      const response = await fetch(`${API_BASE_URL}/jobs`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      console.log('Response status:', response.status, response.statusText);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`Failed to fetch jobs: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log('Received jobs data:', data);
-      
-      if (!Array.isArray(data)) {
-        console.error('Invalid response format: Expected array but got', typeof data);
-        throw new Error('Invalid response format: Expected an array of jobs');
-      }
-      
-      return data;
-    } catch (error) {
-      console.error('Error in getJobs:', {
-        name: error.name,
-        message: error.message,
-        stack: error.stack,
-      });
-      throw error;
-    }
+    return request<Job[]>('/jobs', jobListSchema, {
+      errorMessage: 'Failed to fetch jobs',
+    });
   },
 
-  async submitUserData(data: FormData): Promise<{ success: boolean; message: string }> {
-    console.log('Submitting user data to:', `${API_BASE_URL}/submit-user-data`);
-    try {
-      const response = await fetch(`${API_BASE_URL}/submit-user-data`, {
-        method: 'POST',
-        body: data, // Send as FormData to handle file upload
-      });
+  /** Officers only; an empty profile removes it. Returns the updated job. */
+  async updateIdealProfile(jobId: string, profile: TraitTarget[]): Promise<Job> {
+    return request<Job>(`/jobs/${encodeURIComponent(jobId)}/ideal_profile`, jobSchema, {
+      method: 'POST',
+      body: { ideal_profile: profile },
+      errorMessage: 'Failed to save the job profile',
+    });
+  },
 
-      console.log('Submit user data response status:', response.status, response.statusText);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Submit user data error response:', errorText);
-        throw new Error(`Failed to submit data: ${response.status} ${response.statusText}`);
-      }
+  async getNormTables(): Promise<NormTable[]> {
+    return request<NormTable[]>('/norm_tables', normTableListSchema, {
+      errorMessage: 'Failed to fetch norm tables',
+    });
+  },
 
-      const result = await response.json();
-      console.log('Submit user data success:', result);
-      return result;
-    } catch (error) {
-      console.error('Error in submitUserData:', {
-        name: error.name,
-        message: error.message,
-        stack: error.stack,
-      });
-      throw error;
-    }
+  /** Officers only; replaces the tables of the same groups. Returns every table. */
+  async importNormTables(tables: NormTableImport[]): Promise<NormTable[]> {
+    return request<NormTable[]>('/norm_tables', normTableListSchema, {
+      method: 'POST',
+      body: { tables },
+      errorMessage: 'Failed to save the norm tables',
+    });
   },
 
-  async getResultById(resultId: string): Promise<TestResult> {
-    const response = await fetch(`${API_BASE_URL}/get_result_by_id?result_id=${resultId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  /** Skills imported into the taxonomy; the built-in ones are not included. */
+  async getSkills(): Promise<SkillEntry[]> {
+    return request<SkillEntry[]>('/skills', skillListSchema, {
+      errorMessage: 'Failed to fetch the skills taxonomy',
     });
+  },
 
-    const responseText = await response.text();
+  /** Officers only; replaces earlier imports of the same names. Returns every import. */
+  async importSkills(skills: SkillEntry[]): Promise<SkillEntry[]> {
+    return request<SkillEntry[]>('/skills', skillListSchema, {
+      method: 'POST',
+      body: { skills },
+      errorMessage: 'Failed to save the skills',
+    });
+  },
 
-    if (!response.ok) {
-      let errorMessage = 'Failed to fetch result';
-      try {
-        const errorData = JSON.parse(responseText);
-        errorMessage = errorData.error || errorData.message || errorMessage;
-      } catch {
-        errorMessage = responseText || errorMessage;
-      }
-      console.error('API Error Response:', responseText);
-      throw new Error(errorMessage);
-    }
+  async submitUserData(data: FormData): Promise<{ success: boolean; message: string }> {
+    return request<{ success: boolean; message: string }>('/submit-user-data', submitUserDataResponseSchema, {
+      method: 'POST',
+      body: data, // Send as FormData to handle file upload
+      errorMessage: 'Failed to submit data',
+    });
+  },
 
-    try {
-      return JSON.parse(responseText);
-    } catch (error) {
-      console.error('Failed to parse response:', responseText);
-      throw new Error('Invalid response format from server');
-    }
+  /** The user's results, newest first. */
+  async listResults(userId: string): Promise<ResultSummary[]> {
+    const response = await request<{ data: ResultSummary[]; message: string }>('/get_results', resultListResponseSchema, {
+      query: { user_id: userId },
+      errorMessage: 'Failed to fetch results',
+    });
+    return response.data;
+  },
+
+  async getResultById(resultId: string): Promise<TestResult> {
+    return request<TestResult>('/get_result_by_id', testResultSchema, {
+      query: { result_id: resultId },
+      errorMessage: 'Failed to fetch result',
+    });
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,351 @@
+import { TestQuestion, TestTimeLimits } from '../api';
+import { AnswerValue, isAnswerComplete, sanitizeAnswer } from './question-types';
+import { AssessmentTelemetry, createTelemetry, recordAnswer, recordTime, recordVisit } from './telemetry';
+
+/**
+ * Test-taking state machine shared by the TVET and ADOF flows. Pure: the
+ * `useAssessment` hook wires it to React, drafts, timers and the API.
+ *
+ *   in_progress --submitStarted--> submitting --submitSucceeded--> submitted
+ *        ^                              |
+ *        +---------submitFailed---------+
+ *
+ * Time only advances through `tick` actions, which also add to the time on the
+ * current question for the telemetry, and through restoring a draft: the clock
+ * of a timed test keeps running while the test is closed, so the wall-clock
+ * time since the draft's clock was last counted is charged on resume, unless
+ * the test was paused under a `pause_allowed` accommodation. Sections run in order and cannot
+ * be revisited, so a section is only left once it is complete, or when its
+ * time runs out. When the overall limit or the last section runs out the test
+ * is `expired`: the answers freeze and it may be submitted incomplete.
+ * Unanswered questions therefore always mean time ran out.
+ */
+
+export type AssessmentStatus = 'in_progress' | 'submitting' | 'submitted';
+
+export interface AssessmentSection {
+  id: string;
+  title: string;
+  /** Question indexes covered, `start` inclusive and `end` exclusive. */
+  start: number;
+  end: number;
+  /** Including any percentage accommodation; undefined when untimed. */
+  timeLimitMs?: number;
+}
+
+/** Clock bookkeeping, saved with drafts so a reload does not restart it. */
+export interface AssessmentTiming {
+  /** Unpaused time spent on the whole test. */
+  elapsedMs: number;
+  /** Unpaused time spent in each section, by section index. */
+  sectionElapsedMs: number[];
+  /** Extra time granted during the test, added to the overall limit and to each section's. */
+  extensionMs: number;
+  paused: boolean;
+  pauseAllowed: boolean;
+  /** Epoch milliseconds up to which the elapsed times are counted. */
+  countedUntil?: number;
+}
+
+export interface AssessmentState {
+  questions: TestQuestion[];
+  /** Always at least one; a test without sections is a single untimed section. */
+  sections: AssessmentSection[];
+  /** Overall limit including any percentage accommodation; undefined when untimed. */
+  timeLimitMs?: number;
+  /** Answer by question index, in the form described in `question-types`. */
+  answers: Record<number, AnswerValue>;
+  currentIndex: number;
+  status: AssessmentStatus;
+  /** Message from the last failed submission, cleared on the next attempt. */
+  error: string | null;
+  timing: AssessmentTiming;
+  /** Time has run out for the whole test. */
+  expired: boolean;
+  /** Index of the last section whose time ran out, for announcing the move on. */
+  timedOutSection: number | null;
+  telemetry: AssessmentTelemetry;
+}
+
+export type AssessmentAction =
+  /** `value` undefined clears the answer. */
+  | { type: 'answer'; questionIndex: number; value: AnswerValue | undefined }
+  | { type: 'goTo'; index: number }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'nextSection' }
+  /** `at` is the wall-clock time the elapsed time runs up to; 0 ms restarts the clock. */
+  | { type: 'tick'; elapsedMs: number; at: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'extendTime'; ms: number }
+  | { type: 'allowPause'; allowed: boolean }
+  | { type: 'submitStarted' }
+  | { type: 'submitSucceeded' }
+  | { type: 'submitFailed'; error: string };
+
+export interface SavedAssessment {
+  answers: Record<number, AnswerValue>;
+  currentQuestionIndex: number;
+  timing?: AssessmentTiming;
+  telemetry?: AssessmentTelemetry;
+}
+
+const clampIndex = (questions: TestQuestion[], index: number) =>
+  Math.min(Math.max(0, index), Math.max(0, questions.length - 1));
+
+// Consecutive questions with the same `section` form one section, titled and
+// timed from the matching `TestSection`.
+const buildSections = (questions: TestQuestion[], limits: TestTimeLimits, timeFactor: number): AssessmentSection[] => {
+  const sections: AssessmentSection[] = [];
+  questions.forEach((question, index) => {
+    const id = question.section ?? '';
+    const last = sections[sections.length - 1];
+    if (last && last.id === id) {
+      last.end = index + 1;
+      return;
+    }
+    const meta = limits.sections?.find((section) => section.id === id);
+    sections.push({
+      id,
+      title: meta?.title ?? '',
+      start: index,
+      end: index + 1,
+      timeLimitMs: meta?.time_limit_seconds ? meta.time_limit_seconds * 1000 * timeFactor : undefined,
+    });
+  });
+  return sections.length > 0 ? sections : [{ id: '', title: '', start: 0, end: 0 }];
+};
+
+export const currentSectionIndex = (state: AssessmentState) =>
+  Math.max(0, state.sections.findIndex((section) => state.currentIndex >= section.start && state.currentIndex < section.end));
+
+export const isTimed = (state: AssessmentState) =>
+  state.timeLimitMs !== undefined || state.sections.some((section) => section.timeLimitMs !== undefined);
+
+/** Milliseconds left overall and in the current section; null where there is no limit. */
+export const remainingTime = (state: AssessmentState) => {
+  const sectionIndex = currentSectionIndex(state);
+  const section = state.sections[sectionIndex];
+  const { elapsedMs, sectionElapsedMs, extensionMs } = state.timing;
+  return {
+    overallMs:
+      state.timeLimitMs === undefined ? null : Math.max(0, state.timeLimitMs + extensionMs - elapsedMs),
+    sectionMs:
+      section.timeLimitMs === undefined
+        ? null
+        : Math.max(0, section.timeLimitMs + extensionMs - (sectionElapsedMs[sectionIndex] ?? 0)),
+  };
+};
+
+// Expires the test, or moves past a section whose time has run out.
+const applyTimeLimits = (state: AssessmentState): AssessmentState => {
+  const { overallMs, sectionMs } = remainingTime(state);
+  if (overallMs === 0) return { ...state, expired: true, timing: { ...state.timing, paused: false } };
+  if (sectionMs !== 0) return state;
+
+  const sectionIndex = currentSectionIndex(state);
+  const next = state.sections[sectionIndex + 1];
+  if (!next) return { ...state, expired: true, timing: { ...state.timing, paused: false } };
+  return { ...state, currentIndex: next.start, timedOutSection: sectionIndex };
+};
+
+// Adds time to the whole test and to the current section.
+const countTime = (state: AssessmentState, ms: number): AssessmentState => {
+  const sectionIndex = currentSectionIndex(state);
+  const sectionElapsedMs = [...state.timing.sectionElapsedMs];
+  sectionElapsedMs[sectionIndex] = (sectionElapsedMs[sectionIndex] ?? 0) + ms;
+  return { ...state, timing: { ...state.timing, elapsedMs: state.timing.elapsedMs + ms, sectionElapsedMs } };
+};
+
+// Charges time that passed with the test closed, moving on through sections
+// whose time ran out meanwhile just as if the test had stayed open.
+const countTimeAway = (state: AssessmentState, ms: number): AssessmentState => {
+  let current = state;
+  let left = ms;
+  while (left > 0 && isEditable(current)) {
+    const { overallMs, sectionMs } = remainingTime(current);
+    const step = Math.min(left, overallMs ?? Infinity, sectionMs ?? Infinity);
+    if (step <= 0) break;
+    current = applyTimeLimits(countTime(current, step));
+    left -= step;
+  }
+  return current;
+};
+
+/**
+ * Builds the initial state, keeping only saved answers that still fit the
+ * questions. A saved clock that was running is brought up to `now`.
+ */
+export const createAssessmentState = (
+  test: TestTimeLimits & { questions: TestQuestion[] },
+  saved?: SavedAssessment | null,
+  now = Date.now(),
+): AssessmentState => {
+  const { questions } = test;
+  const timeFactor = 1 + (test.accommodations?.extra_time_percent ?? 0) / 100;
+  const sections = buildSections(questions, test, timeFactor);
+
+  const answers: Record<number, AnswerValue> = {};
+  Object.entries(saved?.answers ?? {}).forEach(([questionIndex, value]) => {
+    const question = questions[Number(questionIndex)];
+    const answer = question && sanitizeAnswer(question, value);
+    if (answer !== undefined) answers[Number(questionIndex)] = answer;
+  });
+
+  const savedTiming = saved?.timing;
+  const timing: AssessmentTiming =
+    savedTiming && savedTiming.sectionElapsedMs?.length === sections.length
+      ? savedTiming
+      : {
+          elapsedMs: 0,
+          sectionElapsedMs: sections.map(() => 0),
+          extensionMs: 0,
+          paused: false,
+          pauseAllowed: !!test.accommodations?.pause_allowed,
+        };
+
+  const currentIndex = clampIndex(questions, saved?.currentQuestionIndex ?? 0);
+  const savedTelemetry = saved?.telemetry;
+  const telemetry =
+    savedTelemetry && savedTelemetry.timeMs?.length === questions.length
+      ? savedTelemetry
+      : createTelemetry(
+          questions.length,
+          currentIndex,
+          !!questions[currentIndex] && isAnswerComplete(questions[currentIndex], answers[currentIndex]),
+        );
+
+  const state = applyTimeLimits({
+    questions,
+    sections,
+    timeLimitMs: test.time_limit_seconds ? test.time_limit_seconds * 1000 * timeFactor : undefined,
+    answers,
+    currentIndex,
+    status: 'in_progress',
+    error: null,
+    timing,
+    expired: false,
+    timedOutSection: null,
+    telemetry,
+  });
+  if (!isTimed(state)) return state;
+  const away = timing.countedUntil !== undefined && !timing.paused ? Math.max(0, now - timing.countedUntil) : 0;
+  const caughtUp = countTimeAway(state, away);
+  return { ...caughtUp, timing: { ...caughtUp.timing, countedUntil: now } };
+};
+
+export const isAnswered = (state: AssessmentState, questionIndex: number) => {
+  const question = state.questions[questionIndex];
+  return !!question && isAnswerComplete(question, state.answers[questionIndex]);
+};
+
+export const answeredCount = (state: AssessmentState) =>
+  state.questions.filter((_, index) => isAnswered(state, index)).length;
+
+export const isComplete = (state: AssessmentState) =>
+  state.questions.length > 0 && answeredCount(state) === state.questions.length;
+
+const isSectionComplete = (state: AssessmentState, sectionIndex: number) => {
+  const { start, end } = state.sections[sectionIndex];
+  return state.questions.slice(start, end).every((_, offset) => isAnswered(state, start + offset));
+};
+
+/** Submission is allowed once time is up, or the last section is complete. */
+export const canSubmit = (state: AssessmentState) => {
+  if (state.status !== 'in_progress' || state.questions.length === 0) return false;
+  if (state.expired) return true;
+  const sectionIndex = currentSectionIndex(state);
+  return sectionIndex === state.sections.length - 1 && isSectionComplete(state, sectionIndex);
+};
+
+/** Answers and navigation are accepted. */
+export const isEditable = (state: AssessmentState) =>
+  state.status === 'in_progress' && !state.expired && !state.timing.paused;
+
+// Navigation stays within the current section.
+const moveTo = (state: AssessmentState, index: number): AssessmentState => {
+  const section = state.sections[currentSectionIndex(state)];
+  return { ...state, currentIndex: Math.min(Math.max(section.start, index), section.end - 1) };
+};
+
+const reduce = (state: AssessmentState, action: AssessmentAction): AssessmentState => {
+  switch (action.type) {
+    case 'answer': {
+      const question = state.questions[action.questionIndex];
+      if (!isEditable(state) || !question) return state;
+      const before = state.answers[action.questionIndex];
+      if (action.value === undefined) {
+        const { [action.questionIndex]: _cleared, ...answers } = state.answers;
+        return { ...state, answers, telemetry: recordAnswer(state.telemetry, question, action.questionIndex, before, undefined) };
+      }
+      // Values of the wrong shape for the question type are ignored.
+      const value = sanitizeAnswer(question, action.value);
+      if (value === undefined) return state;
+      return {
+        ...state,
+        answers: { ...state.answers, [action.questionIndex]: value },
+        telemetry: recordAnswer(state.telemetry, question, action.questionIndex, before, value),
+      };
+    }
+    case 'goTo':
+      return isEditable(state) ? moveTo(state, action.index) : state;
+    case 'next':
+      return isEditable(state) ? moveTo(state, state.currentIndex + 1) : state;
+    case 'previous':
+      return isEditable(state) ? moveTo(state, state.currentIndex - 1) : state;
+    case 'nextSection': {
+      const sectionIndex = currentSectionIndex(state);
+      const next = state.sections[sectionIndex + 1];
+      if (!isEditable(state) || !next || !isSectionComplete(state, sectionIndex)) return state;
+      return { ...state, currentIndex: next.start };
+    }
+    case 'tick': {
+      if (!isEditable(state) || action.elapsedMs < 0) return state;
+      const telemetry =
+        action.elapsedMs > 0 ? recordTime(state.telemetry, state.currentIndex, action.elapsedMs) : state.telemetry;
+      if (!isTimed(state)) return { ...state, telemetry };
+      const counted = countTime({ ...state, telemetry }, action.elapsedMs);
+      return applyTimeLimits({ ...counted, timing: { ...counted.timing, countedUntil: action.at } });
+    }
+    case 'pause':
+      if (!isEditable(state) || !state.timing.pauseAllowed || !isTimed(state)) return state;
+      return { ...state, timing: { ...state.timing, paused: true } };
+    case 'resume':
+      if (!state.timing.paused) return state;
+      return { ...state, timing: { ...state.timing, paused: false } };
+    case 'extendTime':
+      if (state.status !== 'in_progress' || state.expired || action.ms <= 0) return state;
+      return { ...state, timing: { ...state.timing, extensionMs: state.timing.extensionMs + action.ms } };
+    case 'allowPause':
+      return {
+        ...state,
+        timing: {
+          ...state.timing,
+          pauseAllowed: action.allowed,
+          paused: action.allowed && state.timing.paused,
+        },
+      };
+    case 'submitStarted':
+      if (!canSubmit(state)) return state;
+      return { ...state, status: 'submitting', error: null, timing: { ...state.timing, paused: false } };
+    case 'submitSucceeded':
+      if (state.status !== 'submitting') return state;
+      return { ...state, status: 'submitted' };
+    case 'submitFailed':
+      if (state.status !== 'submitting') return state;
+      return { ...state, status: 'in_progress', error: action.error };
+    default:
+      return state;
+  }
+};
+
+// Every move to another question, including a timed-out section's, is a visit.
+export const assessmentReducer = (state: AssessmentState, action: AssessmentAction): AssessmentState => {
+  const next = reduce(state, action);
+  if (next.currentIndex === state.currentIndex) return next;
+  return {
+    ...next,
+    telemetry: recordVisit(next.telemetry, next.currentIndex, isAnswered(next, next.currentIndex)),
+  };
+};
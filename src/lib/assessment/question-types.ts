@@ -0,0 +1,100 @@
+import { QuestionType, SubmittedAnswer, TestQuestion } from '../api';
+
+/**
+ * Per-type answer rules for the assessment engine. While a test is in
+ * progress an answer is kept in the form its input produces:
+ *
+ *   likert, single_choice, image_choice  selected option index
+ *   multi_select                         selected option indexes, in option order
+ *   ranking                              every option index, in ranked order
+ *   numeric, text                        the raw input string
+ *
+ * and only turned into a `SubmittedAnswer` on submission.
+ */
+
+export type AnswerValue = number | number[] | string;
+
+export const DEFAULT_TEXT_MAX_LENGTH = 500;
+
+export const questionType = (question: TestQuestion): QuestionType => question.type ?? 'likert';
+
+const isOptionIndex = (question: TestQuestion, value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < question.options.length;
+
+const selectionLimits = (question: TestQuestion) => ({
+  min: Math.max(1, question.min_selections ?? 1),
+  max: Math.min(question.options.length, question.max_selections ?? question.options.length),
+});
+
+/** The number typed for a numeric question, or null if it is not a number within range. */
+export const parseNumericAnswer = (question: TestQuestion, raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) return null;
+  if (question.min !== undefined && value < question.min) return null;
+  if (question.max !== undefined && value > question.max) return null;
+  return value;
+};
+
+/**
+ * Keeps `value` only if it has the right shape for the question, so answers
+ * restored from a draft cannot point at options that no longer exist.
+ */
+export const sanitizeAnswer = (question: TestQuestion, value: unknown): AnswerValue | undefined => {
+  switch (questionType(question)) {
+    case 'likert':
+    case 'single_choice':
+    case 'image_choice':
+      return isOptionIndex(question, value) ? value : undefined;
+    case 'multi_select': {
+      if (!Array.isArray(value) || !value.every((index) => isOptionIndex(question, index))) return undefined;
+      const unique = Array.from(new Set(value as number[])).sort((a, b) => a - b);
+      return unique.length <= selectionLimits(question).max ? unique : undefined;
+    }
+    case 'ranking': {
+      if (!Array.isArray(value) || value.length !== question.options.length) return undefined;
+      return value.every((index) => isOptionIndex(question, index)) && new Set(value).size === value.length
+        ? (value as number[])
+        : undefined;
+    }
+    case 'numeric':
+    case 'text':
+      return typeof value === 'string' ? value : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/** Whether `value` is a submittable answer, e.g. enough options chosen or a number in range. */
+export const isAnswerComplete = (question: TestQuestion, value: AnswerValue | undefined): boolean => {
+  if (value === undefined) return false;
+  switch (questionType(question)) {
+    case 'multi_select': {
+      const { min, max } = selectionLimits(question);
+      return Array.isArray(value) && value.length >= min && value.length <= max;
+    }
+    case 'numeric':
+      return typeof value === 'string' && parseNumericAnswer(question, value) !== null;
+    case 'text': {
+      const maxLength = question.max_length ?? DEFAULT_TEXT_MAX_LENGTH;
+      return typeof value === 'string' && value.trim() !== '' && value.trim().length <= maxLength;
+    }
+    default:
+      return sanitizeAnswer(question, value) !== undefined;
+  }
+};
+
+/** Converts a complete answer to its wire format; see `SubmittedAnswer`. */
+export const serializeAnswer = (question: TestQuestion, value: AnswerValue): SubmittedAnswer => {
+  switch (questionType(question)) {
+    case 'multi_select':
+    case 'ranking':
+      return (value as number[]).map((index) => question.options[index].text);
+    case 'numeric':
+      return parseNumericAnswer(question, value as string);
+    case 'text':
+      return (value as string).trim();
+    default:
+      return question.options[value as number].text;
+  }
+};
@@ -0,0 +1,194 @@
+import { TestQuestion } from '../api';
+import { questionType } from './question-types';
+
+/**
+ * Trait scoring from submitted answers (see `buildSubmission`), shared by the
+ * mock backend, the offline preview of a result and the cross-check of the
+ * server's `analysis`. Reverse-keyed Likert items count their option scores
+ * the other way round and every item's points are multiplied by its `weight`.
+ * A trait's normalized score is its share of the available points; from
+ * `STRENGTH_THRESHOLD` up it is a strength.
+ */
+
+/** Key for answers that option scores cannot grade. Only the server has it. */
+export interface AnswerKey {
+  /** Numeric questions: the correct value and how far off an answer may be. */
+  value?: number;
+  tolerance?: number;
+  /** Text questions: accepted answers, compared case- and whitespace-insensitively. */
+  accepted?: string[];
+}
+
+export type KeyedQuestion = TestQuestion & { answer_key?: AnswerKey };
+
+export type TraitBand = 'Strength' | 'Weakness';
+
+export interface TraitScore {
+  trait: string;
+  /** Weighted points scored and available. */
+  raw: number;
+  max: number;
+  /** `raw` as a percentage of `max`. */
+  normalized: number;
+  band: TraitBand;
+}
+
+export interface ScoredTest {
+  traits: TraitScore[];
+  total_score: number;
+  max_score: number;
+  percentage: number;
+  /** Band by trait, as in the server's `analysis`. */
+  analysis: Record<string, TraitBand>;
+}
+
+/** 70% of the maximum is a 3.5 mean on a 1-5 Likert scale. */
+export const STRENGTH_THRESHOLD = 0.7;
+
+export class InvalidAnswerError extends Error {
+  constructor(readonly questionNo: number) {
+    super(`Invalid or missing answer for question ${questionNo}`);
+    this.name = 'InvalidAnswerError';
+  }
+}
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isTextList = (answer: unknown): answer is string[] =>
+  Array.isArray(answer) && answer.every((item) => typeof item === 'string');
+
+const weightOf = (question: TestQuestion) => question.weight ?? 1;
+
+/** Numeric and text questions can only be marked with their answer key. */
+export const isGradable = (question: KeyedQuestion) => {
+  switch (questionType(question)) {
+    case 'numeric':
+      return question.answer_key?.value !== undefined;
+    case 'text':
+      return !!question.answer_key?.accepted;
+    default:
+      return true;
+  }
+};
+
+// Unweighted maximum.
+const maxPointsFor = (question: KeyedQuestion) => {
+  if (!isGradable(question)) return 0;
+  switch (questionType(question)) {
+    case 'multi_select':
+      return question.options.reduce((sum, option) => sum + Math.max(0, option.score), 0);
+    case 'ranking':
+      return question.options.length;
+    case 'numeric':
+    case 'text':
+      return 1;
+    default:
+      return Math.max(...question.options.map((o) => o.score));
+  }
+};
+
+export const maxScoreFor = (question: KeyedQuestion) => maxPointsFor(question) * weightOf(question);
+
+// Unweighted points; throws when the answer does not fit the question.
+const pointsFor = (question: KeyedQuestion, answer: unknown): number => {
+  const invalid = () => new InvalidAnswerError(question.question_no);
+  const optionFor = (text: unknown) => question.options.find((o) => o.text === text);
+
+  switch (questionType(question)) {
+    case 'multi_select': {
+      if (!isTextList(answer) || answer.length === 0 || new Set(answer).size !== answer.length) throw invalid();
+      const picked = answer.map(optionFor);
+      if (picked.some((option) => !option)) throw invalid();
+      if (question.max_selections !== undefined && picked.length > question.max_selections) throw invalid();
+      return Math.max(0, picked.reduce((sum, option) => sum + option.score, 0));
+    }
+    case 'ranking': {
+      if (!isTextList(answer) || answer.length !== question.options.length || new Set(answer).size !== answer.length) {
+        throw invalid();
+      }
+      if (answer.some((text) => !optionFor(text))) throw invalid();
+      const expected = [...question.options].sort((a, b) => b.score - a.score).map((option) => option.text);
+      return answer.filter((text, position) => expected[position] === text).length;
+    }
+    case 'numeric': {
+      if (typeof answer !== 'number' || !Number.isFinite(answer)) throw invalid();
+      if ((question.min !== undefined && answer < question.min) || (question.max !== undefined && answer > question.max)) {
+        throw invalid();
+      }
+      const key = question.answer_key;
+      if (key?.value === undefined) return 0;
+      return Math.abs(answer - key.value) <= (key.tolerance ?? 0) ? 1 : 0;
+    }
+    case 'text': {
+      if (typeof answer !== 'string' || answer.trim() === '') throw invalid();
+      const accepted = question.answer_key?.accepted;
+      if (!accepted) return 0;
+      return accepted.map(normalizeText).includes(normalizeText(answer)) ? 1 : 0;
+    }
+    case 'likert': {
+      const option = optionFor(answer);
+      if (!option) throw invalid();
+      if (!question.reverse_keyed) return option.score;
+      const scores = question.options.map((o) => o.score);
+      return Math.min(...scores) + Math.max(...scores) - option.score;
+    }
+    default: {
+      const option = optionFor(answer);
+      if (!option) throw invalid();
+      return option.score;
+    }
+  }
+};
+
+/** Weighted score for one answer; throws `InvalidAnswerError` when it does not fit the question. */
+export const scoreAnswer = (question: KeyedQuestion, answer: unknown) => pointsFor(question, answer) * weightOf(question);
+
+/**
+ * Scores a submission. A `partial` one (time ran out) may leave questions
+ * out; they score zero. Ungradable questions count towards nothing.
+ */
+export const scoreTest = (
+  questions: KeyedQuestion[],
+  answers: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {},
+): ScoredTest => {
+  const totals = new Map<string, { raw: number; max: number }>();
+
+  questions.forEach((question) => {
+    const answer = answers[String(question.question_no)];
+    const max = maxScoreFor(question);
+    const score = answer === undefined && partial ? 0 : scoreAnswer(question, answer);
+    if (max === 0) return;
+    const trait = totals.get(question.trait) ?? { raw: 0, max: 0 };
+    totals.set(question.trait, { raw: trait.raw + score, max: trait.max + max });
+  });
+
+  const traits = [...totals.entries()].map(([trait, { raw, max }]): TraitScore => ({
+    trait,
+    raw,
+    max,
+    normalized: Math.round((raw / max) * 100),
+    band: raw / max >= STRENGTH_THRESHOLD ? 'Strength' : 'Weakness',
+  }));
+  const totalScore = traits.reduce((sum, trait) => sum + trait.raw, 0);
+  const maxScore = traits.reduce((sum, trait) => sum + trait.max, 0);
+
+  return {
+    traits,
+    total_score: totalScore,
+    max_score: maxScore,
+    percentage: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+    analysis: Object.fromEntries(traits.map((trait) => [trait.trait, trait.band])),
+  };
+};
+
+/**
+ * Traits whose band in the server's `analysis` differs from the local scoring.
+ * Traits with questions only the server can mark are skipped.
+ */
+export const crossCheckAnalysis = (questions: TestQuestion[], local: ScoredTest, analysis: Record<string, string>) => {
+  const ungradable = new Set(questions.filter((question) => !isGradable(question)).map((question) => question.trait));
+  return local.traits
+    .filter(({ trait, band }) => !ungradable.has(trait) && trait in analysis && analysis[trait] !== band)
+    .map(({ trait }) => trait);
+};
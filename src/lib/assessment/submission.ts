@@ -0,0 +1,46 @@
+import { SubmitAnswersData, SubmittedAnswer, TestQuestion, TestTelemetry } from '../api';
+import { AnswerValue, isAnswerComplete, serializeAnswer } from './question-types';
+
+/**
+ * Serializes answers for `submitAnswers`, keyed by each question's
+ * `question_no`. Values come from the test's own options and question types,
+ * never from a fixed Likert scale. A `partial` submission (time ran out)
+ * leaves unanswered questions out and lists them instead of failing.
+ * Telemetry, when given, is sent as is.
+ */
+export const buildSubmission = (
+  userId: string,
+  testId: string,
+  questions: TestQuestion[],
+  answers: Record<number, AnswerValue>,
+  { partial = false, telemetry }: { partial?: boolean; telemetry?: TestTelemetry } = {},
+): SubmitAnswersData => {
+  if (!userId) {
+    throw new Error('User ID is required. Please log in again.');
+  }
+  if (!testId) {
+    throw new Error('Test ID is missing. Please generate a new test.');
+  }
+
+  const serialized: Record<string, SubmittedAnswer> = {};
+  const unanswered: number[] = [];
+
+  questions.forEach((question, index) => {
+    const value = answers[index];
+    if (isAnswerComplete(question, value)) {
+      serialized[String(question.question_no)] = serializeAnswer(question, value);
+    } else if (partial) {
+      unanswered.push(question.question_no);
+    } else {
+      throw new Error(`Question ${index + 1} has not been answered.`);
+    }
+  });
+
+  return {
+    user_id: userId,
+    mcq_id: testId,
+    answers: serialized,
+    ...(partial && { partial: true, unanswered }),
+    ...(telemetry && { telemetry }),
+  };
+};
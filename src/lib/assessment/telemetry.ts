@@ -0,0 +1,109 @@
+import { QuestionTelemetry, TestQuestion, TestTelemetry } from '../api';
+import { AnswerValue, isAnswerComplete, questionType } from './question-types';
+
+/**
+ * Per-question interaction record kept by the assessment engine: time on
+ * screen, answer changes and the order questions were shown in. Sent with the
+ * answers as a `TestTelemetry` and summarized for reviewers, since very fast,
+ * uniform responding suggests the items were not read.
+ */
+
+export interface AssessmentTelemetry {
+  /** Milliseconds on screen, by question index. */
+  timeMs: number[];
+  /** Changed answers, by question index; see `recordAnswer`. */
+  answerChanges: number[];
+  /** Question indexes in the order they were shown, starting with the first. */
+  navigation: number[];
+  /** The question on screen: answered when it was shown, and changed since. */
+  visit: { answeredAtStart: boolean; changed: boolean };
+}
+
+/** An answered question shown for less than this was too fast to have been read. */
+export const RAPID_RESPONSE_MS = 2000;
+
+// A click replaces the whole answer; other types are edited step by step.
+const SINGLE_PICK_TYPES = ['likert', 'single_choice', 'image_choice'];
+
+export const createTelemetry = (questionCount: number, startIndex: number, answeredAtStart: boolean): AssessmentTelemetry => ({
+  timeMs: Array(questionCount).fill(0),
+  answerChanges: Array(questionCount).fill(0),
+  navigation: [startIndex],
+  visit: { answeredAtStart, changed: false },
+});
+
+export const recordTime = (telemetry: AssessmentTelemetry, questionIndex: number, ms: number): AssessmentTelemetry => {
+  const timeMs = [...telemetry.timeMs];
+  timeMs[questionIndex] = (timeMs[questionIndex] ?? 0) + ms;
+  return { ...telemetry, timeMs };
+};
+
+export const recordVisit = (telemetry: AssessmentTelemetry, questionIndex: number, answeredAtStart: boolean): AssessmentTelemetry => ({
+  ...telemetry,
+  navigation: [...telemetry.navigation, questionIndex],
+  visit: { answeredAtStart, changed: false },
+});
+
+/**
+ * Counts a changed answer. Picking another option counts every time. Typed,
+ * multi-select and ranking answers count once per visit, and only when the
+ * question was already answered on arrival, so giving them the first time
+ * does not.
+ */
+export const recordAnswer = (
+  telemetry: AssessmentTelemetry,
+  question: TestQuestion,
+  questionIndex: number,
+  before: AnswerValue | undefined,
+  after: AnswerValue | undefined,
+): AssessmentTelemetry => {
+  if (!isAnswerComplete(question, before) || JSON.stringify(before) === JSON.stringify(after)) return telemetry;
+
+  const singlePick = SINGLE_PICK_TYPES.includes(questionType(question));
+  if (!singlePick && (!telemetry.visit.answeredAtStart || telemetry.visit.changed)) return telemetry;
+
+  const answerChanges = [...telemetry.answerChanges];
+  answerChanges[questionIndex] = (answerChanges[questionIndex] ?? 0) + 1;
+  return { ...telemetry, answerChanges, visit: singlePick ? telemetry.visit : { ...telemetry.visit, changed: true } };
+};
+
+/** The submitted form, by `question_no`. */
+export const buildTelemetry = (
+  questions: TestQuestion[],
+  answers: Record<number, AnswerValue>,
+  telemetry: AssessmentTelemetry,
+): TestTelemetry => ({
+  questions: questions.map((question, index) => ({
+    question_no: question.question_no,
+    time_ms: Math.round(telemetry.timeMs[index] ?? 0),
+    answer_changes: telemetry.answerChanges[index] ?? 0,
+    visits: telemetry.navigation.filter((shown) => shown === index).length,
+    answered: isAnswerComplete(question, answers[index]),
+  })),
+  navigation: telemetry.navigation.map((index) => questions[index].question_no),
+});
+
+export interface ResponseQuality {
+  /** Over answered questions; null when none were. */
+  medianTimeMs: number | null;
+  /** Answered questions shown for less than `RAPID_RESPONSE_MS`. */
+  rapid: QuestionTelemetry[];
+  answered: number;
+  answerChanges: number;
+  /** Questions shown more than once. */
+  revisited: number;
+}
+
+export const summarizeResponseQuality = (telemetry: TestTelemetry): ResponseQuality => {
+  const answered = telemetry.questions.filter((question) => question.answered);
+  const times = answered.map((question) => question.time_ms).sort((a, b) => a - b);
+  const middle = Math.floor(times.length / 2);
+
+  return {
+    medianTimeMs: times.length === 0 ? null : times.length % 2 ? times[middle] : (times[middle - 1] + times[middle]) / 2,
+    rapid: answered.filter((question) => question.time_ms < RAPID_RESPONSE_MS),
+    answered: answered.length,
+    answerChanges: telemetry.questions.reduce((sum, question) => sum + question.answer_changes, 0),
+    revisited: telemetry.questions.filter((question) => question.visits > 1).length,
+  };
+};
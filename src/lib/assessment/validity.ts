@@ -0,0 +1,136 @@
+import { ResultValidity, SubmittedAnswer, TestQuestion, TestTelemetry, ValidityCheck } from '../api';
+import { questionType } from './question-types';
+import { RAPID_RESPONSE_MS, summarizeResponseQuality } from './telemetry';
+
+/**
+ * Careless-responding checks on the Likert items of a submission: the same
+ * answer throughout (straight-lining), a repeating pattern, disagreeing answers
+ * to paired items and implausibly fast completion. Each check gives a severity
+ * from 0 to 1; the validity index multiplies them out, so one clear problem or
+ * several milder ones both mark the result as untrustworthy. Works on the
+ * submitted answers, so the mock backend and the client compute the same.
+ */
+
+// Fewer scale answers than this say too little about a response style.
+const MIN_SCALE_ITEMS = 5;
+const MIN_PATTERN_ITEMS = 8;
+const MIN_PAIRS = 2;
+const PATTERN_PERIODS = [2, 3, 4, 5];
+// Paired answers this far apart on a 0-1 scale disagree, e.g. two steps on a five-point scale.
+const PAIR_DISAGREEMENT = 0.5;
+// How much a check at full severity takes off the index.
+const SEVERITY_WEIGHT = 0.7;
+
+export const VALIDITY_CHECK_LABELS: Record<ValidityCheck['id'], string> = {
+  straight_lining: 'Straight-lining',
+  alternating_pattern: 'Repeating pattern',
+  inconsistent_pairs: 'Inconsistent paired answers',
+  fast_completion: 'Implausibly fast completion',
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Severity rises from `from` and is full at `to`.
+const ramp = (value: number, from: number, to: number) => clamp01((value - from) / (to - from));
+
+interface ScaleAnswer {
+  question: TestQuestion;
+  /** Index of the chosen option in scale order. */
+  position: number;
+}
+
+const scaleAnswers = (questions: TestQuestion[], answers: Record<string, SubmittedAnswer>): ScaleAnswer[] =>
+  [...questions]
+    .sort((a, b) => a.question_no - b.question_no)
+    .filter((question) => questionType(question) === 'likert' && question.options.length > 1)
+    .map((question) => ({
+      question,
+      position: question.options.findIndex((option) => option.text === answers[String(question.question_no)]),
+    }))
+    .filter(({ position }) => position >= 0);
+
+const straightLining = (scale: ScaleAnswer[]): ValidityCheck | null => {
+  if (scale.length < MIN_SCALE_ITEMS) return null;
+  const counts = new Map<number, number>();
+  scale.forEach(({ position }) => counts.set(position, (counts.get(position) ?? 0) + 1));
+  const most = Math.max(...counts.values());
+  const share = most / scale.length;
+  return {
+    id: 'straight_lining',
+    severity: ramp(share, 0.5, 0.9),
+    flagged: share >= 0.8,
+    detail: `${most} of ${scale.length} scale answers are identical.`,
+  };
+};
+
+// Share of answers that repeat the one `period` items earlier while differing from the previous one.
+const alternatingPattern = (scale: ScaleAnswer[]): ValidityCheck | null => {
+  if (scale.length < MIN_PATTERN_ITEMS) return null;
+  const positions = scale.map(({ position }) => position);
+  const [period, share] = PATTERN_PERIODS.map((p): [number, number] => {
+    let repeats = 0;
+    for (let i = p; i < positions.length; i++) {
+      if (positions[i] === positions[i - p] && positions[i] !== positions[i - 1]) repeats++;
+    }
+    return [p, repeats / (positions.length - p)];
+  }).reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best));
+  return {
+    id: 'alternating_pattern',
+    severity: ramp(share, 0.5, 0.9),
+    flagged: share >= 0.8,
+    detail: `${Math.round(share * 100)}% of the scale answers follow a pattern repeating every ${period} items.`,
+  };
+};
+
+const inconsistentPairs = (scale: ScaleAnswer[]): ValidityCheck | null => {
+  const pairs = new Map<string, number[]>();
+  scale.forEach(({ question, position }) => {
+    if (!question.pair) return;
+    // Agreement on a 0-1 scale, turned round for reverse-keyed wording
+    const agreement = position / (question.options.length - 1);
+    const keyed = question.reverse_keyed ? 1 - agreement : agreement;
+    pairs.set(question.pair, [...(pairs.get(question.pair) ?? []), keyed]);
+  });
+
+  const complete = [...pairs.values()].filter((keyed) => keyed.length > 1);
+  if (complete.length < MIN_PAIRS) return null;
+  const inconsistent = complete.filter((keyed) => Math.max(...keyed) - Math.min(...keyed) >= PAIR_DISAGREEMENT).length;
+  const rate = inconsistent / complete.length;
+  return {
+    id: 'inconsistent_pairs',
+    severity: rate,
+    flagged: rate >= 0.5,
+    detail: `${inconsistent} of ${complete.length} pairs of matching items were answered inconsistently.`,
+  };
+};
+
+const fastCompletion = (telemetry: TestTelemetry | undefined): ValidityCheck | null => {
+  if (!telemetry) return null;
+  const { medianTimeMs, rapid, answered } = summarizeResponseQuality(telemetry);
+  if (medianTimeMs === null || answered < MIN_SCALE_ITEMS) return null;
+  return {
+    id: 'fast_completion',
+    severity: ramp(2 * RAPID_RESPONSE_MS - medianTimeMs, 0, RAPID_RESPONSE_MS),
+    flagged: medianTimeMs < RAPID_RESPONSE_MS,
+    detail: `Median ${(medianTimeMs / 1000).toFixed(1)} s per item; ${rapid.length} of ${answered} answers took under ${
+      RAPID_RESPONSE_MS / 1000
+    } s.`,
+  };
+};
+
+export const assessValidity = (
+  questions: TestQuestion[],
+  answers: Record<string, SubmittedAnswer>,
+  telemetry?: TestTelemetry,
+): ResultValidity => {
+  const scale = scaleAnswers(questions, answers);
+  const checks = [straightLining(scale), alternatingPattern(scale), inconsistentPairs(scale), fastCompletion(telemetry)].filter(
+    (check): check is ValidityCheck => check !== null,
+  );
+  const index = Math.round(100 * checks.reduce((product, check) => product * (1 - SEVERITY_WEIGHT * check.severity), 1));
+  return {
+    index,
+    band: index >= 70 ? 'acceptable' : index >= 40 ? 'questionable' : 'invalid',
+    checks,
+  };
+};
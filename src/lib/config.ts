@@ -0,0 +1,131 @@
+import { z } from 'zod';
+
+export type EnvironmentName = 'local' | 'staging' | 'production';
+
+export interface AppConfig {
+  environment: EnvironmentName;
+  apiBaseUrl: string;
+  /** Path requested at startup to confirm the backend is reachable. */
+  healthCheckPath: string;
+  healthCheckTimeoutMs: number;
+  /** Serve every API call from the in-browser mock backend instead of the network. */
+  mockBackend: boolean;
+  /** Signed-in users are logged out after this many minutes without activity. */
+  idleTimeoutMinutes: number;
+  /** How long before the idle logout the warning dialog appears. */
+  idleWarningSeconds: number;
+  /** Unsubmitted test answers saved in the browser are discarded after this many hours. */
+  draftExpiryHours: number;
+  /** Remaining seconds at which a timed test warns that time is running out. */
+  timeWarningSeconds: number[];
+}
+
+const ENVIRONMENTS: EnvironmentName[] = ['local', 'staging', 'production'];
+
+// Default backend per profile. Staging has no default on purpose: it must be
+// supplied through VITE_API_BASE_URL or config.json.
+const PROFILES: Record<EnvironmentName, Pick<AppConfig, 'apiBaseUrl'>> = {
+  local: { apiBaseUrl: 'http://localhost:8000' },
+  staging: { apiBaseUrl: '' },
+  production: { apiBaseUrl: 'https://projekanda.top' },
+};
+
+const RUNTIME_CONFIG_URL = '/config.json';
+
+const runtimeConfigSchema = z.object({
+  environment: z.enum(['local', 'staging', 'production']).optional(),
+  apiBaseUrl: z.string().url().optional(),
+  healthCheckPath: z.string().optional(),
+  healthCheckTimeoutMs: z.number().positive().optional(),
+  mockBackend: z.boolean().optional(),
+  idleTimeoutMinutes: z.number().positive().optional(),
+  idleWarningSeconds: z.number().positive().optional(),
+  draftExpiryHours: z.number().positive().optional(),
+  timeWarningSeconds: z.array(z.number().positive()).optional(),
+});
+
+type RuntimeConfig = Partial<AppConfig>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// "300,60" -> [300, 60]; invalid entries are dropped.
+const parseSecondsList = (raw: string | undefined) =>
+  (raw || '')
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((seconds) => Number.isFinite(seconds) && seconds > 0);
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const isEnvironment = (value: unknown): value is EnvironmentName =>
+  typeof value === 'string' && ENVIRONMENTS.includes(value as EnvironmentName);
+
+const resolveConfig = (overrides: RuntimeConfig = {}): AppConfig => {
+  const env = import.meta.env;
+  const envName = isEnvironment(env.VITE_APP_ENV) ? env.VITE_APP_ENV : 'production';
+  const environment = overrides.environment || envName;
+  const profile = PROFILES[environment];
+  const envWarningSeconds = parseSecondsList(env.VITE_TIME_WARNING_SECONDS);
+
+  return {
+    environment,
+    apiBaseUrl: trimTrailingSlash(overrides.apiBaseUrl || env.VITE_API_BASE_URL || profile.apiBaseUrl),
+    healthCheckPath: overrides.healthCheckPath || env.VITE_HEALTH_CHECK_PATH || '/',
+    healthCheckTimeoutMs: overrides.healthCheckTimeoutMs || 8000,
+    mockBackend: overrides.mockBackend ?? env.VITE_MOCK_BACKEND === 'true',
+    idleTimeoutMinutes: overrides.idleTimeoutMinutes || Number(env.VITE_IDLE_TIMEOUT_MINUTES) || 30,
+    idleWarningSeconds: overrides.idleWarningSeconds || 60,
+    draftExpiryHours: overrides.draftExpiryHours || Number(env.VITE_DRAFT_EXPIRY_HOURS) || 72,
+    timeWarningSeconds: overrides.timeWarningSeconds || (envWarningSeconds.length > 0 ? envWarningSeconds : [300, 60]),
+  };
+};
+
+let activeConfig: AppConfig = resolveConfig();
+
+export const getConfig = (): AppConfig => activeConfig;
+
+export const isProduction = () => activeConfig.environment === 'production';
+
+const fetchRuntimeConfig = async (): Promise<RuntimeConfig> => {
+  let response: Response;
+  try {
+    response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+  } catch {
+    return {};
+  }
+
+  // No config.json deployed: build-time settings apply unchanged.
+  if (response.status === 404) return {};
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || !contentType.includes('json')) return {};
+
+  const parsed = runtimeConfigSchema.safeParse(await response.json().catch(() => null));
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid ${RUNTIME_CONFIG_URL}: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+  return parsed.data as RuntimeConfig;
+};
+
+/**
+ * Merges build-time Vite variables with the optional runtime config.json.
+ * Runtime values win so one build can be pointed at another backend.
+ */
+export const loadConfig = async (): Promise<AppConfig> => {
+  const runtime = await fetchRuntimeConfig();
+  const config = resolveConfig(runtime);
+
+  if (!config.apiBaseUrl && !config.mockBackend) {
+    throw new ConfigError(
+      `No backend URL configured for the "${config.environment}" environment. Set VITE_API_BASE_URL or apiBaseUrl in ${RUNTIME_CONFIG_URL}.`,
+    );
+  }
+
+  activeConfig = config;
+  return config;
+};
@@ -0,0 +1,103 @@
+import { getDocument, VerbosityLevel } from 'pdfjs-dist';
+import { strFromU8, unzipSync } from 'fflate';
+import { CvParseError } from './parse';
+
+/**
+ * Plain text of an uploaded CV, one line per line or paragraph of the
+ * document. Runs inside the CV parser worker, so nothing here may touch the
+ * DOM (no DOMParser, no canvas).
+ */
+
+const PDF_TYPE = 'application/pdf';
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const extension = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+const extractPdfText = async (data: ArrayBuffer) => {
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    disableFontFace: true,
+    isEvalSupported: false,
+    // Missing font data only matters for rendering, not for the text.
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+  const lines: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let line = '';
+      let lineY: number | null = null;
+      content.items.forEach((item) => {
+        if (!('str' in item)) return;
+        const { str, hasEOL, transform } = item;
+        // A new baseline starts a new line even when the PDF has no explicit break.
+        if (lineY !== null && Math.abs(transform[5] - lineY) > 2 && line.trim()) {
+          lines.push(line);
+          line = '';
+        }
+        line += str;
+        lineY = transform[5];
+        if (hasEOL) {
+          lines.push(line);
+          line = '';
+        }
+      });
+      if (line.trim()) lines.push(line);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return lines.join('\n');
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+  });
+
+// Text runs, tabs and line breaks within a paragraph.
+const DOCX_RUN = /<w:t(?: [^>]*)?>([^<]*)<\/w:t>|<w:(tab|br)(?: [^>]*)?\/>/g;
+
+// Reads word/document.xml with regular expressions, as workers have no DOMParser.
+const extractDocxText = (data: ArrayBuffer) => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(data), { filter: (file) => file.name === 'word/document.xml' });
+  } catch {
+    throw new CvParseError('The Word document could not be opened.');
+  }
+  const xml = files['word/document.xml'];
+  if (!xml) throw new CvParseError('The Word document has no text.');
+
+  const paragraphs = strFromU8(xml).match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? [];
+  return paragraphs
+    .map((paragraph) =>
+      Array.from(paragraph.matchAll(DOCX_RUN), ([, text, mark]) => {
+        if (mark) return mark === 'tab' ? '\t' : '\n';
+        return decodeXml(text);
+      }).join(''),
+    )
+    .join('\n');
+};
+
+/** Text of a PDF or DOCX file; older binary .doc files are not supported. */
+export const extractCvText = async (file: Blob & { name?: string }) => {
+  const kind = file.type || '';
+  const ext = extension(file.name ?? '');
+  if (kind === PDF_TYPE || ext === 'pdf') {
+    try {
+      return await extractPdfText(await file.arrayBuffer());
+    } catch (error) {
+      console.warn('Could not read PDF text:', error);
+      throw new CvParseError('The PDF could not be read.');
+    }
+  }
+  if (kind === DOCX_TYPE || ext === 'docx') {
+    return extractDocxText(await file.arrayBuffer());
+  }
+  throw new CvParseError('Only PDF and DOCX files can be read automatically.');
+};
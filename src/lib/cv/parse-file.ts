@@ -0,0 +1,40 @@
+import type { CvParserRequest, CvParserResponse } from './parser.worker';
+import { CvParseError, ParsedCv } from './parse';
+
+export { CvParseError } from './parse';
+export type { CvField, DetectedSkill, DetectedValue, ParsedCv } from './parse';
+
+const PARSE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Reads a PDF or DOCX CV in a Web Worker, so pdf.js stays out of the main
+ * bundle and a large file does not freeze the form. Rejects with a
+ * `CvParseError` whose message can be shown to the candidate.
+ */
+export const parseCvFile = (file: File, knownSkills: string[] = []) =>
+  new Promise<ParsedCv>((resolve, reject) => {
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new CvParseError('Reading the CV took too long.'));
+    }, PARSE_TIMEOUT_MS);
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<CvParserResponse>) => {
+      finish();
+      const response = event.data;
+      if (response.ok === true) resolve(response.cv);
+      else reject(new CvParseError(response.error));
+    };
+    worker.onerror = (event) => {
+      finish();
+      console.error('CV parser worker failed:', event.message);
+      reject(new CvParseError('The CV could not be read.'));
+    };
+
+    const request: CvParserRequest = { file, knownSkills };
+    worker.postMessage(request);
+  });
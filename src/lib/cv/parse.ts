@@ -0,0 +1,200 @@
+/**
+ * Heuristics that turn CV text into candidate form fields. Every detected
+ * value carries a confidence from 0 to 1 so the form can show how far to
+ * trust it; the candidate always reviews the result before submitting.
+ */
+
+export type CvField = 'name' | 'email' | 'phone' | 'experience' | 'education';
+
+export interface DetectedValue {
+  value: string;
+  /** 0-1 */
+  confidence: number;
+}
+
+export interface DetectedSkill {
+  skill: string;
+  /** 0-1 */
+  confidence: number;
+}
+
+export interface ParsedCv {
+  fields: Partial<Record<CvField, DetectedValue>>;
+  /** Most confident first. */
+  skills: DetectedSkill[];
+}
+
+export class CvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CvParseError';
+  }
+}
+
+type Section = 'experience' | 'education' | 'skills' | 'other';
+
+/** Skills looked for in every CV, on top of the ones the job asks for. */
+export const COMMON_SKILLS = [
+  'Communication',
+  'Teamwork',
+  'Leadership',
+  'Problem Solving',
+  'Customer Service',
+  'Time Management',
+  'Project Management',
+  'Microsoft Office',
+  'Microsoft Excel',
+  'Data Entry',
+  'Health and Safety',
+  'First Aid',
+  'Welding',
+  'Electrical Installation',
+  'Plumbing',
+  'Carpentry',
+  'Bookkeeping',
+  'Sales',
+  'JavaScript',
+  'Python',
+  'SQL',
+];
+
+const MAX_SECTION_LENGTH = 2000;
+const MAX_SKILLS = 20;
+
+// Headings that end a known section without starting one.
+const OTHER_HEADINGS = [
+  'summary',
+  'profile',
+  'objective',
+  'about me',
+  'references',
+  'languages',
+  'certifications',
+  'projects',
+  'interests',
+  'hobbies',
+  'achievements',
+  'awards',
+  'personal (details|information)',
+  'contact( details)?',
+];
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ['experience', /^((work|professional|employment|relevant|career)\s+)?(experience|history)$|^employment$/],
+  ['education', /^(education(al background)?|academic (background|qualifications)|qualifications|training)$/],
+  ['skills', /^((technical|key|core|professional)\s+)?(skills|competencies|abilities)(\s+(and|&)\s+\w+)?$/],
+  ['other', new RegExp(`^(${OTHER_HEADINGS.join('|')})$`)],
+];
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const LABELLED_PHONE = /\b(?:phone|tel|telephone|mobile|cell)\b[^:\d+\n]*:?[ \t]*(\+?[\d ().-]{7,}\d)/i;
+const PHONE = /\+?\(?\d[\d ().-]{7,}\d/g;
+const NAME = /^[\p{L}'’.-]+(\s+[\p{L}'’.-]+){1,3}$/u;
+const LABELLED_NAME = /^(?:full\s+)?name\s*:\s*(.+)$/i;
+const NOT_A_NAME = /curriculum|vitae|resume|résumé|\bcv\b/i;
+
+const digitCount = (text: string) => text.replace(/\D/g, '').length;
+
+const headingOf = (line: string): Section | null => {
+  const text = line.trim().replace(/[:.]$/, '').toLowerCase();
+  if (!text || text.split(/\s+/).length > 5) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+};
+
+// Lines under each known heading, up to the next heading.
+const splitSections = (lines: string[]) => {
+  const sections = new Map<Section, string[]>();
+  let current: Section | null = null;
+  lines.forEach((line) => {
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      if (!sections.has(heading)) sections.set(heading, []);
+    } else if (current) {
+      sections.get(current).push(line);
+    }
+  });
+  return sections;
+};
+
+const sectionValue = (lines: string[] | undefined): DetectedValue | undefined => {
+  const value = (lines ?? []).join('\n').trim().slice(0, MAX_SECTION_LENGTH);
+  if (!value) return undefined;
+  return { value, confidence: value.length < 30 ? 0.5 : 0.8 };
+};
+
+const detectName = (lines: string[]): DetectedValue | undefined => {
+  for (const line of lines) {
+    const labelled = line.match(LABELLED_NAME);
+    if (labelled && NAME.test(labelled[1].trim())) return { value: labelled[1].trim(), confidence: 0.9 };
+  }
+  // Otherwise the first name-like line near the top, usually the heading of the CV.
+  const top = lines.slice(0, 5);
+  const index = top.findIndex(
+    (line) => NAME.test(line) && !NOT_A_NAME.test(line) && !headingOf(line) && !EMAIL.test(line),
+  );
+  if (index < 0) return undefined;
+  return { value: top[index], confidence: index === 0 ? 0.7 : 0.5 };
+};
+
+const detectPhone = (text: string): DetectedValue | undefined => {
+  const labelled = text.match(LABELLED_PHONE);
+  if (labelled && digitCount(labelled[1]) >= 9) return { value: labelled[1].trim(), confidence: 0.9 };
+  // Years such as "2015 - 2019" have eight digits, so ask for nine or more.
+  const candidate = (text.match(PHONE) ?? []).find((match) => {
+    const digits = digitCount(match);
+    return digits >= 9 && digits <= 15;
+  });
+  return candidate ? { value: candidate.trim(), confidence: 0.6 } : undefined;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, skill: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(skill)}($|[^\\p{L}\\p{N}+#])`, 'iu').test(text);
+
+const detectSkills = (text: string, skillLines: string[], knownSkills: string[]): DetectedSkill[] => {
+  const skillText = skillLines.join('\n');
+  const found = new Map<string, DetectedSkill>();
+  const add = (skill: string, confidence: number) => {
+    const key = skill.toLowerCase();
+    if (!found.has(key) || found.get(key).confidence < confidence) found.set(key, { skill, confidence });
+  };
+
+  [...knownSkills, ...COMMON_SKILLS].forEach((skill) => {
+    if (mentions(skillText, skill)) add(skill, 0.9);
+    else if (mentions(text, skill)) add(skill, 0.6);
+  });
+
+  // Short items listed under a skills heading, even when they are not known skills.
+  skillText
+    .split(/[\n,;|•·●▪]+|\s+-\s+/)
+    .map((item) => item.replace(/^[\s*-]+/, '').trim())
+    .filter((item) => item.length > 1 && item.length <= 40 && item.split(/\s+/).length <= 4 && !/[.:]$/.test(item))
+    .forEach((item) => add(item, 0.5));
+
+  return [...found.values()].sort((a, b) => b.confidence - a.confidence).slice(0, MAX_SKILLS);
+};
+
+/** Form fields and skills found in CV text; `knownSkills` are usually the job's. */
+export const parseCvText = (text: string, knownSkills: string[] = []): ParsedCv => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+  const email = text.match(EMAIL);
+
+  const detected: [CvField, DetectedValue | undefined][] = [
+    ['name', detectName(lines)],
+    ['email', email ? { value: email[0], confidence: 0.95 } : undefined],
+    ['phone', detectPhone(text)],
+    ['experience', sectionValue(sections.get('experience'))],
+    ['education', sectionValue(sections.get('education'))],
+  ];
+
+  return {
+    fields: Object.fromEntries(detected.filter(([, value]) => value)),
+    skills: detectSkills(text, sections.get('skills') ?? [], knownSkills),
+  };
+};
@@ -0,0 +1,29 @@
+import { WorkerMessageHandler } from 'pdfjs-dist/build/pdf.worker.mjs';
+import { extractCvText } from './extract';
+import { CvParseError, ParsedCv, parseCvText } from './parse';
+
+export interface CvParserRequest {
+  file: File;
+  knownSkills: string[];
+}
+
+export type CvParserResponse = { ok: true; cv: ParsedCv } | { ok: false; error: string };
+
+// pdf.js parses on this thread instead of starting a worker of its own.
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = { WorkerMessageHandler };
+
+self.onmessage = async (event: MessageEvent<CvParserRequest>) => {
+  const { file, knownSkills } = event.data;
+  let response: CvParserResponse;
+  try {
+    const text = await extractCvText(file);
+    if (!text.trim()) {
+      throw new CvParseError('No text was found in the file. Scanned CVs cannot be read automatically.');
+    }
+    response = { ok: true, cv: parseCvText(text, knownSkills) };
+  } catch (error) {
+    if (!(error instanceof CvParseError)) console.error('Error parsing CV:', error);
+    response = { ok: false, error: error instanceof CvParseError ? error.message : 'The CV could not be read.' };
+  }
+  self.postMessage(response);
+};
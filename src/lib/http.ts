@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { getConfig } from './config';
+import { tokenResponseSchema } from './schemas';
+import {
+  endSession,
+  getSession,
+  getSessionSignal,
+  isAccessTokenExpired,
+  setSession,
+  SessionTokens,
+  toSessionTokens,
+} from './session';
+
+/**
+ * Base class for every failure raised by the API client. `endpoint` is the
+ * path that was requested so errors can be traced without the full URL.
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly endpoint: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** The request never produced a response (offline, DNS, CORS, aborted). */
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, readonly cause?: unknown) {
+    super('Unable to reach the server. Please check your connection and try again.', endpoint);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server answered with a non-2xx status. `code` is the machine-readable
+ * `code` field of the error body when the server sends one.
+ */
+export class HttpError extends ApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    readonly status: number,
+    readonly serverMessage?: string,
+    readonly code?: string,
+  ) {
+    super(message, endpoint);
+    this.name = 'HttpError';
+  }
+}
+
+/** The server answered 2xx but the body did not match the expected shape. */
+export class SchemaError extends ApiError {
+  constructor(endpoint: string, readonly issues: z.ZodIssue[]) {
+    super('Invalid response format from server', endpoint);
+    this.name = 'SchemaError';
+  }
+}
+
+/** The refresh token was rejected; the session has been ended. */
+export class SessionExpiredError extends ApiError {
+  constructor(endpoint: string) {
+    super('Your session has expired. Please sign in again.', endpoint);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/** The request was cancelled because the signed-in session changed. */
+export class RequestCancelledError extends ApiError {
+  constructor(endpoint: string) {
+    super('Request cancelled because your session changed.', endpoint);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST';
+  /** Plain objects are sent as JSON; FormData is sent as multipart. */
+  body?: unknown;
+  query?: Record<string, string>;
+  /** Message used when the server gives no `error`/`message` of its own. */
+  errorMessage: string;
+  /**
+   * Attach the access token, refresh it on 401 and cancel the request if the
+   * session changes before it completes. Defaults to true.
+   */
+  auth?: boolean;
+}
+
+const REFRESH_PATH = '/refresh';
+// Held while refreshing so tabs sharing the session do not spend its single-use refresh token twice.
+const REFRESH_LOCK = 'projekanda-token-refresh';
+
+// The mock backend is loaded on demand so it stays out of normal builds.
+const send = async (pathWithQuery: string, init: RequestInit): Promise<Response> => {
+  const { apiBaseUrl, mockBackend } = getConfig();
+  if (mockBackend) {
+    const { mockFetch } = await import('./mock/backend');
+    return mockFetch(pathWithQuery, init);
+  }
+  return fetch(`${apiBaseUrl}${pathWithQuery}`, init);
+};
+
+const buildInit = (method: string, body: unknown, accessToken?: string, signal?: AbortSignal): RequestInit => {
+  const isFormData = body instanceof FormData;
+  const headers: Record<string, string> = {};
+  if (!isFormData) headers['Content-Type'] = 'application/json';
+  if (accessToken) headers.Authorization = `Bearer ${accessToken}`;
+
+  return {
+    method,
+    headers,
+    body: body === undefined ? undefined : isFormData ? body : JSON.stringify(body),
+    signal,
+  };
+};
+
+const readServerError = (text: string): { message?: string; code?: string } => {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object') {
+      const message = parsed.error || parsed.message;
+      return {
+        message: typeof message === 'string' && message ? message : undefined,
+        code: typeof parsed.code === 'string' ? parsed.code : undefined,
+      };
+    }
+    return {};
+  } catch {
+    return { message: text };
+  }
+};
+
+let refreshInFlight: Promise<SessionTokens> | null = null;
+
+// `staleRefreshToken` is the one the caller saw; once another tab has replaced
+// it, the session that tab stored is used as it is.
+const performRefresh = async (staleRefreshToken?: string): Promise<SessionTokens> => {
+  const session = getSession();
+  if (!session) throw new SessionExpiredError(REFRESH_PATH);
+  if (staleRefreshToken && session.refreshToken !== staleRefreshToken && !isAccessTokenExpired(session)) {
+    return session;
+  }
+
+  let response: Response;
+  try {
+    response = await send(REFRESH_PATH, buildInit('POST', { refresh_token: session.refreshToken }));
+  } catch (error) {
+    // Being offline is not a reason to drop the session.
+    throw new NetworkError(REFRESH_PATH, error);
+  }
+
+  // Only a rejected refresh token ends the session; a failing server leaves it for a later retry.
+  if (response.status === 400 || response.status === 401) {
+    // A tab without lock support may have rotated the token meanwhile.
+    const current = getSession();
+    if (current && current.refreshToken !== session.refreshToken) return current;
+    endSession('expired');
+    throw new SessionExpiredError(REFRESH_PATH);
+  }
+  if (!response.ok) {
+    const { message: serverMessage, code } = readServerError(await response.text().catch(() => ''));
+    console.error(`API POST ${REFRESH_PATH} failed with ${response.status}:`, serverMessage);
+    throw new HttpError(
+      serverMessage || 'Could not renew your session. Please try again.',
+      REFRESH_PATH,
+      response.status,
+      serverMessage,
+      code,
+    );
+  }
+
+  const parsed = tokenResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!parsed.success) {
+    console.error(`API POST ${REFRESH_PATH} response failed validation:`, parsed.error.issues);
+    throw new SchemaError(REFRESH_PATH, parsed.error.issues);
+  }
+
+  const tokens = toSessionTokens(parsed.data as { access_token: string; refresh_token: string; expires_in: number });
+  setSession(tokens);
+  return tokens;
+};
+
+/**
+ * Exchanges the refresh token for a new access token. Concurrent callers share
+ * one refresh request, and other tabs wait for it through the Web Locks API
+ * where the browser has it. A rejected refresh token (400 or 401) ends the
+ * session; server errors and malformed responses are thrown and keep it.
+ */
+export const refreshAccessToken = (): Promise<SessionTokens> => {
+  if (!refreshInFlight) {
+    const staleRefreshToken = getSession()?.refreshToken;
+    const run = () => performRefresh(staleRefreshToken);
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    refreshInFlight = (locks ? locks.request(REFRESH_LOCK, run) : run()).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * Performs a request against the backend and validates the JSON body with
+ * `schema`. `T` is the interface the schema mirrors; it is passed explicitly
+ * because `z.infer` is not reliable with `strictNullChecks` disabled.
+ */
+export async function request<T>(
+  path: string,
+  schema: z.ZodTypeAny,
+  { method = 'GET', body, query, errorMessage, auth = true }: RequestOptions,
+): Promise<T> {
+  const search = query ? `?${new URLSearchParams(query).toString()}` : '';
+
+  const signal = auth ? getSessionSignal() : undefined;
+
+  const attempt = async (accessToken?: string) => {
+    try {
+      return await send(`${path}${search}`, buildInit(method, body, accessToken, signal));
+    } catch (error) {
+      if (signal?.aborted) throw new RequestCancelledError(path);
+      throw new NetworkError(path, error);
+    }
+  };
+
+  let session = auth ? getSession() : null;
+  if (session && isAccessTokenExpired(session)) {
+    session = await refreshAccessToken();
+  }
+
+  let response = await attempt(session?.accessToken);
+
+  if (response.status === 401 && session) {
+    session = await refreshAccessToken();
+    response = await attempt(session.accessToken);
+  }
+
+  // A response that arrives after the session changed belongs to the old user.
+  if (signal?.aborted) throw new RequestCancelledError(path);
+
+  const text = await response.text();
+
+  if (!response.ok) {
+    const { message: serverMessage, code } = readServerError(text);
+    console.error(`API ${method} ${path} failed with ${response.status}:`, text);
+    throw new HttpError(serverMessage || errorMessage, path, response.status, serverMessage, code);
+  }
+
+  let json: unknown;
+  try {
+    json = text ? JSON.parse(text) : {};
+  } catch {
+    console.error(`API ${method} ${path} returned non-JSON body:`, text);
+    throw new SchemaError(path, []);
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    console.error(`API ${method} ${path} response failed validation:`, parsed.error.issues, json);
+    throw new SchemaError(path, parsed.error.issues);
+  }
+  return parsed.data as T;
+}
+
+export interface HealthStatus {
+  reachable: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Checks that the configured backend answers at all. Any HTTP response below
+ * 500 counts as reachable; the health path does not need to exist.
+ */
+export async function pingBackend(): Promise<HealthStatus> {
+  const { apiBaseUrl, healthCheckPath, healthCheckTimeoutMs, mockBackend } = getConfig();
+  if (mockBackend) return { reachable: true };
+
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), healthCheckTimeoutMs);
+
+  try {
+    const response = await fetch(`${apiBaseUrl}${healthCheckPath}`, { signal: controller.signal });
+    if (response.status >= 500) {
+      return { reachable: false, status: response.status, error: `Server responded with ${response.status}` };
+    }
+    return { reachable: true, status: response.status };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'AbortError';
+    return {
+      reachable: false,
+      error: timedOut ? `No response within ${healthCheckTimeoutMs / 1000}s` : 'Network request failed',
+    };
+  } finally {
+    window.clearTimeout(timer);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal promise wrapper around IndexedDB: one database holding one
+ * object store, used as a key-value table of JSON-compatible records.
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  values(): Promise<T[]>;
+  clear(): Promise<void>;
+}
+
+const promisify = <R>(request: IDBRequest<R>) =>
+  new Promise<R>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function createStore<T>(dbName: string, storeName: string): KeyValueStore<T> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      const open = indexedDB.open(dbName, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+      dbPromise = promisify(open);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await getDb();
+    return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: (key) => withStore('readonly', (store) => store.get(key)),
+    set: async (key, value) => {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    delete: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+    values: () => withStore('readonly', (store) => store.getAll()),
+    clear: async () => {
+      await withStore('readwrite', (store) => store.clear());
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import { EducationLevel, Job, JobFitWeights, TestResult } from './api';
+import { SkillMatch } from './skill-taxonomy';
+import { TraitGap, traitGaps } from './trait-profile';
+
+/**
+ * Job-fit score: how well a candidate suits a job, from 0 to 100. It weighs
+ * four parts, each scored 0-100: the skills match, years of experience and
+ * highest qualification read from the CV, and the assessment, judged against
+ * the job's ideal trait profile or, without one, by the overall test score.
+ * Jobs set their own weights, experience and qualification; anything they
+ * leave out uses the defaults below.
+ */
+
+export type FitComponentId = keyof JobFitWeights;
+
+export interface FitComponent {
+  id: FitComponentId;
+  label: string;
+  /** 0-100 */
+  score: number;
+  /** Share of the overall score, 0-1. */
+  share: number;
+  /** Points this part adds to the overall score. */
+  contribution: number;
+  /** Why the part scored as it did. */
+  explanation: string;
+}
+
+export interface JobFit {
+  /** 0-100 */
+  score: number;
+  components: FitComponent[];
+}
+
+type FitJob = Pick<Job, 'skills' | 'fit' | 'ideal_profile'>;
+type FitResult = Pick<TestResult['data'], 'percentage' | 'trait_scores'>;
+
+interface FitCandidate {
+  experience: string;
+  education: string;
+}
+
+export const DEFAULT_FIT_WEIGHTS: JobFitWeights = { skills: 30, experience: 20, education: 15, assessment: 35 };
+
+export const FIT_COMPONENT_LABELS: Record<FitComponentId, string> = {
+  skills: 'Skills',
+  experience: 'Experience',
+  education: 'Education',
+  assessment: 'Assessment',
+};
+
+export const EDUCATION_LEVELS: EducationLevel[] = ['none', 'certificate', 'diploma', 'bachelor', 'master', 'doctorate'];
+
+export const EDUCATION_LABELS: Record<EducationLevel, string> = {
+  none: 'No formal qualification',
+  certificate: 'Certificate',
+  diploma: 'Diploma',
+  bachelor: "Bachelor's degree",
+  master: "Master's degree",
+  doctorate: 'Doctorate',
+};
+
+// Highest level first, so "BSc, then an MSc" reads as a master's.
+const EDUCATION_PATTERNS: [EducationLevel, RegExp][] = [
+  ['doctorate', /\b(ph\.?\s?d|doctorate|doctoral)\b/i],
+  ['master', /\b(masters?|master's|msc|m\.sc|mba|mphil|meng)\b/i],
+  ['bachelor', /\b(bachelors?|bachelor's|bsc|b\.sc|beng|bcom|llb|degree|undergraduate)\b/i],
+  ['diploma', /\b(diploma|higher national)\b/i],
+  ['certificate', /\b(certificate|certification|tvet|vocational|a-level|o-level|secondary school)\b/i],
+];
+
+const YEARS = /(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?)\b/gi;
+const YEAR_RANGE = /\b((?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:19|20)\d{2}|present|current|now|date)\b/gi;
+
+// Distance outside the target range that costs the whole trait score, in percentage points.
+const TRAIT_TOLERANCE = 50;
+
+/** The highest qualification mentioned, or `none`. */
+export const educationLevel = (text: string): EducationLevel =>
+  EDUCATION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'none';
+
+/**
+ * Years of experience: the larger of any stated ("5 years") and the span
+ * covered by year ranges ("2018 - 2021", "2022 - present"), overlaps counted once.
+ */
+export const experienceYears = (text: string, today = new Date()): number => {
+  const stated = [...text.matchAll(YEARS)].map((match) => Number(match[1]));
+
+  const currentYear = today.getFullYear();
+  const ranges = [...text.matchAll(YEAR_RANGE)]
+    .map((match) => {
+      const start = Number(match[1]);
+      const end = /^\d+$/.test(match[2]) ? Number(match[2]) : currentYear;
+      return [start, Math.min(end, currentYear)];
+    })
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+  let spanned = 0;
+  let coveredTo = -Infinity;
+  ranges.forEach(([start, end]) => {
+    spanned += Math.max(0, end - Math.max(start, coveredTo));
+    coveredTo = Math.max(coveredTo, end);
+  });
+
+  return Math.max(0, spanned, ...stated);
+};
+
+/** 100 within the range, falling to 0 at `TRAIT_TOLERANCE` points outside it. */
+export const traitGapScore = ({ gap }: TraitGap) => Math.max(0, Math.round(100 - (gap / TRAIT_TOLERANCE) * 100));
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const skillsPart = (job: FitJob, match: SkillMatch) =>
+  job.skills.length > 0
+    ? {
+        score: match.percentage,
+        explanation: `Covers ${match.covered.length} of the ${plural(job.skills.length, 'job skill')}.`,
+      }
+    : { score: 100, explanation: 'The job lists no skills.' };
+
+const experiencePart = (job: FitJob, candidate: FitCandidate) => {
+  const required = job.fit?.min_experience_years ?? 0;
+  if (required <= 0) return { score: 100, explanation: 'No minimum experience required.' };
+  const years = experienceYears(candidate.experience);
+  return {
+    score: Math.min(100, Math.round((years / required) * 100)),
+    explanation: `${years > 0 ? `About ${plural(years, 'year')}` : 'No years of experience'} found in the CV; ` +
+      `${plural(required, 'year')} required.`,
+  };
+};
+
+const educationPart = (job: FitJob, candidate: FitCandidate) => {
+  const required = job.fit?.education_level ?? 'none';
+  if (required === 'none') return { score: 100, explanation: 'No minimum qualification required.' };
+  const level = educationLevel(candidate.education);
+  const rank = (value: EducationLevel) => EDUCATION_LEVELS.indexOf(value);
+  return {
+    score: Math.min(100, Math.round((rank(level) / rank(required)) * 100)),
+    explanation: `Highest qualification found: ${EDUCATION_LABELS[level]}. Required: ${EDUCATION_LABELS[required]}.`,
+  };
+};
+
+const assessmentPart = (job: FitJob, result: FitResult) => {
+  const gaps = traitGaps(job.ideal_profile ?? [], result.trait_scores ?? []);
+  if (gaps.length === 0) {
+    return {
+      score: result.percentage,
+      explanation: job.ideal_profile?.length
+        ? 'Overall test score; the test did not measure the traits in the job profile.'
+        : 'Overall test score; the job has no ideal trait profile.',
+    };
+  }
+  const within = gaps.filter((gap) => gap.status === 'within').length;
+  return {
+    score: Math.round(gaps.reduce((sum, gap) => sum + traitGapScore(gap), 0) / gaps.length),
+    explanation: `${within} of ${plural(gaps.length, 'profiled trait')} within the job's target range.`,
+  };
+};
+
+/** Weights with the job's overrides, falling back to the defaults if they add up to nothing. */
+export const fitWeights = (job: FitJob): JobFitWeights => {
+  const weights = { ...DEFAULT_FIT_WEIGHTS, ...job.fit?.weights };
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  return total > 0 ? weights : DEFAULT_FIT_WEIGHTS;
+};
+
+/** The candidate's fit for the job, with what each part contributed. */
+export const jobFit = (job: FitJob, candidate: FitCandidate, result: FitResult, skillMatch: SkillMatch): JobFit => {
+  const weights = fitWeights(job);
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const parts: Record<FitComponentId, { score: number; explanation: string }> = {
+    skills: skillsPart(job, skillMatch),
+    experience: experiencePart(job, candidate),
+    education: educationPart(job, candidate),
+    assessment: assessmentPart(job, result),
+  };
+
+  const components = (Object.keys(parts) as FitComponentId[]).map((id) => {
+    const share = weights[id] / total;
+    return {
+      id,
+      label: FIT_COMPONENT_LABELS[id],
+      score: parts[id].score,
+      share,
+      contribution: parts[id].score * share,
+      explanation: parts[id].explanation,
+    };
+  });
+  return {
+    score: Math.round(components.reduce((sum, component) => sum + component.contribution, 0)),
+    components,
+  };
+};
@@ -0,0 +1,776 @@
+import { createStore } from '../idb';
+import {
+  Job,
+  NormTable,
+  NormTableImport,
+  SkillEntry,
+  SubmittedAnswer,
+  TestQuestion,
+  QuestionType,
+  TestBlueprint,
+  TestJobContext,
+  TestResult,
+  TestTelemetry,
+  TestTimeLimits,
+  TraitTarget,
+  User,
+} from '../api';
+import { AnswerKey, InvalidAnswerError, scoreTest } from '../assessment/scoring';
+import { assessValidity } from '../assessment/validity';
+import { normTableError } from '../norms';
+import { normalizeSkillText, skillEntriesError } from '../skill-taxonomy';
+import { profileError, sameTrait } from '../trait-profile';
+import {
+  ITEM_BANK,
+  ITEMS_PER_TRAIT,
+  JOB_CATALOG,
+  KNOWLEDGE_ITEMS,
+  LIKERT_OPTIONS,
+  REVERSE_KEYED_PAIRS,
+  TEST_SECTIONS,
+  TEST_TITLE,
+} from './fixtures';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+/**
+ * In-browser stand-in for the Projekanda backend. `mockFetch` has the same
+ * signature as `fetch` and answers the routes used by `api`, persisting
+ * everything to IndexedDB so a full TVET or ADOF journey survives reloads.
+ */
+
+interface MockUser extends User {
+  passwordHash: string;
+  /** Missing on accounts created before verification existed; treated as verified. */
+  emailVerified?: boolean;
+  /** Present once enrollment starts; only enforced at sign-in when `enabled`. */
+  twoFactor?: {
+    secret: string;
+    enabled: boolean;
+    recoveryCodeHashes: string[];
+  };
+  createdAt: string;
+}
+
+type MockQuestion = TestQuestion & { answer_key?: AnswerKey };
+
+interface MockTest extends TestTimeLimits {
+  id: string;
+  user_id: string;
+  /** Missing on tests stored before titles were kept. */
+  title?: string;
+  questions: MockQuestion[];
+  created_at: string;
+  /** ADOF tests: the job and blueprint the test was generated for. */
+  job_id?: string;
+  blueprint?: TestBlueprint;
+}
+
+type MockResult = TestResult['data'] & { created_at: string };
+
+interface MockToken {
+  token: string;
+  kind: 'access' | 'refresh' | 'reset' | 'verify' | 'two_factor';
+  user_id: string;
+  expires_at: number;
+}
+
+interface MockSubmission {
+  id: string;
+  fields: Record<string, string>;
+  file?: { name: string; size: number; type: string };
+  created_at: string;
+}
+
+const users = createStore<MockUser>('projekanda-mock-users', 'users');
+const tests = createStore<MockTest>('projekanda-mock-tests', 'tests');
+const results = createStore<MockResult>('projekanda-mock-results', 'results');
+const jobs = createStore<Job>('projekanda-mock-jobs', 'jobs');
+const submissions = createStore<MockSubmission>('projekanda-mock-submissions', 'submissions');
+const tokens = createStore<MockToken>('projekanda-mock-tokens', 'tokens');
+const normTables = createStore<NormTable>('projekanda-mock-norms', 'tables');
+const skills = createStore<SkillEntry>('projekanda-mock-skills', 'skills');
+const seedVersions = createStore<number>('projekanda-mock-seed', 'versions');
+
+const LATENCY_MS = 250;
+const ACCESS_TOKEN_TTL_S = 15 * 60;
+const REFRESH_TOKEN_TTL_S = 7 * 24 * 60 * 60;
+const RESET_TOKEN_TTL_S = 60 * 60;
+const VERIFY_TOKEN_TTL_S = 24 * 60 * 60;
+const TWO_FACTOR_CHALLENGE_TTL_S = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+const TOTP_ISSUER = 'Projekanda';
+
+// Routes reachable without a bearer token, mirroring the real backend.
+const PUBLIC_ROUTES = new Set([
+  'POST /signup',
+  'POST /signin',
+  'POST /refresh',
+  'POST /signout',
+  'POST /forgot_password',
+  'POST /reset_password',
+  'POST /verify_email',
+  'POST /resend_verification',
+  'POST /2fa/verify',
+]);
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code?: string) {
+    super(message);
+  }
+}
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  /** Id of the user owning the bearer token; empty on public routes. */
+  userId: string;
+}
+
+type Handler = (req: MockRequest) => Promise<unknown>;
+
+const objectId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(12)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const now = () => new Date().toISOString();
+
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const publicUser = ({ id, name, email, role }: MockUser): User => ({ id, name, email, role });
+
+const requireFields = (body: unknown, fields: string[]) => {
+  const record = (body || {}) as Record<string, unknown>;
+  const missing = fields.filter((field) => record[field] === undefined || record[field] === '');
+  if (missing.length > 0) {
+    throw new MockHttpError(400, `Missing required fields: ${missing.join(', ')}`);
+  }
+  return record;
+};
+
+const shuffle = <T,>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+interface QuestionPlan {
+  traits: string[];
+  itemsPerTrait: number;
+  types: QuestionType[];
+}
+
+const BANK_TRAITS = Object.keys(ITEM_BANK);
+
+const STANDARD_PLAN: QuestionPlan = {
+  traits: BANK_TRAITS,
+  itemsPerTrait: ITEMS_PER_TRAIT,
+  types: ['likert', ...KNOWLEDGE_ITEMS.map((item) => item.type ?? 'likert')],
+};
+
+// The most Likert items a trait can have: every stem and the reverse-keyed rewording.
+const MAX_ITEMS_PER_TRAIT = Math.min(...Object.values(ITEM_BANK).map((stems) => stems.length + 1));
+
+// Likert personality items first, then the timed knowledge check in fixture order.
+// Each trait's reverse-keyed pair is always asked, topped up with random items.
+const buildQuestions = ({ traits, itemsPerTrait, types }: QuestionPlan = STANDARD_PLAN) => {
+  const picked = types.includes('likert')
+    ? traits.flatMap((trait) => {
+        const { forward, reverse } = REVERSE_KEYED_PAIRS[trait];
+        const others = shuffle(ITEM_BANK[trait].filter((stem) => stem !== forward)).slice(0, itemsPerTrait - 2);
+        return [
+          ...others.map((question) => ({ trait, question, options: LIKERT_OPTIONS })),
+          { trait, question: forward, options: LIKERT_OPTIONS, pair: trait },
+          { trait, question: reverse, options: LIKERT_OPTIONS, pair: trait, reverse_keyed: true },
+        ].map((item) => ({ ...item, section: TEST_SECTIONS[0].id }));
+      })
+    : [];
+  const knowledge = KNOWLEDGE_ITEMS.filter((item) => types.includes(item.type ?? 'likert')).map((item) => ({
+    ...item,
+    section: TEST_SECTIONS[1].id,
+  }));
+  const questions: MockQuestion[] = [...shuffle(picked), ...knowledge].map((item, index) => ({
+    ...item,
+    question_no: index + 1,
+  }));
+  return { questions, sections: TEST_SECTIONS.filter(({ id }) => questions.some((item) => item.section === id)) };
+};
+
+// Turns an officer's blueprint into what to ask; traits left empty come from the job's profile.
+const planFor = (blueprint: TestBlueprint, job: TestJobContext | undefined): QuestionPlan => {
+  const traits = blueprint.traits.length > 0
+    ? blueprint.traits
+    : (job?.ideal_traits ?? []).flatMap((trait) => BANK_TRAITS.filter((known) => sameTrait(known, trait)));
+  const unknown = traits.filter((trait) => !BANK_TRAITS.includes(trait));
+  if (unknown.length > 0) {
+    throw new MockHttpError(400, `No items for trait${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+  }
+  if (blueprint.question_types.length === 0) {
+    throw new MockHttpError(400, 'The blueprint needs at least one question type');
+  }
+  if (blueprint.question_types.includes('likert')) {
+    if (traits.length === 0) {
+      throw new MockHttpError(400, "The job's ideal profile has no traits the item bank covers");
+    }
+    const items = blueprint.items_per_trait;
+    if (!Number.isInteger(items) || items < 2 || items > MAX_ITEMS_PER_TRAIT) {
+      throw new MockHttpError(400, `items_per_trait must be a whole number from 2 to ${MAX_ITEMS_PER_TRAIT}`);
+    }
+  }
+  return { traits, itemsPerTrait: blueprint.items_per_trait, types: blueprint.question_types };
+};
+
+// Answer keys stay on the server.
+const publicQuestions = (questions: MockQuestion[]): TestQuestion[] =>
+  questions.map(({ answer_key, ...question }) => question);
+
+// Invalid answers are the client's fault.
+const scoreSubmission = (questions: MockQuestion[], answers: Record<string, unknown>, partial: boolean) => {
+  try {
+    const { traits, ...scored } = scoreTest(questions, answers, { partial });
+    return {
+      ...scored,
+      trait_scores: traits.map(({ trait, raw, max, normalized, band }) => ({
+        trait,
+        score: raw,
+        max_score: max,
+        percentage: normalized,
+        band,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof InvalidAnswerError) throw new MockHttpError(400, error.message);
+    throw error;
+  }
+};
+
+const issueTokens = async (userId: string) => {
+  const access: MockToken = {
+    token: objectId() + objectId(),
+    kind: 'access',
+    user_id: userId,
+    expires_at: Date.now() + ACCESS_TOKEN_TTL_S * 1000,
+  };
+  const refresh: MockToken = {
+    token: objectId() + objectId(),
+    kind: 'refresh',
+    user_id: userId,
+    expires_at: Date.now() + REFRESH_TOKEN_TTL_S * 1000,
+  };
+  await Promise.all([tokens.set(access.token, access), tokens.set(refresh.token, refresh)]);
+  return { access_token: access.token, refresh_token: refresh.token, expires_in: ACCESS_TOKEN_TTL_S };
+};
+
+const findToken = async (token: string | undefined, kind: MockToken['kind']) => {
+  const record = token ? await tokens.get(token) : undefined;
+  if (!record || record.kind !== kind || record.expires_at <= Date.now()) return undefined;
+  return record;
+};
+
+const currentUser = async (userId: string) => {
+  const user = await users.get(userId);
+  if (!user) {
+    throw new MockHttpError(401, 'User not found');
+  }
+  return user;
+};
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const generateRecoveryCodes = async () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = objectId().slice(0, 10);
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => hashPassword(normalizeRecoveryCode(code))));
+  return { codes, hashes };
+};
+
+/**
+ * Checks an authenticator code, or failing that a recovery code. A matching
+ * recovery code is used up; the returned user must be saved by the caller.
+ */
+const checkSecondFactor = async (user: MockUser, code: string | undefined, recoveryCode?: string) => {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled) return undefined;
+  if (code && (await verifyTotp(twoFactor.secret, code.trim()))) return user;
+
+  const candidate = recoveryCode || code;
+  if (!candidate) return undefined;
+  const hash = await hashPassword(normalizeRecoveryCode(candidate));
+  if (!twoFactor.recoveryCodeHashes.includes(hash)) return undefined;
+  return {
+    ...user,
+    twoFactor: { ...twoFactor, recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter((stored) => stored !== hash) },
+  };
+};
+
+const findUserByEmail = async (email: string) =>
+  (await users.values()).find((user) => user.email.toLowerCase() === email.toLowerCase());
+
+// There is no mail server offline, so "sent" emails are logged for the developer.
+const sendEmailLink = async (user: MockUser, kind: 'reset' | 'verify') => {
+  const record: MockToken = {
+    token: objectId() + objectId(),
+    kind,
+    user_id: user.id,
+    expires_at: Date.now() + (kind === 'reset' ? RESET_TOKEN_TTL_S : VERIFY_TOKEN_TTL_S) * 1000,
+  };
+  await tokens.set(record.token, record);
+  const path = kind === 'reset' ? '/reset-password' : '/verify-email';
+  console.info(`[mock email to ${user.email}] ${window.location.origin}${path}?token=${record.token}`);
+};
+
+const bearerToken = (headers: HeadersInit | undefined) => {
+  const value = new Headers(headers).get('Authorization') || '';
+  return value.startsWith('Bearer ') ? value.slice('Bearer '.length) : undefined;
+};
+
+const latestTestFor = async (userId: string) => {
+  const owned = (await tests.values()).filter((test) => test.user_id === userId);
+  return owned.sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+};
+
+// Bump whenever JOB_CATALOG gains jobs or fields, so databases seeded earlier pick them up
+const JOB_SEED_VERSION = 2;
+
+// Stored jobs win over the catalog, which only fills in the fields they lack, once per seed
+// version: an ideal profile an officer clears afterwards stays cleared.
+const seedJobs = async () => {
+  const existing = await jobs.values();
+  if (existing.length > 0 && (await seedVersions.get('jobs')) === JOB_SEED_VERSION) return existing;
+  const stored = new Map(existing.map((job) => [job.id, job]));
+  const seeded = [
+    ...JOB_CATALOG.map((job) => ({ ...job, ...stored.get(job.id) })),
+    ...existing.filter((job) => !JOB_CATALOG.some((catalogJob) => catalogJob.id === job.id)),
+  ];
+  await Promise.all(seeded.map((job) => jobs.set(job.id, job)));
+  await seedVersions.set('jobs', JOB_SEED_VERSION);
+  return seeded;
+};
+
+const handlers: Record<string, Handler> = {
+  'POST /signup': async ({ body }) => {
+    const { name, email, password, role } = requireFields(body, ['name', 'email', 'password', 'role']) as Record<string, string>;
+    if (role !== 'TVET' && role !== 'ADOF') {
+      throw new MockHttpError(400, 'Role must be TVET or ADOF');
+    }
+    const existing = await findUserByEmail(email);
+    if (existing) {
+      throw new MockHttpError(409, 'An account with this email already exists');
+    }
+    const user: MockUser = {
+      id: objectId(),
+      name,
+      email,
+      role,
+      passwordHash: await hashPassword(password),
+      emailVerified: false,
+      createdAt: now(),
+    };
+    await users.set(user.id, user);
+    await sendEmailLink(user, 'verify');
+    return { message: 'User registered successfully. Please check your email to verify your account.', user_id: user.id };
+  },
+
+  'POST /signin': async ({ body }) => {
+    const { email, password } = requireFields(body, ['email', 'password']) as Record<string, string>;
+    const user = await findUserByEmail(email);
+    if (!user || user.passwordHash !== (await hashPassword(password))) {
+      throw new MockHttpError(401, 'Invalid email or password');
+    }
+    if (user.emailVerified === false) {
+      throw new MockHttpError(403, 'Please verify your email address before signing in.', 'email_not_verified');
+    }
+    if (user.twoFactor?.enabled) {
+      const challenge: MockToken = {
+        token: objectId() + objectId(),
+        kind: 'two_factor',
+        user_id: user.id,
+        expires_at: Date.now() + TWO_FACTOR_CHALLENGE_TTL_S * 1000,
+      };
+      await tokens.set(challenge.token, challenge);
+      return { message: 'Two-factor authentication required', two_factor_required: true, challenge_token: challenge.token };
+    }
+    return { message: 'Login successful', user: publicUser(user), ...(await issueTokens(user.id)) };
+  },
+
+  'POST /2fa/verify': async ({ body }) => {
+    const { challenge_token, code, recovery_code } = requireFields(body, ['challenge_token']) as Record<string, string>;
+    const challenge = await findToken(challenge_token, 'two_factor');
+    const user = challenge ? await users.get(challenge.user_id) : undefined;
+    if (!challenge || !user) {
+      throw new MockHttpError(401, 'Your sign-in attempt has expired. Please sign in again.', 'challenge_expired');
+    }
+    const verified = await checkSecondFactor(user, code, recovery_code);
+    if (!verified) {
+      throw new MockHttpError(401, recovery_code ? 'Invalid recovery code' : 'Invalid authentication code');
+    }
+    await users.set(user.id, verified);
+    await tokens.delete(challenge.token);
+    return { message: 'Login successful', user: publicUser(user), ...(await issueTokens(user.id)) };
+  },
+
+  'GET /2fa/status': async ({ userId }) => {
+    const { twoFactor } = await currentUser(userId);
+    return {
+      enabled: !!twoFactor?.enabled,
+      recovery_codes_remaining: twoFactor?.enabled ? twoFactor.recoveryCodeHashes.length : 0,
+    };
+  },
+
+  'POST /2fa/setup': async ({ userId }) => {
+    const user = await currentUser(userId);
+    if (user.twoFactor?.enabled) {
+      throw new MockHttpError(409, 'Two-factor authentication is already enabled');
+    }
+    const secret = generateTotpSecret();
+    await users.set(user.id, { ...user, twoFactor: { secret, enabled: false, recoveryCodeHashes: [] } });
+    return { secret, otpauth_url: buildOtpauthUrl(secret, user.email, TOTP_ISSUER) };
+  },
+
+  'POST /2fa/enable': async ({ userId, body }) => {
+    const { code } = requireFields(body, ['code']) as Record<string, string>;
+    const user = await currentUser(userId);
+    if (!user.twoFactor || user.twoFactor.enabled) {
+      throw new MockHttpError(409, 'Start two-factor setup before enabling it');
+    }
+    if (!(await verifyTotp(user.twoFactor.secret, code.trim()))) {
+      throw new MockHttpError(400, 'Invalid authentication code');
+    }
+    const { codes, hashes } = await generateRecoveryCodes();
+    await users.set(user.id, { ...user, twoFactor: { ...user.twoFactor, enabled: true, recoveryCodeHashes: hashes } });
+    return { message: 'Two-factor authentication enabled', recovery_codes: codes };
+  },
+
+  'POST /2fa/disable': async ({ userId, body }) => {
+    const { code } = requireFields(body, ['code']) as Record<string, string>;
+    const user = await currentUser(userId);
+    if (!(await checkSecondFactor(user, code))) {
+      throw new MockHttpError(400, 'Invalid authentication or recovery code');
+    }
+    const { twoFactor: _removed, ...rest } = user;
+    await users.set(user.id, rest);
+    return { message: 'Two-factor authentication disabled' };
+  },
+
+  'POST /2fa/recovery_codes': async ({ userId, body }) => {
+    const { code } = requireFields(body, ['code']) as Record<string, string>;
+    const user = await currentUser(userId);
+    const verified = await checkSecondFactor(user, code);
+    if (!verified) {
+      throw new MockHttpError(400, 'Invalid authentication or recovery code');
+    }
+    const { codes, hashes } = await generateRecoveryCodes();
+    await users.set(user.id, { ...verified, twoFactor: { ...verified.twoFactor, recoveryCodeHashes: hashes } });
+    return { message: 'New recovery codes generated', recovery_codes: codes };
+  },
+
+  'POST /refresh': async ({ body }) => {
+    const { refresh_token } = requireFields(body, ['refresh_token']) as Record<string, string>;
+    const record = await findToken(refresh_token, 'refresh');
+    if (!record) {
+      throw new MockHttpError(401, 'Invalid or expired refresh token');
+    }
+    // Refresh tokens are single use: rotate on every refresh.
+    await tokens.delete(record.token);
+    return issueTokens(record.user_id);
+  },
+
+  'POST /signout': async ({ body }) => {
+    const { refresh_token } = (body || {}) as Record<string, string>;
+    if (refresh_token) await tokens.delete(refresh_token);
+    return { message: 'Signed out' };
+  },
+
+  'POST /forgot_password': async ({ body }) => {
+    const { email } = requireFields(body, ['email']) as Record<string, string>;
+    const user = await findUserByEmail(email);
+    if (user) await sendEmailLink(user, 'reset');
+    // Same answer either way so the endpoint does not reveal which emails exist.
+    return { message: 'If an account exists for this email, a reset link has been sent.' };
+  },
+
+  'POST /reset_password': async ({ body }) => {
+    const { token, password } = requireFields(body, ['token', 'password']) as Record<string, string>;
+    const record = await findToken(token, 'reset');
+    const user = record ? await users.get(record.user_id) : undefined;
+    if (!record || !user) {
+      throw new MockHttpError(400, 'This reset link is invalid or has expired.', 'invalid_token');
+    }
+    if (password.length < 8) {
+      throw new MockHttpError(400, 'Password must be at least 8 characters long.');
+    }
+    await users.set(user.id, { ...user, passwordHash: await hashPassword(password) });
+    await tokens.delete(record.token);
+    return { message: 'Your password has been reset. You can now sign in.' };
+  },
+
+  'POST /verify_email': async ({ body }) => {
+    const { token } = requireFields(body, ['token']) as Record<string, string>;
+    const record = await findToken(token, 'verify');
+    const user = record ? await users.get(record.user_id) : undefined;
+    if (!record || !user) {
+      throw new MockHttpError(400, 'This verification link is invalid or has expired.', 'invalid_token');
+    }
+    await users.set(user.id, { ...user, emailVerified: true });
+    await tokens.delete(record.token);
+    return { message: 'Your email address has been verified.' };
+  },
+
+  'POST /resend_verification': async ({ body }) => {
+    const { email } = requireFields(body, ['email']) as Record<string, string>;
+    const user = await findUserByEmail(email);
+    if (user && user.emailVerified === false) await sendEmailLink(user, 'verify');
+    return { message: 'If this account still needs verification, a new link has been sent.' };
+  },
+
+  // The candidate context is accepted but not used to pick items.
+  'POST /generate_test': async ({ body }) => {
+    const { user_id } = requireFields(body, ['user_id']) as Record<string, string>;
+    const { job, blueprint } = body as { job?: TestJobContext; blueprint?: TestBlueprint };
+    const { questions, sections } = buildQuestions(blueprint ? planFor(blueprint, job) : STANDARD_PLAN);
+    if (questions.length === 0) {
+      throw new MockHttpError(400, 'The blueprint leaves no questions to ask');
+    }
+    const test: MockTest = {
+      id: objectId(),
+      user_id,
+      title: job ? `${TEST_TITLE}: ${job.title}` : TEST_TITLE,
+      questions,
+      sections,
+      created_at: now(),
+      ...(job && { job_id: job.id }),
+      ...(blueprint && { blueprint }),
+    };
+    await tests.set(test.id, test);
+    return {
+      mcqs_id: test.id,
+      message: 'Test generated successfully',
+      questions: publicQuestions(test.questions),
+      sections: test.sections,
+      job_id: test.job_id,
+      blueprint_id: test.blueprint?.id,
+    };
+  },
+
+  'GET /get_mcqs/:userId': async ({ params: [userId] }) => {
+    const test = await latestTestFor(userId);
+    if (!test) {
+      throw new MockHttpError(404, 'No MCQs found for this user');
+    }
+    return {
+      mcqs_id: test.id,
+      questions: publicQuestions(test.questions),
+      sections: test.sections,
+      job_id: test.job_id,
+      blueprint_id: test.blueprint?.id,
+    };
+  },
+
+  'POST /submit_answers': async ({ body }) => {
+    const { user_id, mcq_id, answers, partial, telemetry } = requireFields(body, ['user_id', 'mcq_id', 'answers']);
+    const test = await tests.get(String(mcq_id));
+    if (!test) {
+      throw new MockHttpError(404, 'Test not found');
+    }
+    const result: MockResult = {
+      ...scoreSubmission(test.questions, answers as Record<string, unknown>, partial === true),
+      ...(partial === true && { partial: true }),
+      ...(telemetry !== undefined && { telemetry: telemetry as TestTelemetry }),
+      validity: assessValidity(
+        test.questions,
+        answers as Record<string, SubmittedAnswer>,
+        telemetry as TestTelemetry | undefined,
+      ),
+      mcq_id: test.id,
+      user_id: String(user_id),
+      ...(test.job_id && { job_id: test.job_id }),
+      ...(test.blueprint && { blueprint_id: test.blueprint.id, blueprint: test.blueprint }),
+      result_id: objectId(),
+      created_at: now(),
+    };
+    await results.set(result.result_id, result);
+    const { created_at, ...data } = result;
+    return { message: 'Answers submitted successfully', data };
+  },
+
+  'GET /get_result_by_id': async ({ query }) => {
+    const resultId = query.get('result_id');
+    const result = resultId ? await results.get(resultId) : undefined;
+    if (!result) {
+      throw new MockHttpError(404, 'Result not found');
+    }
+    const { created_at, ...data } = result;
+    return { message: 'Result retrieved successfully', data };
+  },
+
+  'GET /get_results': async ({ query, userId }) => {
+    const user_id = query.get('user_id');
+    if (!user_id) {
+      throw new MockHttpError(400, 'Missing required fields: user_id');
+    }
+    if (user_id !== userId) {
+      throw new MockHttpError(403, 'You can only list your own results');
+    }
+    const own = (await results.values())
+      .filter((result) => result.user_id === user_id)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    const data = await Promise.all(
+      own.map(async (result) => ({
+        result_id: result.result_id,
+        mcq_id: result.mcq_id,
+        created_at: result.created_at,
+        test_title: (await tests.get(result.mcq_id))?.title ?? TEST_TITLE,
+        percentage: result.percentage,
+        total_score: result.total_score,
+        max_score: result.max_score,
+        analysis: result.analysis,
+        ...(result.partial && { partial: true }),
+        ...(result.trait_scores && { trait_scores: result.trait_scores }),
+      })),
+    );
+    return { message: 'Results retrieved successfully', data };
+  },
+
+  'GET /jobs': async () => seedJobs(),
+
+  'POST /jobs/:jobId/ideal_profile': async ({ params: [jobId], body, userId }) => {
+    const user = await currentUser(userId);
+    if (user.role !== 'ADOF') {
+      throw new MockHttpError(403, 'Only ADOF officers can edit job profiles');
+    }
+    const job = (await seedJobs()).find((candidate) => candidate.id === jobId);
+    if (!job) {
+      throw new MockHttpError(404, 'Job not found');
+    }
+    const { ideal_profile: profile } = requireFields(body, ['ideal_profile']) as { ideal_profile: TraitTarget[] };
+    const error = Array.isArray(profile) ? profileError(profile) : 'ideal_profile must be a list';
+    if (error) {
+      throw new MockHttpError(400, error);
+    }
+    const { ideal_profile: _previous, ...rest } = job;
+    const updated: Job = profile.length > 0 ? { ...rest, ideal_profile: profile } : rest;
+    await jobs.set(job.id, updated);
+    return updated;
+  },
+
+  'GET /norm_tables': async () => normTables.values(),
+
+  'POST /norm_tables': async ({ body, userId }) => {
+    const user = await currentUser(userId);
+    if (user.role !== 'ADOF') {
+      throw new MockHttpError(403, 'Only ADOF officers can import norm tables');
+    }
+    const { tables: imported } = requireFields(body, ['tables']) as { tables: NormTableImport[] };
+    if (!Array.isArray(imported) || imported.length === 0) {
+      throw new MockHttpError(400, 'tables must be a non-empty list');
+    }
+    const error = imported.map(normTableError).find(Boolean);
+    if (error) {
+      throw new MockHttpError(400, error);
+    }
+    const importedAt = now();
+    await Promise.all(
+      imported.map(({ group, traits }) => normTables.set(group, { group, traits, imported_at: importedAt })),
+    );
+    return normTables.values();
+  },
+
+  'GET /skills': async () => skills.values(),
+
+  'POST /skills': async ({ body, userId }) => {
+    const user = await currentUser(userId);
+    if (user.role !== 'ADOF') {
+      throw new MockHttpError(403, 'Only ADOF officers can import skills');
+    }
+    const { skills: imported } = requireFields(body, ['skills']) as { skills: SkillEntry[] };
+    if (!Array.isArray(imported) || imported.length === 0) {
+      throw new MockHttpError(400, 'skills must be a non-empty list');
+    }
+    const error = skillEntriesError(imported);
+    if (error) {
+      throw new MockHttpError(400, error);
+    }
+    await Promise.all(imported.map((entry) => skills.set(normalizeSkillText(entry.name), entry)));
+    return skills.values();
+  },
+
+  'POST /submit-user-data': async ({ body }) => {
+    if (!(body instanceof FormData)) {
+      throw new MockHttpError(400, 'Expected multipart form data');
+    }
+    const fields: Record<string, string> = {};
+    let file: MockSubmission['file'];
+    body.forEach((value, key) => {
+      if (value instanceof File) {
+        file = { name: value.name, size: value.size, type: value.type };
+      } else {
+        fields[key] = value;
+      }
+    });
+    requireFields(fields, ['name', 'email', 'jobId']);
+    const submission: MockSubmission = { id: objectId(), fields, file, created_at: now() };
+    await submissions.set(submission.id, submission);
+    return { success: true, message: 'Your information has been saved.' };
+  },
+};
+
+const routes = Object.entries(handlers).map(([key, handler]) => {
+  const [method, path] = key.split(' ');
+  const pattern = new RegExp(`^${path.replace(/:[^/]+/g, '([^/]+)')}$`);
+  return { method, pattern, handler, isPublic: PUBLIC_ROUTES.has(key) };
+});
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input, window.location.origin);
+  const method = (init.method || 'GET').toUpperCase();
+
+  await new Promise((resolve) => window.setTimeout(resolve, LATENCY_MS));
+  if (init.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  for (const route of routes) {
+    const match = route.method === method && url.pathname.match(route.pattern);
+    if (!match) continue;
+
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : init.body;
+    try {
+      let userId = '';
+      if (!route.isPublic) {
+        const access = await findToken(bearerToken(init.headers), 'access');
+        if (!access) {
+          throw new MockHttpError(401, 'Invalid or expired access token');
+        }
+        userId = access.user_id;
+      }
+
+      const payload = await route.handler({
+        method,
+        params: match.slice(1).map(decodeURIComponent),
+        query: url.searchParams,
+        body,
+        userId,
+      });
+      return json(200, payload);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return json(error.status, { error: error.message, code: error.code });
+      }
+      console.error('Mock backend handler failed:', error);
+      return json(500, { error: 'Internal mock backend error' });
+    }
+  }
+
+  return json(404, { error: `No mock route for ${method} ${url.pathname}` });
+}
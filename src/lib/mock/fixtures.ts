@@ -0,0 +1,294 @@
+import { Job, TestQuestion, TestSection } from '../api';
+import { AnswerKey } from '../assessment/scoring';
+
+export const LIKERT_OPTIONS = [
+  { score: 1, text: 'Strongly Disagree' },
+  { score: 2, text: 'Disagree' },
+  { score: 3, text: 'Neutral' },
+  { score: 4, text: 'Agree' },
+  { score: 5, text: 'Strongly Agree' },
+];
+
+export const ITEMS_PER_TRAIT = 4;
+
+export const ITEM_BANK: Record<string, string[]> = {
+  Conscientiousness: [
+    'I finish tasks on time even when nobody is checking.',
+    'I keep my tools and workspace organised.',
+    'I double-check my work before handing it in.',
+    'I plan my day before I start working.',
+    'I follow safety procedures even when they slow me down.',
+    'I keep track of deadlines without being reminded.',
+  ],
+  Teamwork: [
+    'I enjoy working on tasks together with others.',
+    'I offer help to colleagues who fall behind.',
+    'I share credit for good results with my team.',
+    'I adapt my way of working to fit the group.',
+    'I can work well with people whose opinions differ from mine.',
+    'I keep my team informed about my progress.',
+  ],
+  Communication: [
+    'I explain technical ideas in a way others understand.',
+    'I listen carefully before responding.',
+    'I am comfortable speaking in front of a group.',
+    'I write clear and complete messages and reports.',
+    'I ask questions when instructions are unclear.',
+    'I give feedback in a respectful way.',
+  ],
+  Adaptability: [
+    'I stay calm when plans change at short notice.',
+    'I like learning new tools and methods.',
+    'I can switch between different tasks easily.',
+    'I see unexpected problems as a chance to learn.',
+    'I adjust quickly to new workplaces.',
+    'I am open to doing things differently from how I was taught.',
+  ],
+  'Problem Solving': [
+    'I break large problems into smaller steps.',
+    'I look for the cause of a fault before fixing it.',
+    'I try more than one approach when the first one fails.',
+    'I use data or measurements to check my solutions.',
+    'I enjoy figuring out how things work.',
+    'I can find practical solutions with limited resources.',
+  ],
+};
+
+/**
+ * One item per trait and a reverse-keyed rewording of it. Both are always
+ * asked, so contradicting answers show up in the validity checks.
+ */
+export const REVERSE_KEYED_PAIRS: Record<string, { forward: string; reverse: string }> = {
+  Conscientiousness: {
+    forward: 'I keep my tools and workspace organised.',
+    reverse: 'My workspace is often messy and disorganised.',
+  },
+  Teamwork: {
+    forward: 'I enjoy working on tasks together with others.',
+    reverse: 'I would rather work alone than as part of a team.',
+  },
+  Communication: {
+    forward: 'I listen carefully before responding.',
+    reverse: 'I often interrupt people before they have finished speaking.',
+  },
+  Adaptability: {
+    forward: 'I stay calm when plans change at short notice.',
+    reverse: 'Sudden changes to my plans leave me stressed and unsettled.',
+  },
+  'Problem Solving': {
+    forward: 'I try more than one approach when the first one fails.',
+    reverse: 'I give up when my first attempt at a problem does not work.',
+  },
+};
+
+export type KnowledgeItem = Omit<TestQuestion, 'question_no'> & { answer_key?: AnswerKey };
+
+export const KNOWLEDGE_TRAIT = 'Technical Knowledge';
+
+export const TEST_TITLE = 'Work Readiness Assessment';
+
+/** Personality items are untimed; the knowledge check has five minutes. */
+export const TEST_SECTIONS: TestSection[] = [
+  { id: 'work-style', title: 'Work Style' },
+  { id: 'knowledge', title: 'Knowledge Check', time_limit_seconds: 5 * 60 },
+];
+
+const safetySign = (shape: string, glyph: string, glyphColor: string) =>
+  `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${shape}` +
+      `<text x="50" y="66" font-size="38" font-family="sans-serif" font-weight="bold" text-anchor="middle" fill="${glyphColor}">${glyph}</text></svg>`,
+  )}`;
+
+/**
+ * Short trade knowledge check appended to every generated test, one item per
+ * non-Likert question type. Choice items are graded by option score (1 for
+ * correct, negative for a wrong multi-select pick); ranking by the order of
+ * option scores, highest first.
+ */
+export const KNOWLEDGE_ITEMS: KnowledgeItem[] = [
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'single_choice',
+    question: 'Which instrument measures electrical current?',
+    options: [
+      { score: 0, text: 'Voltmeter' },
+      { score: 1, text: 'Ammeter' },
+      { score: 0, text: 'Ohmmeter' },
+      { score: 0, text: 'Thermometer' },
+    ],
+  },
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'multi_select',
+    question: 'Which of these are personal protective equipment?',
+    min_selections: 1,
+    options: [
+      { score: 1, text: 'Safety goggles' },
+      { score: -1, text: 'Extension cord' },
+      { score: 1, text: 'Hard hat' },
+      { score: -1, text: 'Spirit level' },
+      { score: 1, text: 'Steel-toe boots' },
+    ],
+  },
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'numeric',
+    question: 'A 12 V battery is connected across a 4 Ω resistor. How much current flows?',
+    options: [],
+    min: 0,
+    max: 1000,
+    unit: 'A',
+    // A worked calculation counts double
+    weight: 2,
+    answer_key: { value: 3, tolerance: 0.01 },
+  },
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'text',
+    question: 'What does the abbreviation "PPE" stand for?',
+    options: [],
+    max_length: 100,
+    answer_key: { accepted: ['personal protective equipment', 'personal protection equipment'] },
+  },
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'ranking',
+    question: 'Put the steps for replacing a light fitting in the order you would do them.',
+    options: [
+      { score: 2, text: 'Disconnect the old fitting' },
+      { score: 4, text: 'Switch off the circuit at the breaker' },
+      { score: 1, text: 'Connect and secure the new fitting' },
+      { score: 3, text: 'Test that the circuit is dead' },
+    ],
+  },
+  {
+    trait: KNOWLEDGE_TRAIT,
+    type: 'image_choice',
+    question: 'Which sign warns of electrical danger?',
+    options: [
+      {
+        score: 0,
+        text: 'Green square with a white cross',
+        image_url: safetySign('<rect x="8" y="8" width="84" height="84" rx="6" fill="#16a34a"/>', '+', '#ffffff'),
+      },
+      {
+        score: 1,
+        text: 'Yellow triangle with a lightning bolt',
+        image_url: safetySign(
+          '<polygon points="50,6 95,90 5,90" fill="#facc15" stroke="#111827" stroke-width="5"/>',
+          '\u26A1',
+          '#111827',
+        ),
+      },
+      {
+        score: 0,
+        text: 'Blue circle with the letter i',
+        image_url: safetySign('<circle cx="50" cy="50" r="44" fill="#2563eb"/>', 'i', '#ffffff'),
+      },
+    ],
+  },
+];
+
+export const JOB_CATALOG: Job[] = [
+  {
+    id: 'job-001',
+    title: 'Junior Software Developer',
+    company: 'Kigali Tech Hub',
+    location: 'Kigali',
+    type: 'Full-time',
+    salary: 'RWF 600,000 / month',
+    description: 'Build and maintain web applications for local businesses as part of a small agile team.',
+    requirements: ['Diploma in software development or equivalent', '1+ year of programming experience', 'Familiarity with version control'],
+    skills: ['JavaScript', 'React', 'Git', 'SQL', 'Problem Solving'],
+    category: 'technology',
+    fit: { min_experience_years: 1, education_level: 'diploma' },
+    ideal_profile: [
+      { trait: 'Conscientiousness', min: 60, max: 100 },
+      { trait: 'Adaptability', min: 55, max: 100 },
+      { trait: 'Technical Knowledge', min: 60, max: 100 },
+    ],
+  },
+  {
+    id: 'job-002',
+    title: 'Data Analyst',
+    company: 'AgriData Rwanda',
+    location: 'Remote',
+    type: 'Full-time',
+    salary: 'RWF 750,000 / month',
+    description: 'Turn farm and market data into reports that help cooperatives plan their harvests.',
+    requirements: ['Degree in statistics, economics or IT', 'Experience with spreadsheets and dashboards'],
+    skills: ['Excel', 'SQL', 'Python', 'Data Visualization', 'Communication'],
+    category: 'technology',
+    fit: { weights: { skills: 35, assessment: 30 }, min_experience_years: 1, education_level: 'bachelor' },
+    ideal_profile: [
+      { trait: 'Conscientiousness', min: 70, max: 100 },
+      { trait: 'Communication', min: 50, max: 90 },
+    ],
+  },
+  {
+    id: 'job-003',
+    title: 'Digital Marketing Officer',
+    company: 'Visit Akagera',
+    location: 'Kigali',
+    type: 'Contract',
+    salary: 'RWF 500,000 / month',
+    description: 'Plan and run social media and content campaigns for a tourism operator.',
+    requirements: ['Portfolio of digital campaigns', 'Strong written English and Kinyarwanda'],
+    skills: ['Social Media', 'Content Writing', 'SEO', 'Canva', 'Analytics'],
+    category: 'marketing',
+  },
+  {
+    id: 'job-004',
+    title: 'Project Coordinator',
+    company: 'BuildRight Construction',
+    location: 'Musanze',
+    type: 'Full-time',
+    salary: 'RWF 800,000 / month',
+    description: 'Coordinate schedules, suppliers and site teams for residential building projects.',
+    requirements: ['3+ years in project coordination', 'Knowledge of construction workflows'],
+    skills: ['Project Management', 'Scheduling', 'Budgeting', 'Leadership', 'Communication'],
+    category: 'business',
+    fit: { weights: { experience: 30 }, min_experience_years: 3, education_level: 'diploma' },
+  },
+  {
+    id: 'job-005',
+    title: 'UI/UX Designer',
+    company: 'MobiPay',
+    location: 'Kigali',
+    type: 'Full-time',
+    salary: 'RWF 700,000 / month',
+    description: 'Design mobile payment flows that work for first-time smartphone users.',
+    requirements: ['Portfolio of mobile app designs', 'Experience running user interviews'],
+    skills: ['Figma', 'User Research', 'Prototyping', 'UI Design', 'Accessibility'],
+    category: 'design',
+  },
+  {
+    id: 'job-006',
+    title: 'Sales Representative',
+    company: 'SolarNow',
+    location: 'Huye',
+    type: 'Full-time',
+    salary: 'RWF 350,000 / month + commission',
+    description: 'Sell and demonstrate home solar systems to households and small businesses.',
+    requirements: ['Secondary school certificate', 'Motorbike licence is an advantage'],
+    skills: ['Sales', 'Negotiation', 'Customer Service', 'Communication'],
+    category: 'sales',
+  },
+  {
+    id: 'job-007',
+    title: 'Electrical Installation Technician',
+    company: 'REG Contractors',
+    location: 'Rubavu',
+    type: 'Full-time',
+    salary: 'RWF 450,000 / month',
+    description: 'Install and maintain wiring, distribution boards and lighting in commercial buildings.',
+    requirements: ['TVET certificate in electrical installation', 'Knowledge of safety regulations'],
+    skills: ['Electrical Wiring', 'Safety Compliance', 'Troubleshooting', 'Blueprint Reading'],
+    category: 'technology',
+    fit: { min_experience_years: 1, education_level: 'certificate' },
+    ideal_profile: [
+      { trait: 'Conscientiousness', min: 70, max: 100 },
+      { trait: 'Technical Knowledge', min: 50, max: 100 },
+    ],
+  },
+];
@@ -0,0 +1,71 @@
+/**
+ * RFC 6238 TOTP (SHA-1, 6 digits, 30 s steps) for the mock backend, so the
+ * offline two-factor flow works with any authenticator app.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const buildOtpauthUrl = (secret: string, accountName: string, issuer: string) =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${accountName}`)}?secret=${secret}` +
+  `&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+const codeForCounter = async (secret: string, counter: number) => {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const generateTotp = (secret: string, now = Date.now()) =>
+  codeForCounter(secret, Math.floor(now / 1000 / STEP_SECONDS));
+
+/** Accepts the current code and one step either side to allow for clock drift. */
+export const verifyTotp = async (secret: string, code: string, now = Date.now()) => {
+  if (!/^\d{6}$/.test(code)) return false;
+  const counter = Math.floor(now / 1000 / STEP_SECONDS);
+  for (const drift of [0, -1, 1]) {
+    if ((await codeForCounter(secret, counter + drift)) === code) return true;
+  }
+  return false;
+};
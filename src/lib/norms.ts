@@ -0,0 +1,177 @@
+import { api, NormTable, NormTableImport, TraitNorm, TraitResult } from './api';
+import { splitCsvLine } from './csv';
+import { createStore } from './idb';
+
+/**
+ * Norm tables for reading trait scores against a population: each gives the
+ * mean and standard deviation of the trait percentage (0-100) in one norm
+ * group, from which a score's percentile and stanine follow on the normal
+ * curve. Tables are imported from CSV by officers and served by the backend
+ * to every client; the last tables fetched are cached in IndexedDB for when
+ * the backend cannot be reached.
+ *
+ * Groups are `all` (all candidates), `tvet` (the TVET cohort) or
+ * `job:<job id>` (applicants for one job).
+ */
+
+export interface NormScore {
+  percentile: number;
+  /** 1-9, 5 being average. */
+  stanine: number;
+}
+
+export const NORM_CSV_COLUMNS = ['group', 'trait', 'mean', 'sd', 'n'];
+
+export class NormCsvError extends Error {
+  constructor(message: string, readonly line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'NormCsvError';
+  }
+}
+
+const cache = createStore<NormTable>('projekanda-norms', 'tables');
+
+export const jobNormGroup = (jobId: string) => `job:${jobId}`;
+
+/** Completes "82nd percentile among ...". */
+export const normGroupLabel = (group: string) => {
+  if (group === 'all') return 'all candidates';
+  if (group === 'tvet') return 'the TVET cohort';
+  if (group.startsWith('job:')) return 'applicants for this role';
+  return group;
+};
+
+/**
+ * Parses `group,trait,mean,sd[,n]` rows, with that header first, into one
+ * table per group. Throws a `NormCsvError` naming the first bad line.
+ */
+export const parseNormCsv = (text: string): NormTableImport[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim());
+  if (lines.length === 0) throw new NormCsvError('The file is empty.');
+
+  const header = splitCsvLine(lines[0].line).map((column) => column.toLowerCase());
+  const column = Object.fromEntries(NORM_CSV_COLUMNS.map((name) => [name, header.indexOf(name)]));
+  const missing = NORM_CSV_COLUMNS.filter((name) => name !== 'n' && column[name] < 0);
+  if (missing.length > 0) {
+    throw new NormCsvError(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`, 1);
+  }
+
+  const byGroup = new Map<string, Map<string, TraitNorm>>();
+  lines.slice(1).forEach(({ line, number }) => {
+    const fields = splitCsvLine(line);
+    const group = fields[column.group];
+    const trait = fields[column.trait];
+    const mean = Number(fields[column.mean]);
+    const sd = Number(fields[column.sd]);
+    const n = column.n >= 0 && fields[column.n] ? Number(fields[column.n]) : undefined;
+
+    if (!group || !trait) throw new NormCsvError('Group and trait are required.', number);
+    if (!Number.isFinite(mean) || mean < 0 || mean > 100) {
+      throw new NormCsvError('Mean must be a percentage from 0 to 100.', number);
+    }
+    if (!Number.isFinite(sd) || sd <= 0) {
+      throw new NormCsvError('Standard deviation must be a positive number.', number);
+    }
+    if (n !== undefined && !(Number.isInteger(n) && n > 0)) {
+      throw new NormCsvError('Sample size must be a positive whole number.', number);
+    }
+
+    const traits = byGroup.get(group) ?? new Map<string, TraitNorm>();
+    if (traits.has(trait)) throw new NormCsvError(`"${trait}" is listed twice for group "${group}".`, number);
+    traits.set(trait, { trait, mean, sd, ...(n !== undefined && { n }) });
+    byGroup.set(group, traits);
+  });
+
+  if (byGroup.size === 0) throw new NormCsvError('The file has no norm rows.');
+  return [...byGroup.entries()].map(([group, traits]) => ({ group, traits: [...traits.values()] }));
+};
+
+/** What is wrong with an uploaded table, or null when it can be stored. */
+export const normTableError = (table: NormTableImport): string | null => {
+  if (!table?.group || typeof table.group !== 'string') return 'Every table needs a group.';
+  if (!Array.isArray(table.traits) || table.traits.length === 0) return `The table for "${table.group}" has no traits.`;
+  const seen = new Set<string>();
+  for (const { trait, mean, sd, n } of table.traits) {
+    if (!trait || typeof trait !== 'string') return `Every trait for "${table.group}" needs a name.`;
+    if (seen.has(trait)) return `"${trait}" is listed twice for group "${table.group}".`;
+    seen.add(trait);
+    if (!Number.isFinite(mean) || mean < 0 || mean > 100) return `The mean for "${trait}" must be from 0 to 100.`;
+    if (!Number.isFinite(sd) || sd <= 0) return `The standard deviation for "${trait}" must be positive.`;
+    if (n !== undefined && !(Number.isInteger(n) && n > 0)) {
+      return `The sample size for "${trait}" must be a positive whole number.`;
+    }
+  }
+  return null;
+};
+
+const cacheTables = async (tables: NormTable[]) => {
+  try {
+    await cache.clear();
+    await Promise.all(tables.map((table) => cache.set(table.group, table)));
+  } catch (error) {
+    console.warn('Could not cache norm tables:', error);
+  }
+};
+
+/** Uploads the tables, replacing earlier ones for the same groups. */
+export const saveNormTables = async (imported: NormTableImport[]) => {
+  await cacheTables(await api.importNormTables(imported));
+};
+
+/** The backend's tables, or the cached ones when it cannot be reached. */
+export const listNormTables = async (): Promise<NormTable[]> => {
+  try {
+    const tables = await api.getNormTables();
+    await cacheTables(tables);
+    return tables;
+  } catch (error) {
+    console.warn('Could not fetch norm tables, using the cached ones:', error);
+  }
+  try {
+    return await cache.values();
+  } catch (error) {
+    console.warn('Could not read cached norm tables:', error);
+    return [];
+  }
+};
+
+// Standard normal CDF (Abramowitz and Stegun 26.2.17), accurate to about 1e-7.
+const normalCdf = (z: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const polynomial = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = density * polynomial;
+  return z >= 0 ? 1 - tail : tail;
+};
+
+// Percentiles at which each stanine from 2 up begins.
+const STANINE_BOUNDS = [4, 11, 23, 40, 60, 77, 89, 96];
+
+/** Percentile (1-99) and stanine of a trait percentage within the norm group. */
+export const normScore = (norm: TraitNorm, percentage: number): NormScore => {
+  const exact = normalCdf((percentage - norm.mean) / norm.sd) * 100;
+  return {
+    percentile: Math.min(99, Math.max(1, Math.round(exact))),
+    stanine: 1 + STANINE_BOUNDS.filter((bound) => exact >= bound).length,
+  };
+};
+
+/** Norm scores by trait, for the traits the table covers. */
+export const traitNormScores = (table: NormTable, traits: TraitResult[]): Record<string, NormScore> => {
+  const scores: Record<string, NormScore> = {};
+  traits.forEach(({ trait, percentage }) => {
+    const norm = table.traits.find((candidate) => candidate.trait === trait);
+    if (norm) scores[trait] = normScore(norm, percentage);
+  });
+  return scores;
+};
+
+/** 1st, 2nd, 3rd, 4th ... 11th, 12th, 13th ... 21st */
+export const ordinal = (value: number) => {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`;
+  return `${value}${['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'}`;
+};
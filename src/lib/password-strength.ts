@@ -0,0 +1,59 @@
+/**
+ * Heuristic password strength used by the reset-password form. It only guides
+ * the user; the server remains responsible for enforcing its own policy.
+ */
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Score needed before a new password is accepted by the form. */
+export const MIN_ACCEPTED_SCORE = 2;
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (strong). */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  suggestions: string[];
+}
+
+const LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+const COMMON_PASSWORDS = new Set(['password', 'password1', '12345678', '123456789', 'qwerty123', 'iloveyou', 'letmein1']);
+
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  const suggestions: string[] = [];
+  let points = 0;
+
+  if (password.length >= MIN_PASSWORD_LENGTH) points++;
+  else suggestions.push(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+
+  if (password.length >= 12) points++;
+
+  const hasLower = /[a-z]/.test(password);
+  const hasUpper = /[A-Z]/.test(password);
+  if (hasLower && hasUpper) points++;
+  else suggestions.push('Mix upper and lower case letters.');
+
+  if (/\d/.test(password)) points++;
+  else suggestions.push('Add a number.');
+
+  if (/[^A-Za-z0-9]/.test(password)) points++;
+  else suggestions.push('Add a symbol such as ! or #.');
+
+  // Repeated characters and well-known passwords are easy to guess whatever their length.
+  if (/(.)\1{2,}/.test(password)) {
+    points--;
+    suggestions.push('Avoid repeating the same character.');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    points = 0;
+    suggestions.unshift('This password is too common.');
+  }
+
+  // Short passwords stay weak however varied they are.
+  const capped = password.length < MIN_PASSWORD_LENGTH ? Math.min(points, 1) : points - 1;
+  const score = Math.max(0, Math.min(4, capped)) as PasswordStrength['score'];
+  return { score, label: LABELS[score], suggestions };
+};
+
+export const isPasswordAcceptable = (password: string) =>
+  password.length >= MIN_PASSWORD_LENGTH && getPasswordStrength(password).score >= MIN_ACCEPTED_SCORE;
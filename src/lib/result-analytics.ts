@@ -0,0 +1,161 @@
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { ResultSummary } from './api';
+
+/**
+ * Dashboard figures computed from a learner's result history. Everything is
+ * relative to `now` and a date range, so the previous period of the same
+ * length can be used for trends.
+ */
+
+export type DashboardRange = '7d' | '30d' | '90d' | 'all';
+
+export const DASHBOARD_RANGES: { value: DashboardRange; label: string; days?: number }[] = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: 'all', label: 'All time' },
+];
+
+export interface DashboardStats {
+  testsTaken: number;
+  /** Versus the previous period of the same length; missing for "All time". */
+  testsChange?: number;
+  /** Rounded; missing without results in the range. */
+  averageScore?: number;
+  /** Percentage points versus the previous period, when both have results. */
+  averageChange?: number;
+  latestScore?: number;
+  /** Percentage points versus the attempt before the latest. */
+  latestChange?: number;
+  strongestTrait?: { trait: string; percentage: number };
+}
+
+/** One point per attempt, oldest first; trait keys hold that trait's percentage. */
+export type ScorePoint = { label: string; score: number } & Record<string, number | string>;
+
+export interface TraitAverage {
+  trait: string;
+  percentage: number;
+}
+
+export interface ActivityBucket {
+  label: string;
+  tests: number;
+}
+
+const rangeDays = (range: DashboardRange) => DASHBOARD_RANGES.find((option) => option.value === range)?.days;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+const byDate = (results: ResultSummary[]) => [...results].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+// Ranges cover whole days, today included.
+const rangeStart = (days: number, now: Date) => startOfDay(subDays(now, days - 1));
+
+/** Results within the range ending at `now`, oldest first. */
+export const resultsInRange = (results: ResultSummary[], range: DashboardRange, now = new Date()) => {
+  const days = rangeDays(range);
+  if (!days) return byDate(results);
+  const start = rangeStart(days, now).getTime();
+  return byDate(results).filter((result) => {
+    const time = new Date(result.created_at).getTime();
+    return time >= start && time <= now.getTime();
+  });
+};
+
+// The period of the same length just before the range.
+const previousPeriod = (results: ResultSummary[], range: DashboardRange, now: Date) => {
+  const days = rangeDays(range);
+  return days ? resultsInRange(results, range, new Date(rangeStart(days, now).getTime() - 1)) : undefined;
+};
+
+/** Average percentage per trait, strongest first. */
+export const traitAverages = (results: ResultSummary[]): TraitAverage[] => {
+  const percentages = new Map<string, number[]>();
+  results.forEach((result) =>
+    result.trait_scores?.forEach(({ trait, percentage }) =>
+      percentages.set(trait, [...(percentages.get(trait) ?? []), percentage]),
+    ),
+  );
+  return [...percentages.entries()]
+    .map(([trait, values]) => ({ trait, percentage: Math.round(average(values)) }))
+    .sort((a, b) => b.percentage - a.percentage);
+};
+
+export const dashboardStats = (results: ResultSummary[], range: DashboardRange, now = new Date()): DashboardStats => {
+  const current = resultsInRange(results, range, now);
+  const previous = previousPeriod(results, range, now);
+  const currentAverage = average(current.map((result) => result.percentage));
+  const previousAverage = previous && average(previous.map((result) => result.percentage));
+  const [latest, beforeLatest] = [...current].reverse();
+  const [strongest] = traitAverages(current);
+
+  return {
+    testsTaken: current.length,
+    ...(previous && { testsChange: current.length - previous.length }),
+    ...(currentAverage !== undefined && { averageScore: Math.round(currentAverage) }),
+    ...(currentAverage !== undefined &&
+      previousAverage !== undefined && { averageChange: Math.round(currentAverage - previousAverage) }),
+    ...(latest && { latestScore: latest.percentage }),
+    ...(latest && beforeLatest && { latestChange: latest.percentage - beforeLatest.percentage }),
+    ...(strongest && { strongestTrait: strongest }),
+  };
+};
+
+/** Overall and per-trait percentages of each attempt in the range. */
+export const scoreTimeline = (results: ResultSummary[], range: DashboardRange, now = new Date()): ScorePoint[] =>
+  resultsInRange(results, range, now).map((result) => {
+    const point: ScorePoint = { label: format(new Date(result.created_at), 'd MMM'), score: result.percentage };
+    result.trait_scores?.forEach(({ trait, percentage }) => {
+      point[trait] = percentage;
+    });
+    return point;
+  });
+
+/**
+ * Tests taken per day over the last week, per week up to 90 days, and per
+ * month for all time (from the first result).
+ */
+export const activityBuckets = (
+  results: ResultSummary[],
+  range: DashboardRange,
+  now = new Date(),
+): ActivityBucket[] => {
+  const current = resultsInRange(results, range, now);
+  const days = rangeDays(range);
+  const interval = { start: days ? rangeStart(days, now) : new Date(current[0]?.created_at ?? now), end: now };
+
+  let starts: Date[];
+  let bucketOf: (date: Date) => Date;
+  let pattern: string;
+  if (days === 7) {
+    starts = eachDayOfInterval(interval);
+    bucketOf = startOfDay;
+    pattern = 'EEE';
+  } else if (days) {
+    starts = eachWeekOfInterval(interval, { weekStartsOn: 1 });
+    bucketOf = (date) => startOfWeek(date, { weekStartsOn: 1 });
+    pattern = "'Wk of' d MMM";
+  } else {
+    starts = eachMonthOfInterval(interval);
+    bucketOf = startOfMonth;
+    pattern = 'MMM yyyy';
+  }
+
+  const counts = new Map<number, number>();
+  current.forEach((result) => {
+    const bucket = bucketOf(new Date(result.created_at)).getTime();
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  });
+  return starts.map((bucket) => ({ label: format(bucket, pattern), tests: counts.get(bucket.getTime()) ?? 0 }));
+};
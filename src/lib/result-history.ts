@@ -0,0 +1,97 @@
+import { ResultSummary } from './api';
+
+/**
+ * Filtering and attempt-to-attempt comparison for a learner's result
+ * history. Dates are compared as local calendar days, matching the
+ * `yyyy-mm-dd` values of date inputs.
+ */
+
+export interface HistoryFilters {
+  /** First day to include, `yyyy-mm-dd`. */
+  from?: string;
+  /** Last day to include, `yyyy-mm-dd`. */
+  to?: string;
+  trait?: string;
+}
+
+export interface TraitSnapshot {
+  /** Missing when the result only has the `analysis` label. */
+  percentage?: number;
+  band: string;
+}
+
+export type TraitMovementDirection = 'up' | 'down' | 'same' | 'new' | 'dropped';
+
+export interface TraitMovement {
+  trait: string;
+  before?: TraitSnapshot;
+  after?: TraitSnapshot;
+  direction: TraitMovementDirection;
+  /** Percentage points, when both attempts have numeric scores. */
+  delta?: number;
+}
+
+/** date-fns pattern for listing attempts. */
+export const HISTORY_DATE_FORMAT = 'd MMM yyyy, HH:mm';
+
+/** Smaller changes in percentage points count as no movement. */
+export const MOVEMENT_THRESHOLD = 5;
+
+// Labels from worst to best, for results without numeric trait scores.
+const BAND_ORDER = ['Weakness', 'Strength'];
+
+export const localDay = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const resultTraits = (result: ResultSummary) =>
+  result.trait_scores?.length ? result.trait_scores.map((score) => score.trait) : Object.keys(result.analysis);
+
+/** Every trait appearing in the history, alphabetically. */
+export const historyTraits = (results: ResultSummary[]) =>
+  [...new Set(results.flatMap(resultTraits))].sort((a, b) => a.localeCompare(b));
+
+export const filterResults = (results: ResultSummary[], { from, to, trait }: HistoryFilters) =>
+  results.filter((result) => {
+    const day = localDay(result.created_at);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return !trait || resultTraits(result).includes(trait);
+  });
+
+export const traitSnapshot = (result: ResultSummary, trait: string): TraitSnapshot | undefined => {
+  const score = result.trait_scores?.find((candidate) => candidate.trait === trait);
+  if (score) return { percentage: score.percentage, band: score.band };
+  return trait in result.analysis ? { band: result.analysis[trait] } : undefined;
+};
+
+const direction = (before: TraitSnapshot, after: TraitSnapshot, delta?: number): TraitMovementDirection => {
+  if (delta !== undefined) {
+    if (Math.abs(delta) < MOVEMENT_THRESHOLD) return 'same';
+    return delta > 0 ? 'up' : 'down';
+  }
+  const beforeRank = BAND_ORDER.indexOf(before.band);
+  const afterRank = BAND_ORDER.indexOf(after.band);
+  if (beforeRank < 0 || afterRank < 0 || beforeRank === afterRank) return 'same';
+  return afterRank > beforeRank ? 'up' : 'down';
+};
+
+/** How each trait moved from `earlier` to `later`, biggest movements first. */
+export const compareAttempts = (earlier: ResultSummary, later: ResultSummary): TraitMovement[] => {
+  const traits = [...new Set([...resultTraits(earlier), ...resultTraits(later)])];
+  return traits
+    .map((trait): TraitMovement => {
+      const before = traitSnapshot(earlier, trait);
+      const after = traitSnapshot(later, trait);
+      if (!before) return { trait, after, direction: 'new' };
+      if (!after) return { trait, before, direction: 'dropped' };
+      const delta =
+        before.percentage !== undefined && after.percentage !== undefined
+          ? after.percentage - before.percentage
+          : undefined;
+      return { trait, before, after, delta, direction: direction(before, after, delta) };
+    })
+    .sort((a, b) => Math.abs(b.delta ?? 0) - Math.abs(a.delta ?? 0) || a.trait.localeCompare(b.trait));
+};
@@ -0,0 +1,35 @@
+import { User } from './api';
+
+/** Paths used for navigation outside the route table in App.tsx. */
+export const ROUTES = {
+  login: '/login',
+  signup: '/signup',
+  tvetHome: '/tvet',
+  tvetTest: '/tvet/test',
+  tvetHistory: '/tvet/history',
+  adofHome: '/adof',
+  adofJobs: '/adof/jobs',
+  adofCv: (jobId: string) => `/adof/jobs/${encodeURIComponent(jobId)}/cv`,
+  adofTest: (jobId: string) => `/adof/jobs/${encodeURIComponent(jobId)}/test`,
+  adofReport: (jobId: string, resultId: string) =>
+    `/adof/jobs/${encodeURIComponent(jobId)}/report/${encodeURIComponent(resultId)}`,
+  accountSecurity: '/account/security',
+  result: (resultId: string) => `/results/${encodeURIComponent(resultId)}`,
+};
+
+export const RETURN_TO_PARAM = 'redirect';
+
+export const homePathFor = (role: User['role']) => (role === 'ADOF' ? ROUTES.adofHome : ROUTES.tvetHome);
+
+/** Login URL that brings the user back to `returnTo` after signing in. */
+export const loginPath = (returnTo?: string) =>
+  returnTo && returnTo !== '/' ? `${ROUTES.login}?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}` : ROUTES.login;
+
+/**
+ * Only same-origin paths are followed after login; anything else (absolute or
+ * protocol-relative URLs) would turn the login page into an open redirect.
+ */
+export const safeReturnPath = (raw: string | null) => {
+  if (!raw || !raw.startsWith('/') || raw.startsWith('//') || raw.startsWith('/\\')) return null;
+  return raw;
+};
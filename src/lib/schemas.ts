@@ -0,0 +1,328 @@
+import { z } from 'zod';
+
+// Runtime mirrors of the response interfaces in `api.ts`. Those interfaces stay
+// the source of truth for types; these schemas only guard what the server sends.
+
+// The backend has used several names for the generated test id over time.
+// They are checked in this order and collapsed into a single `testId`.
+const TEST_ID_FIELDS = ['mcqs_id', 'document_id', 'documentId', 'id', '_id'] as const;
+
+const idValue = z.union([z.string(), z.number()]).transform(String);
+
+export const extractTestId = (raw: Record<string, unknown>): string => {
+  for (const field of TEST_ID_FIELDS) {
+    const value = raw[field];
+    if ((typeof value === 'string' && value.trim() !== '') || typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return '';
+};
+
+const rawTestIds = {
+  mcqs_id: idValue.optional(),
+  document_id: idValue.optional(),
+  documentId: idValue.optional(),
+  id: idValue.optional(),
+  _id: idValue.optional(),
+};
+
+export const userSchema = z.object({
+  id: idValue,
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(['TVET', 'ADOF']),
+});
+
+const questionTypeSchema = z.enum([
+  'likert',
+  'single_choice',
+  'multi_select',
+  'numeric',
+  'text',
+  'ranking',
+  'image_choice',
+]);
+
+export const testQuestionSchema = z.object({
+  question: z.string(),
+  question_no: z.number(),
+  trait: z.string(),
+  type: questionTypeSchema.optional(),
+  options: z
+    .array(
+      z.object({
+        score: z.number(),
+        text: z.string(),
+        image_url: z.string().optional(),
+      }),
+    )
+    .default([]),
+  image_url: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  unit: z.string().optional(),
+  max_length: z.number().int().positive().optional(),
+  min_selections: z.number().int().nonnegative().optional(),
+  max_selections: z.number().int().positive().optional(),
+  section: z.string().optional(),
+  pair: z.string().optional(),
+  reverse_keyed: z.boolean().optional(),
+  weight: z.number().nonnegative().optional(),
+});
+
+const testTimeLimitFields = {
+  time_limit_seconds: z.number().positive().optional(),
+  sections: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string().default(''),
+        time_limit_seconds: z.number().positive().optional(),
+      }),
+    )
+    .optional(),
+  accommodations: z
+    .object({
+      extra_time_percent: z.number().nonnegative().optional(),
+      pause_allowed: z.boolean().optional(),
+    })
+    .optional(),
+};
+
+const testOriginFields = {
+  job_id: idValue.optional(),
+  blueprint_id: z.string().optional(),
+};
+
+export const generateTestResponseSchema = z
+  .object({
+    ...rawTestIds,
+    message: z.string().default(''),
+    questions: z.array(testQuestionSchema),
+    trait: z.string().optional(),
+    ...testTimeLimitFields,
+    ...testOriginFields,
+  })
+  .transform(({ mcqs_id, document_id, documentId, id, _id, ...rest }) => ({
+    ...rest,
+    testId: extractTestId({ mcqs_id, document_id, documentId, id, _id }),
+  }))
+  .refine((test) => test.testId !== '', {
+    message: 'Generated test is missing its id',
+    path: ['testId'],
+  });
+
+export const getMcqsResponseSchema = z
+  .object({
+    ...rawTestIds,
+    questions: z.array(testQuestionSchema).default([]),
+    message: z.string().optional(),
+    ...testTimeLimitFields,
+    ...testOriginFields,
+  })
+  .transform(({ mcqs_id, document_id, documentId, id, _id, ...rest }) => ({
+    ...rest,
+    testId: extractTestId({ mcqs_id, document_id, documentId, id, _id }) || undefined,
+  }));
+
+const testTelemetrySchema = z.object({
+  questions: z.array(
+    z.object({
+      question_no: z.number(),
+      time_ms: z.number(),
+      answer_changes: z.number(),
+      visits: z.number(),
+      answered: z.boolean(),
+    }),
+  ),
+  navigation: z.array(z.number()),
+});
+
+const resultValiditySchema = z.object({
+  index: z.number(),
+  band: z.enum(['acceptable', 'questionable', 'invalid']),
+  checks: z.array(
+    z.object({
+      id: z.enum(['straight_lining', 'alternating_pattern', 'inconsistent_pairs', 'fast_completion']),
+      severity: z.number(),
+      flagged: z.boolean(),
+      detail: z.string().default(''),
+    }),
+  ),
+});
+
+const traitResultSchema = z.object({
+  trait: z.string(),
+  score: z.number(),
+  max_score: z.number(),
+  percentage: z.number(),
+  band: z.string().default(''),
+});
+
+const resultDataSchema = z.object({
+  analysis: z.record(z.string()).default({}),
+  max_score: z.number(),
+  mcq_id: idValue,
+  percentage: z.number(),
+  result_id: idValue,
+  total_score: z.number(),
+  user_id: idValue,
+  partial: z.boolean().optional(),
+  telemetry: testTelemetrySchema.optional(),
+  validity: resultValiditySchema.optional(),
+  trait_scores: z.array(traitResultSchema).optional(),
+  ...testOriginFields,
+  blueprint: z
+    .object({
+      id: z.string(),
+      name: z.string().default(''),
+      traits: z.array(z.string()).default([]),
+      items_per_trait: z.number(),
+      question_types: z.array(questionTypeSchema),
+    })
+    .optional(),
+});
+
+export const submitAnswersResponseSchema = z.object({
+  data: resultDataSchema,
+  message: z.string().default(''),
+});
+
+export const testResultSchema = z.object({
+  data: resultDataSchema,
+  message: z.string().default(''),
+});
+
+export const resultListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      result_id: idValue,
+      mcq_id: idValue,
+      created_at: z.string(),
+      test_title: z.string().optional(),
+      percentage: z.number(),
+      total_score: z.number(),
+      max_score: z.number(),
+      analysis: z.record(z.string()).default({}),
+      partial: z.boolean().optional(),
+      trait_scores: z.array(traitResultSchema).optional(),
+    }),
+  ),
+  message: z.string().default(''),
+});
+
+const educationLevelSchema = z.enum(['none', 'certificate', 'diploma', 'bachelor', 'master', 'doctorate']);
+
+const jobFitSchema = z.object({
+  weights: z
+    .object({
+      skills: z.number().min(0).optional(),
+      experience: z.number().min(0).optional(),
+      education: z.number().min(0).optional(),
+      assessment: z.number().min(0).optional(),
+    })
+    .optional(),
+  min_experience_years: z.number().min(0).optional(),
+  education_level: educationLevelSchema.optional(),
+});
+
+const traitTargetSchema = z.object({
+  trait: z.string(),
+  min: z.number().min(0).max(100),
+  max: z.number().min(0).max(100),
+});
+
+export const jobSchema = z.object({
+  id: idValue,
+  title: z.string().default(''),
+  company: z.string().default(''),
+  location: z.string().default(''),
+  type: z.string().default(''),
+  salary: z.string().default(''),
+  description: z.string().default(''),
+  requirements: z.array(z.string()).default([]),
+  skills: z.array(z.string()).default([]),
+  category: z.string().optional(),
+  fit: jobFitSchema.optional(),
+  ideal_profile: z.array(traitTargetSchema).optional(),
+});
+
+export const jobListSchema = z.array(jobSchema);
+
+const traitNormSchema = z.object({
+  trait: z.string(),
+  mean: z.number(),
+  sd: z.number().positive(),
+  n: z.number().int().positive().optional(),
+});
+
+export const normTableListSchema = z.array(
+  z.object({
+    group: z.string(),
+    traits: z.array(traitNormSchema),
+    imported_at: z.string().default(''),
+  }),
+);
+
+export const skillListSchema = z.array(
+  z.object({
+    name: z.string(),
+    synonyms: z.array(z.string()).default([]),
+    parent: z.string().optional(),
+  }),
+);
+
+export const signupResponseSchema = z
+  .object({
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+const tokenFields = {
+  access_token: z.string().min(1),
+  refresh_token: z.string().min(1),
+  // Seconds until the access token expires; the backend default is 15 minutes.
+  expires_in: z.number().positive().default(900),
+};
+
+export const tokenResponseSchema = z.object(tokenFields);
+
+export const signinResponseSchema = z.object({
+  message: z.string().default(''),
+  user: userSchema,
+  ...tokenFields,
+});
+
+// Returned by /signin instead of tokens when the account has two-factor authentication enabled.
+export const twoFactorChallengeSchema = z.object({
+  message: z.string().default(''),
+  two_factor_required: z.literal(true),
+  challenge_token: z.string().min(1),
+});
+
+export const signinResultSchema = z.union([twoFactorChallengeSchema, signinResponseSchema]);
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  recovery_codes_remaining: z.number().int().nonnegative().default(0),
+});
+
+export const twoFactorSetupSchema = z.object({
+  secret: z.string().min(1),
+  otpauth_url: z.string().startsWith('otpauth://'),
+});
+
+export const recoveryCodesResponseSchema = z.object({
+  message: z.string().default(''),
+  recovery_codes: z.array(z.string().min(1)).min(1),
+});
+
+export const messageResponseSchema = z.object({
+  message: z.string().default(''),
+});
+
+export const submitUserDataResponseSchema = z.object({
+  success: z.boolean().default(true),
+  message: z.string().default(''),
+});
@@ -0,0 +1,47 @@
+import { User } from './api';
+
+/**
+ * Cross-tab notifications for AuthProvider. Uses BroadcastChannel where
+ * available and falls back to `storage` events on a dedicated key. Neither
+ * transport delivers a message back to the tab that sent it.
+ */
+
+export type SessionSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'activity' };
+
+type SessionSyncListener = (message: SessionSyncMessage) => void;
+
+const CHANNEL_NAME = 'projekanda-auth';
+const STORAGE_KEY = 'auth_sync_event';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const broadcastSessionChange = (message: SessionSyncMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  // The nonce makes every write a change, otherwise repeated messages are dropped.
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+};
+
+export const subscribeToSessionChanges = (listener: SessionSyncListener) => {
+  if (channel) {
+    const onMessage = (event: MessageEvent<SessionSyncMessage>) => listener(event.data);
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore values written by other versions of the app.
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
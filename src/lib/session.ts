@@ -0,0 +1,77 @@
+/**
+ * Access/refresh token storage shared by the API client and AuthProvider.
+ * Tokens live in localStorage next to the cached user so a reload keeps the
+ * session; everything else goes through the helpers below.
+ */
+
+const SESSION_KEY = 'auth_session';
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch milliseconds after which the access token must be refreshed. */
+  accessTokenExpiresAt: number;
+}
+
+export type SessionEndReason = 'expired' | 'idle' | 'signed_out';
+
+type SessionEndListener = (reason: SessionEndReason) => void;
+
+const listeners = new Set<SessionEndListener>();
+
+// Aborted whenever the session changes so requests made for the previous
+// user (a test submission, say) never complete under a different identity.
+let sessionController = new AbortController();
+
+// Refresh a little early so a token does not expire while a request is in flight.
+const EXPIRY_SKEW_MS = 30_000;
+
+export const getSession = (): SessionTokens | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && parsed.accessToken && parsed.refreshToken ? parsed : null;
+  } catch {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+};
+
+export const setSession = (tokens: SessionTokens) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(tokens));
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+export const isAccessTokenExpired = (tokens: SessionTokens, now = Date.now()) =>
+  tokens.accessTokenExpiresAt - EXPIRY_SKEW_MS <= now;
+
+export const toSessionTokens = (raw: { access_token: string; refresh_token: string; expires_in: number }): SessionTokens => ({
+  accessToken: raw.access_token,
+  refreshToken: raw.refresh_token,
+  accessTokenExpiresAt: Date.now() + raw.expires_in * 1000,
+});
+
+export const getSessionSignal = () => sessionController.signal;
+
+export const abortSessionRequests = () => {
+  sessionController.abort();
+  sessionController = new AbortController();
+};
+
+/** Subscribes to forced session ends (failed refresh, idle timeout). */
+export const onSessionEnd = (listener: SessionEndListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const endSession = (reason: SessionEndReason) => {
+  clearSession();
+  abortSessionRequests();
+  listeners.forEach((listener) => listener(reason));
+};
@@ -0,0 +1,368 @@
+import { api, SkillEntry } from './api';
+import { splitCsvLine } from './csv';
+import { createStore } from './idb';
+
+/**
+ * Skills taxonomy for matching candidates to jobs: each skill has one
+ * canonical name, the synonyms and abbreviations it is also written as, and
+ * optionally a broader parent skill ("React" under "JavaScript Frameworks").
+ * A candidate skill covers a job skill when both resolve to the same entry or
+ * the candidate's is narrower, so React covers a job asking for JavaScript.
+ *
+ * The built-in skills below can be extended or overridden by entries that
+ * officers import from JSON or CSV. Imports are stored by the backend so the
+ * whole team shares them, and the last ones fetched are cached in IndexedDB
+ * for when it cannot be reached.
+ */
+
+export interface SkillTaxonomy {
+  entries: SkillEntry[];
+  /** Entries by normalized name and synonym. */
+  byAlias: Map<string, SkillEntry>;
+}
+
+export interface SkillMatch {
+  /** Each job skill the candidate covers, with the candidate skill covering it. */
+  covered: { jobSkill: string; candidateSkill: string }[];
+  /** Job skills no candidate skill covers. */
+  missing: string[];
+  /** Candidate skills that cover at least one job skill. */
+  matchedSkills: string[];
+  /** Share of the job's skills covered, 0-100. */
+  percentage: number;
+}
+
+export const SKILL_CSV_COLUMNS = ['name', 'synonyms', 'parent'];
+
+export class SkillTaxonomyError extends Error {
+  constructor(message: string, readonly line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'SkillTaxonomyError';
+  }
+}
+
+const skill = (name: string, synonyms: string[] = [], parent?: string): SkillEntry => ({
+  name,
+  synonyms,
+  ...(parent && { parent }),
+});
+
+export const DEFAULT_SKILLS: SkillEntry[] = [
+  skill('Programming', ['Software Development', 'Coding']),
+  skill('JavaScript', ['JS', 'ECMAScript', 'ES6'], 'Programming'),
+  skill('TypeScript', ['TS'], 'JavaScript'),
+  skill('JavaScript Frameworks', ['JS Frameworks', 'Frontend Frameworks'], 'JavaScript'),
+  skill('React', ['React.js', 'ReactJS'], 'JavaScript Frameworks'),
+  skill('Angular', ['AngularJS', 'Angular.js'], 'JavaScript Frameworks'),
+  skill('Vue.js', ['Vue', 'VueJS'], 'JavaScript Frameworks'),
+  skill('Node.js', ['Node', 'NodeJS'], 'JavaScript'),
+  skill('Python', ['Py'], 'Programming'),
+  skill('Java', [], 'Programming'),
+  skill('C', ['C Programming', 'C Language'], 'Programming'),
+  skill('C++', ['CPP'], 'Programming'),
+  skill('C#', ['C Sharp', 'CSharp'], 'Programming'),
+  skill('SQL', ['Structured Query Language'], 'Programming'),
+  skill('MySQL', [], 'SQL'),
+  skill('PostgreSQL', ['Postgres'], 'SQL'),
+  skill('Version Control', ['Source Control']),
+  skill('Git', ['GitHub', 'GitLab'], 'Version Control'),
+  skill('Microsoft Office', ['MS Office', 'Office 365', 'Microsoft 365']),
+  skill('Microsoft Excel', ['Excel', 'MS Excel', 'Spreadsheets'], 'Microsoft Office'),
+  skill('Microsoft Word', ['MS Word', 'Word Processing'], 'Microsoft Office'),
+  skill('Data Entry', ['Data Capturing', 'Data Capture']),
+  skill('Data Analysis', ['Data Analytics', 'Analytics']),
+  skill('Data Visualization', ['Data Visualisation'], 'Data Analysis'),
+  skill('Power BI', ['PowerBI'], 'Data Visualization'),
+  skill('Tableau', [], 'Data Visualization'),
+  skill('Digital Marketing', ['Online Marketing']),
+  skill('Social Media', ['Social Media Marketing', 'Social Media Management', 'SMM'], 'Digital Marketing'),
+  skill('SEO', ['Search Engine Optimization', 'Search Engine Optimisation'], 'Digital Marketing'),
+  skill('Content Writing', ['Copywriting', 'Content Creation']),
+  skill('Graphic Design', ['Visual Design']),
+  skill('Canva', [], 'Graphic Design'),
+  skill('UX Design', ['User Experience', 'UX', 'User Experience Design']),
+  skill('UI Design', ['User Interface Design', 'UI'], 'UX Design'),
+  skill('User Research', ['UX Research', 'Usability Testing'], 'UX Design'),
+  skill('Prototyping', ['Wireframing'], 'UX Design'),
+  skill('Figma', [], 'UI Design'),
+  skill('Accessibility', ['A11y', 'WCAG']),
+  skill('Project Management', ['PM', 'Project Coordination']),
+  skill('Scheduling', [], 'Project Management'),
+  skill('Budgeting', ['Budget Management']),
+  skill('Bookkeeping', ['Book Keeping']),
+  skill('Leadership', ['Team Leadership', 'People Management', 'Supervision']),
+  skill('Communication', ['Communication Skills', 'Verbal Communication', 'Written Communication']),
+  skill('Teamwork', ['Team Work', 'Team Player', 'Collaboration']),
+  skill('Problem Solving', ['Problem-Solving', 'Critical Thinking']),
+  skill('Troubleshooting', ['Fault Finding', 'Diagnostics'], 'Problem Solving'),
+  skill('Time Management'),
+  skill('Customer Service', ['Customer Care', 'Customer Support', 'Client Service']),
+  skill('Sales', ['Selling']),
+  skill('Negotiation', ['Negotiating'], 'Sales'),
+  skill('Health and Safety', ['OHS', 'HSE', 'Occupational Health and Safety', 'Safety Compliance']),
+  skill('First Aid', [], 'Health and Safety'),
+  skill('Electrical Installation', ['Electrical Wiring', 'Wiring', 'Electrical Installations']),
+  skill('Blueprint Reading', ['Reading Blueprints', 'Technical Drawings', 'Reading Technical Drawings']),
+  skill('Welding', ['Arc Welding', 'MIG Welding', 'TIG Welding']),
+  skill('Plumbing'),
+  skill('Carpentry', ['Joinery', 'Woodwork']),
+];
+
+const cache = createStore<SkillEntry>('projekanda-skills', 'entries');
+
+/** Lowercased, with "&" read as "and" and runs of spaces collapsed. */
+export const normalizeSkillText = (text: string) =>
+  text.toLowerCase().replace(/&/g, ' and ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Indexes the entries by name and synonym. Later entries win for a name or
+ * synonym used twice, so imported entries placed after the built-in ones
+ * override them.
+ */
+export const buildSkillTaxonomy = (skills: SkillEntry[]): SkillTaxonomy => {
+  const byName = new Map<string, SkillEntry>();
+  skills.forEach((entry) => byName.set(normalizeSkillText(entry.name), entry));
+  // A parent nobody defined still groups its children.
+  [...byName.values()].forEach(({ parent }) => {
+    if (parent && !byName.has(normalizeSkillText(parent))) byName.set(normalizeSkillText(parent), skill(parent));
+  });
+
+  const byAlias = new Map<string, SkillEntry>();
+  byName.forEach((entry) => entry.synonyms.forEach((synonym) => byAlias.set(normalizeSkillText(synonym), entry)));
+  // Canonical names take precedence over another skill's synonym.
+  byName.forEach((entry, name) => byAlias.set(name, entry));
+  return { entries: [...byName.values()], byAlias };
+};
+
+export const DEFAULT_TAXONOMY = buildSkillTaxonomy(DEFAULT_SKILLS);
+
+export const findSkill = (taxonomy: SkillTaxonomy, text: string) => taxonomy.byAlias.get(normalizeSkillText(text));
+
+/** The canonical name of a known skill, or the text tidied up. */
+export const normalizeSkill = (taxonomy: SkillTaxonomy, text: string) =>
+  findSkill(taxonomy, text)?.name ?? text.replace(/\s+/g, ' ').trim();
+
+// The entry and its ancestors, nearest first; stops at a cycle.
+const lineage = (taxonomy: SkillTaxonomy, entry: SkillEntry) => {
+  const chain: SkillEntry[] = [];
+  for (let current = entry; current && !chain.includes(current); ) {
+    chain.push(current);
+    current = current.parent ? findSkill(taxonomy, current.parent) : undefined;
+  }
+  return chain;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word containment, for skills the taxonomy does not know.
+const containsPhrase = (text: string, phrase: string) =>
+  phrase.length >= 3 &&
+  new RegExp(`(^|[^\\p{L}\\p{N}+#.])${escapeRegExp(phrase)}($|[^\\p{L}\\p{N}+#])`, 'u').test(text);
+
+/**
+ * Whether `candidateSkill` covers `jobSkill`: the same skill under any of its
+ * names, or a narrower one. Skills outside the taxonomy match when one
+ * contains the other as whole words, so "Customer Service" covers "Excellent
+ * Customer Service" but "C" covers nothing but C.
+ */
+export const coversSkill = (taxonomy: SkillTaxonomy, candidateSkill: string, jobSkill: string) => {
+  const candidate = findSkill(taxonomy, candidateSkill);
+  const job = findSkill(taxonomy, jobSkill);
+  if (candidate && job) return lineage(taxonomy, candidate).includes(job);
+
+  const candidateText = normalizeSkillText(candidate?.name ?? candidateSkill);
+  const jobText = normalizeSkillText(job?.name ?? jobSkill);
+  if (!candidateText || !jobText) return false;
+  return candidateText === jobText || containsPhrase(candidateText, jobText) || containsPhrase(jobText, candidateText);
+};
+
+/** How far the candidate's skills cover the job's. */
+export const matchSkills = (taxonomy: SkillTaxonomy, candidateSkills: string[], jobSkills: string[]): SkillMatch => {
+  const covered: SkillMatch['covered'] = [];
+  const missing: string[] = [];
+  jobSkills.forEach((jobSkill) => {
+    const candidateSkill = candidateSkills.find((skill) => coversSkill(taxonomy, skill, jobSkill));
+    if (candidateSkill !== undefined) covered.push({ jobSkill, candidateSkill });
+    else missing.push(jobSkill);
+  });
+
+  return {
+    covered,
+    missing,
+    matchedSkills: candidateSkills.filter((skill) =>
+      jobSkills.some((jobSkill) => coversSkill(taxonomy, skill, jobSkill)),
+    ),
+    percentage: jobSkills.length > 0 ? Math.round((covered.length / jobSkills.length) * 100) : 0,
+  };
+};
+
+/**
+ * Canonical names for autocomplete: skills whose name starts with the query
+ * first, then those with a matching synonym, then names containing it.
+ */
+export const searchSkills = (taxonomy: SkillTaxonomy, query: string, limit = 6) => {
+  const text = normalizeSkillText(query);
+  if (!text) return [];
+  const rank = (entry: SkillEntry) => {
+    const name = normalizeSkillText(entry.name);
+    if (name.startsWith(text)) return 0;
+    if (entry.synonyms.some((synonym) => normalizeSkillText(synonym).startsWith(text))) return 1;
+    if (name.includes(text)) return 2;
+    return null;
+  };
+  return taxonomy.entries
+    .map((entry) => ({ entry, rank: rank(entry) }))
+    .filter(({ rank }) => rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry }) => entry.name);
+};
+
+// Checks one file's entries on their own: names and synonyms used once, no parent cycles.
+const validateEntries = (parsed: { entry: SkillEntry; line?: number }[]) => {
+  const owners = new Map<string, string>();
+  parsed.forEach(({ entry, line }) => {
+    if (owners.has(normalizeSkillText(entry.name))) {
+      throw new SkillTaxonomyError(`"${entry.name}" is listed twice.`, line);
+    }
+    owners.set(normalizeSkillText(entry.name), entry.name);
+  });
+  parsed.forEach(({ entry, line }) => {
+    entry.synonyms.forEach((synonym) => {
+      const owner = owners.get(normalizeSkillText(synonym));
+      if (owner !== undefined && owner !== entry.name) {
+        throw new SkillTaxonomyError(`"${synonym}" is already used by "${owner}".`, line);
+      }
+      owners.set(normalizeSkillText(synonym), entry.name);
+    });
+  });
+
+  const taxonomy = buildSkillTaxonomy(parsed.map(({ entry }) => entry));
+  parsed.forEach(({ entry, line }) => {
+    const chain = lineage(taxonomy, findSkill(taxonomy, entry.name));
+    const last = chain[chain.length - 1];
+    if (last.parent && findSkill(taxonomy, last.parent)) {
+      throw new SkillTaxonomyError(`"${entry.name}" is its own ancestor.`, line);
+    }
+  });
+};
+
+const toEntry = (name: unknown, synonyms: unknown, parent: unknown, line?: number): SkillEntry => {
+  if (typeof name !== 'string' || !name.trim()) throw new SkillTaxonomyError('Every skill needs a name.', line);
+  if (!Array.isArray(synonyms) || synonyms.some((synonym) => typeof synonym !== 'string')) {
+    throw new SkillTaxonomyError(`The synonyms of "${name}" must be a list of names.`, line);
+  }
+  if (parent !== undefined && parent !== null && typeof parent !== 'string') {
+    throw new SkillTaxonomyError(`The parent of "${name}" must be a skill name.`, line);
+  }
+  const trimmedParent = typeof parent === 'string' ? parent.trim() : '';
+  if (normalizeSkillText(trimmedParent) === normalizeSkillText(name)) {
+    throw new SkillTaxonomyError(`"${name}" cannot be its own parent.`, line);
+  }
+  return skill(
+    name.trim(),
+    (synonyms as string[]).map((synonym) => synonym.trim()).filter(Boolean),
+    trimmedParent || undefined,
+  );
+};
+
+const parseJson = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SkillTaxonomyError('The file is not valid JSON.');
+  }
+  return entriesFromList(Array.isArray(data) ? data : (data as { skills?: unknown })?.skills);
+};
+
+const entriesFromList = (list: unknown) => {
+  if (!Array.isArray(list)) {
+    throw new SkillTaxonomyError('Expected a list of skills, or an object with a "skills" list.');
+  }
+  return list.map((item, index) => {
+    if (typeof item !== 'object' || item === null) throw new SkillTaxonomyError(`Skill ${index + 1} is not an object.`);
+    const { name, synonyms = [], parent } = item as Record<string, unknown>;
+    return { entry: toEntry(name, synonyms, parent) };
+  });
+};
+
+const parseCsv = (text: string) => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim());
+  if (lines.length === 0) throw new SkillTaxonomyError('The file is empty.');
+
+  const header = splitCsvLine(lines[0].line).map((column) => column.toLowerCase());
+  const column = Object.fromEntries(SKILL_CSV_COLUMNS.map((name) => [name, header.indexOf(name)]));
+  if (column.name < 0) throw new SkillTaxonomyError('Missing column: name', 1);
+
+  return lines.slice(1).map(({ line, number }) => {
+    const fields = splitCsvLine(line);
+    const synonyms = column.synonyms >= 0 && fields[column.synonyms] ? fields[column.synonyms].split(/[;|]/) : [];
+    const parent = column.parent >= 0 ? fields[column.parent] : undefined;
+    return { entry: toEntry(fields[column.name], synonyms, parent, number), line: number };
+  });
+};
+
+/**
+ * Parses a taxonomy file: JSON (`[{ name, synonyms?, parent? }]`, optionally
+ * wrapped as `{ skills: [...] }`) or CSV with `name,synonyms,parent` columns
+ * and synonyms separated by semicolons. Throws a `SkillTaxonomyError`
+ * describing the first problem.
+ */
+export const parseSkillTaxonomy = (text: string, fileName: string): SkillEntry[] => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const parsed = isJson ? parseJson(text) : parseCsv(text);
+  if (parsed.length === 0) throw new SkillTaxonomyError('The file has no skills.');
+  validateEntries(parsed);
+  return parsed.map(({ entry }) => entry);
+};
+
+/** What is wrong with a list of uploaded skills, or null when it can be stored. */
+export const skillEntriesError = (list: unknown): string | null => {
+  try {
+    validateEntries(entriesFromList(list));
+    return null;
+  } catch (error) {
+    if (error instanceof SkillTaxonomyError) return error.message;
+    throw error;
+  }
+};
+
+const cacheEntries = async (imported: SkillEntry[]) => {
+  try {
+    await cache.clear();
+    await Promise.all(imported.map((entry) => cache.set(normalizeSkillText(entry.name), entry)));
+  } catch (error) {
+    console.warn('Could not cache the skills taxonomy:', error);
+  }
+};
+
+const readImports = async (): Promise<SkillEntry[]> => {
+  try {
+    const imported = await api.getSkills();
+    await cacheEntries(imported);
+    return imported;
+  } catch (error) {
+    console.warn('Could not fetch the skills taxonomy, using the cached one:', error);
+  }
+  try {
+    return await cache.values();
+  } catch (error) {
+    console.warn('Could not read the cached skills taxonomy:', error);
+    return [];
+  }
+};
+
+/** Uploads imported skills, replacing earlier imports of the same names. */
+export const saveSkillEntries = async (imported: SkillEntry[]) => {
+  await cacheEntries(await api.importSkills(imported));
+};
+
+/** The built-in skills extended with every import. */
+export const loadSkillTaxonomy = async (): Promise<SkillTaxonomy> => {
+  const imported = await readImports();
+  return imported.length > 0 ? buildSkillTaxonomy([...DEFAULT_SKILLS, ...imported]) : DEFAULT_TAXONOMY;
+};
@@ -0,0 +1,119 @@
+import { Job, QuestionType, TestBlueprint, TestCandidateContext, TestJobContext } from './api';
+import { sameTrait } from './trait-profile';
+
+/**
+ * Test blueprints for ADOF assessments: which personality traits a generated
+ * test measures, how many Likert items each gets, and which question types
+ * make up the knowledge check. Officers start from a preset and may adjust
+ * it, which turns it into a custom blueprint identified by its contents.
+ */
+
+/** Personality traits the item bank covers. */
+export const TEST_TRAITS = ['Conscientiousness', 'Teamwork', 'Communication', 'Adaptability', 'Problem Solving'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  likert: 'Likert (personality)',
+  single_choice: 'Single choice',
+  multi_select: 'Multiple select',
+  numeric: 'Numeric',
+  text: 'Free text',
+  ranking: 'Ranking',
+  image_choice: 'Image choice',
+};
+
+export const ALL_QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const ITEMS_PER_TRAIT_OPTIONS = [2, 4, 6];
+
+/**
+ * Custom blueprints are identified by what they contain, so results can tell
+ * them apart: `custom-<items per trait>-<traits>-<question types>`.
+ */
+export const customBlueprintId = ({ traits, items_per_trait, question_types }: TestBlueprint): string => {
+  const part = (values: string[]) =>
+    [...values]
+      .map((value) => value.trim().toLowerCase().replace(/\s+/g, '_'))
+      .sort()
+      .join('.');
+  return `custom-${items_per_trait}-${part(traits) || 'profile'}-${part(question_types)}`;
+};
+
+/** A blueprint with the given adjustments, which makes it a custom one. */
+export const customBlueprint = (blueprint: TestBlueprint, changes: Partial<TestBlueprint>): TestBlueprint => {
+  const adjusted = { ...blueprint, ...changes };
+  return { ...adjusted, id: customBlueprintId(adjusted), name: 'Custom' };
+};
+
+export const BLUEPRINT_PRESETS: (TestBlueprint & { description: string })[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Every trait and the full knowledge check.',
+    traits: TEST_TRAITS,
+    items_per_trait: 4,
+    question_types: ALL_QUESTION_TYPES,
+  },
+  {
+    id: 'job-profile',
+    name: 'Job profile',
+    description: "More items on the traits in the job's ideal profile, with a short knowledge check.",
+    traits: [],
+    items_per_trait: 6,
+    question_types: ['likert', 'single_choice', 'numeric'],
+  },
+  {
+    id: 'quick-screen',
+    name: 'Quick screen',
+    description: 'Two items per trait and no knowledge check.',
+    traits: TEST_TRAITS,
+    items_per_trait: 2,
+    question_types: ['likert'],
+  },
+];
+
+/** The preset with the given id as a plain blueprint, without its description. */
+export const blueprintPreset = (id: string): TestBlueprint | undefined => {
+  const preset = BLUEPRINT_PRESETS.find((candidate) => candidate.id === id);
+  if (!preset) return undefined;
+  const { description: _description, ...blueprint } = preset;
+  return blueprint;
+};
+
+/** What a test was generated from, for reports; a bare id is described by its preset when it names one. */
+export const describeBlueprint = (blueprint?: TestBlueprint, id = blueprint?.id): string | null => {
+  if (!blueprint) return id ? (blueprintPreset(id)?.name ?? id) : null;
+  const types = blueprint.question_types.map((type) => QUESTION_TYPE_LABELS[type]).join(', ');
+  if (!blueprint.question_types.includes('likert')) return `${blueprint.name}: ${types}`;
+  const traits = blueprint.traits.length > 0 ? blueprint.traits.join(', ') : "the job's ideal profile traits";
+  return `${blueprint.name}: ${blueprint.items_per_trait} items each on ${traits}; ${types}`;
+};
+
+/** What is wrong with a blueprint, or null when a test can be generated from it. */
+export const blueprintError = (blueprint: TestBlueprint, job?: TestJobContext): string | null => {
+  if (blueprint.question_types.length === 0) return 'Choose at least one question type.';
+  if (!blueprint.question_types.includes('likert')) return null;
+  if (blueprint.traits.length > 0) return null;
+  return job?.ideal_traits.some((trait) => TEST_TRAITS.includes(trait))
+    ? null
+    : "The job's ideal profile has no traits this test can measure. Choose the traits yourself.";
+};
+
+/** The parts of a job sent with a test generation request; profiled traits the test knows get its spelling. */
+export const testJobContext = (
+  job: Pick<Job, 'id' | 'title' | 'requirements' | 'skills' | 'ideal_profile'>,
+): TestJobContext => ({
+  id: job.id,
+  title: job.title,
+  requirements: job.requirements,
+  skills: job.skills,
+  ideal_traits: (job.ideal_profile ?? []).map(
+    ({ trait }) => TEST_TRAITS.find((known) => sameTrait(known, trait)) ?? trait,
+  ),
+});
+
+/** The CV details sent with a test generation request; contact details stay out. */
+export const testCandidateContext = (cv: TestCandidateContext): TestCandidateContext => ({
+  experience: cv.experience,
+  education: cv.education,
+  skills: cv.skills,
+});
@@ -0,0 +1,113 @@
+import { TestBlueprint, TestOrigin, TestQuestion, TestTimeLimits } from './api';
+import { AssessmentTiming } from './assessment/engine';
+import { AnswerValue } from './assessment/question-types';
+import { AssessmentTelemetry } from './assessment/telemetry';
+import { getConfig } from './config';
+import { createStore } from './idb';
+
+/**
+ * Unsubmitted test answers, autosaved to IndexedDB per user and test so a
+ * reload or crash does not lose them. Storage failures are logged and
+ * otherwise ignored: drafts are a convenience, never required to take a test.
+ */
+
+export interface TestDraft {
+  userId: string;
+  testId: string;
+  /** Which flow the test belongs to, so each only offers its own drafts. */
+  source: 'tvet' | 'adof';
+  /** The job being assessed, for ADOF drafts. */
+  jobId?: string;
+  /**
+   * The candidate being assessed, for ADOF drafts: an officer assesses many
+   * candidates for one job on the same account, and must never be offered
+   * another candidate's answers.
+   */
+  candidateKey?: string;
+  candidateName?: string;
+  /** The job and blueprint the test was generated for, so the result can still name them after a resume. */
+  origin?: TestOrigin;
+  blueprint?: TestBlueprint;
+  /** Kept with the answers: a regenerated test would not match them. */
+  questions: TestQuestion[];
+  /** Sections and time limits of timed tests. */
+  limits?: TestTimeLimits;
+  /** Answer by question index, as kept by the assessment engine. */
+  answers: Record<number, AnswerValue>;
+  currentQuestionIndex: number;
+  /**
+   * Clock of a timed test. It runs while the test is closed: on resume the
+   * time since `countedUntil` is charged, unless the test was paused under a
+   * `pause_allowed` accommodation.
+   */
+  timing?: AssessmentTiming;
+  /** Time on each question and answer changes so far. */
+  telemetry?: AssessmentTelemetry;
+  /** Epoch milliseconds of the last autosave. */
+  updatedAt: number;
+}
+
+const drafts = createStore<TestDraft>('projekanda-test-drafts', 'drafts');
+
+const keyFor = (userId: string, testId: string) => `${userId}:${testId}`;
+
+const isExpired = (draft: TestDraft, now = Date.now()) =>
+  now - draft.updatedAt > getConfig().draftExpiryHours * 60 * 60 * 1000;
+
+export const saveTestDraft = async (draft: Omit<TestDraft, 'updatedAt'>) => {
+  try {
+    await drafts.set(keyFor(draft.userId, draft.testId), { ...draft, updatedAt: Date.now() });
+  } catch (error) {
+    console.warn('Could not save test draft:', error);
+  }
+};
+
+export const getTestDraft = async (userId: string, testId: string): Promise<TestDraft | null> => {
+  try {
+    const draft = await drafts.get(keyFor(userId, testId));
+    if (!draft) return null;
+    if (isExpired(draft)) {
+      await drafts.delete(keyFor(userId, testId));
+      return null;
+    }
+    return draft;
+  } catch (error) {
+    console.warn('Could not read test draft:', error);
+    return null;
+  }
+};
+
+/** Most recently saved draft with at least one answer; expired drafts are removed on the way. */
+export const findLatestTestDraft = async (
+  userId: string,
+  { source, jobId, candidateKey }: Pick<TestDraft, 'source' | 'jobId' | 'candidateKey'>,
+): Promise<TestDraft | null> => {
+  try {
+    const now = Date.now();
+    const all = await drafts.values();
+    const expired = all.filter((draft) => isExpired(draft, now));
+    await Promise.all(expired.map((draft) => drafts.delete(keyFor(draft.userId, draft.testId))));
+
+    const matching = all
+      .filter((draft) => !isExpired(draft, now) && draft.userId === userId && draft.source === source)
+      .filter((draft) => jobId === undefined || draft.jobId === jobId)
+      .filter((draft) => candidateKey === undefined || draft.candidateKey === candidateKey)
+      .filter((draft) => Object.keys(draft.answers).length > 0)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    return matching[0] ?? null;
+  } catch (error) {
+    console.warn('Could not read test drafts:', error);
+    return null;
+  }
+};
+
+/** Identifies a candidate across their drafts: the CV email, which the form requires. */
+export const candidateDraftKey = ({ email }: { email: string }) => email.trim().toLowerCase();
+
+export const deleteTestDraft = async (userId: string, testId: string) => {
+  try {
+    await drafts.delete(keyFor(userId, testId));
+  } catch (error) {
+    console.warn('Could not delete test draft:', error);
+  }
+};
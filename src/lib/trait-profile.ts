@@ -0,0 +1,60 @@
+import { TraitResult, TraitTarget } from './api';
+
+/**
+ * Comparison of a candidate's trait results with a job's ideal trait
+ * profile, the range of each trait's percentage wanted for the role.
+ */
+
+export type TraitGapStatus = 'below' | 'within' | 'above';
+
+export interface TraitGap {
+  trait: string;
+  percentage: number;
+  min: number;
+  max: number;
+  status: TraitGapStatus;
+  /** Percentage points outside the range; 0 within it. */
+  gap: number;
+}
+
+export const TRAIT_GAP_LABELS: Record<TraitGapStatus, string> = {
+  above: 'Above range',
+  within: 'Within range',
+  below: 'Below range',
+};
+
+/** Trait names match whatever their case and surrounding spaces, as officers type them. */
+export const sameTrait = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Gaps for the profiled traits the test measured, in profile order and named as measured. */
+export const traitGaps = (profile: TraitTarget[], traits: TraitResult[]): TraitGap[] =>
+  profile.flatMap<TraitGap>(({ trait: profiled, min, max }) => {
+    const result = traits.find((candidate) => sameTrait(candidate.trait, profiled));
+    if (!result) return [];
+    const { trait, percentage } = result;
+    if (percentage < min) return [{ trait, percentage, min, max, status: 'below', gap: min - percentage }];
+    if (percentage > max) return [{ trait, percentage, min, max, status: 'above', gap: percentage - max }];
+    return [{ trait, percentage, min, max, status: 'within', gap: 0 }];
+  });
+
+/** Profiled traits the test did not measure. */
+export const unmeasuredTraits = (profile: TraitTarget[], traits: TraitResult[]) =>
+  profile
+    .filter(({ trait }) => !traits.some((candidate) => sameTrait(candidate.trait, trait)))
+    .map(({ trait }) => trait);
+
+/** What is wrong with a profile, or null when it can be saved. */
+export const profileError = (profile: TraitTarget[]): string | null => {
+  const seen = new Set<string>();
+  for (const { trait, min, max } of profile) {
+    const name = trait.trim();
+    if (!name) return 'Every row needs a trait.';
+    if (seen.has(name.toLowerCase())) return `"${name}" is listed twice.`;
+    seen.add(name.toLowerCase());
+    if (![min, max].every((value) => Number.isFinite(value) && value >= 0 && value <= 100)) {
+      return `The range for "${name}" must be between 0 and 100.`;
+    }
+    if (min > max) return `The minimum for "${name}" is above its maximum.`;
+  }
+  return null;
+};
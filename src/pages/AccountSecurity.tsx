@@ -0,0 +1,29 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { TwoFactorSettings } from "@/components/auth/TwoFactorSettings";
+import { homePathFor } from "@/lib/routes";
+import { ArrowLeft } from "lucide-react";
+
+const AccountSecurity = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-2xl px-6 py-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(homePathFor(user.role))}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to dashboard
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Account security</h1>
+          <p className="text-muted-foreground">Signed in as {user.email}</p>
+        </div>
+        <TwoFactorSettings />
+      </div>
+    </div>
+  );
+};
+
+export default AccountSecurity;
@@ -0,0 +1,41 @@
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { AuthForm, AuthMode } from "@/components/AuthForm";
+import { useAuth } from "@/contexts/AuthContext";
+import { homePathFor, RETURN_TO_PARAM, ROUTES, safeReturnPath } from "@/lib/routes";
+
+const MODE_PATHS: Record<AuthMode, string> = {
+  signin: ROUTES.login,
+  signup: ROUTES.signup,
+  "forgot-password": "/forgot-password",
+  "reset-password": "/reset-password",
+  "verify-email": "/verify-email",
+};
+
+interface AuthProps {
+  mode: AuthMode;
+}
+
+/** Sign-in, sign-up and the account recovery pages reached from emailed links. */
+const Auth = ({ mode }: AuthProps) => {
+  const { user, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = safeReturnPath(searchParams.get(RETURN_TO_PARAM));
+
+  if (isLoading) return null;
+
+  // Signing in on this page lands here too, so this is also the post-login redirect.
+  if (user && (mode === "signin" || mode === "signup")) {
+    return <Navigate to={returnTo ?? homePathFor(user.role)} replace />;
+  }
+
+  const handleModeChange = (next: AuthMode) => {
+    // Keep the return URL while switching between sign in and sign up.
+    const keepReturnTo = returnTo && (next === "signin" || next === "signup");
+    navigate(keepReturnTo ? `${MODE_PATHS[next]}?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}` : MODE_PATHS[next]);
+  };
+
+  return <AuthForm mode={mode} onModeChange={handleModeChange} token={searchParams.get("token") ?? undefined} />;
+};
+
+export default Auth;
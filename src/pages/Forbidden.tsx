@@ -0,0 +1,28 @@
+import { useLocation, Link } from "react-router-dom";
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { homePathFor } from "@/lib/routes";
+
+const Forbidden = () => {
+  const location = useLocation();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    console.warn("403: User does not have access to route:", location.pathname);
+  }, [location.pathname]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-2 text-xl text-gray-600">You don't have access to this page</p>
+        {user && <p className="mb-4 text-gray-500">It is not available to {user.role} accounts.</p>}
+        <Link to={user ? homePathFor(user.role) : "/"} className="text-blue-500 underline hover:text-blue-700">
+          Return to your dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
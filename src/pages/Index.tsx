@@ -1,16 +1,10 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { AuthForm } from '@/components/AuthForm';
-import { Dashboard } from '@/components/Dashboard';
-import { ADOFDashboard } from '@/components/ADOFDashboard';
+import { homePathFor, ROUTES } from '@/lib/routes';
 
 const Index = () => {
   const { user, isLoading } = useAuth();
-  const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
-
-  const toggleAuthMode = () => {
-    setAuthMode(prev => prev === 'signin' ? 'signup' : 'signin');
-  };
 
   if (isLoading) {
     return (
@@ -23,19 +17,8 @@ const Index = () => {
     );
   }
 
-  if (user) {
-    // Role-based routing after login
-    if (user.role === 'ADOF') {
-      return <ADOFDashboard />;
-    } else {
-      // Default to Dashboard for TVET role or any other role
-      return <Dashboard />;
-    }
-  }
-
-  return (
-    <AuthForm mode={authMode} onToggleMode={toggleAuthMode} />
-  );
+  // Each role has its own area; the root only forwards there.
+  return <Navigate to={user ? homePathFor(user.role) : ROUTES.login} replace />;
 };
 
 export default Index;
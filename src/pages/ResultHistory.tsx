@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AttemptComparison } from '@/components/history/AttemptComparison';
+import { ResultHistoryTable } from '@/components/history/ResultHistoryTable';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, ResultSummary } from '@/lib/api';
+import { filterResults, HistoryFilters, historyTraits, MOVEMENT_THRESHOLD } from '@/lib/result-history';
+import { ROUTES } from '@/lib/routes';
+import { ArrowLeft, GitCompare, History, Loader2 } from 'lucide-react';
+
+const ALL_TRAITS = 'all';
+
+/** Every result of the signed-in learner, with filters and a comparison of two attempts. */
+const ResultHistory = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [results, setResults] = useState<ResultSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .listResults(user.id)
+      .then((loaded) => {
+        if (!cancelled) setResults(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load your results');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user.id]);
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+
+  const filtered = results ? filterResults(results, filters) : [];
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-5xl px-6 py-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(ROUTES.tvetHome)}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to dashboard
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Assessment history</h1>
+          <p className="text-muted-foreground">Every assessment you have completed, newest first</p>
+        </div>
+
+        {error ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        ) : !results ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+            Loading your results...
+          </div>
+        ) : results.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <p className="text-muted-foreground">You have not completed an assessment yet.</p>
+              <Button onClick={() => navigate(ROUTES.tvetHome)}>Start an assessment</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <History className="w-5 h-5" />
+                  <span>Results</span>
+                </CardTitle>
+                <CardDescription>
+                  Showing {filtered.length} of {results.length} results
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="history-from" className="text-sm text-muted-foreground">
+                      From
+                    </Label>
+                    <Input
+                      id="history-from"
+                      type="date"
+                      value={filters.from ?? ''}
+                      max={filters.to}
+                      onChange={(event) => updateFilter('from', event.target.value)}
+                      className="w-44"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="history-to" className="text-sm text-muted-foreground">
+                      To
+                    </Label>
+                    <Input
+                      id="history-to"
+                      type="date"
+                      value={filters.to ?? ''}
+                      min={filters.from}
+                      onChange={(event) => updateFilter('to', event.target.value)}
+                      className="w-44"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="history-trait" className="text-sm text-muted-foreground">
+                      Trait
+                    </Label>
+                    <Select
+                      value={filters.trait ?? ALL_TRAITS}
+                      onValueChange={(value) => updateFilter('trait', value === ALL_TRAITS ? '' : value)}
+                    >
+                      <SelectTrigger id="history-trait" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_TRAITS}>All traits</SelectItem>
+                        {historyTraits(results).map((trait) => (
+                          <SelectItem key={trait} value={trait}>
+                            {trait}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {hasFilters && (
+                    <Button variant="ghost" onClick={() => setFilters({})}>
+                      Clear filters
+                    </Button>
+                  )}
+                </div>
+
+                {filtered.length > 0 ? (
+                  <ResultHistoryTable
+                    results={filtered}
+                    highlightTrait={filters.trait}
+                    onOpen={(resultId) => navigate(ROUTES.result(resultId))}
+                  />
+                ) : (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No results match these filters.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {results.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <GitCompare className="w-5 h-5" />
+                    <span>Compare attempts</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Which traits moved between two attempts. Changes under {MOVEMENT_THRESHOLD} points count as no
+                    change.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AttemptComparison results={results} />
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultHistory;
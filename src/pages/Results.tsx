@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { TestResults } from '@/components/TestResults';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, TestResult } from '@/lib/api';
+import { homePathFor, ROUTES } from '@/lib/routes';
+import { Loader2 } from 'lucide-react';
+
+/** A single test result, addressable by id so it can be bookmarked or reloaded. */
+const Results = () => {
+  const { resultId } = useParams<{ resultId: string }>();
+  const { user } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Reuse the result handed over after submission instead of fetching it again.
+  const handedOver = (location.state as { result?: TestResult } | null)?.result;
+  const [result, setResult] = useState<TestResult | null>(
+    handedOver?.data.result_id === resultId ? handedOver : null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!resultId || result?.data.result_id === resultId) return;
+    let cancelled = false;
+
+    setError(null);
+    api
+      .getResultById(resultId)
+      .then((loaded) => {
+        if (!cancelled) setResult(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load this result');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resultId, result]);
+
+  const home = user ? homePathFor(user.role) : '/';
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-destructive">{error}</p>
+            <Button onClick={() => navigate(home)} className="mt-4">
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-muted-foreground">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+        Loading result...
+      </div>
+    );
+  }
+
+  return (
+    <TestResults
+      result={result}
+      onNewTest={() => navigate(user?.role === 'TVET' ? ROUTES.tvetHome : home)}
+      onBackToDashboard={() => navigate(home)}
+    />
+  );
+};
+
+export default Results;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { TestDisplay } from '@/components/TestDisplay';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, GenerateTestResponse, TestResult } from '@/lib/api';
+import { ROUTES } from '@/lib/routes';
+import { getTestDraft, TestDraft } from '@/lib/test-drafts';
+import { Loader2 } from 'lucide-react';
+
+/**
+ * The TVET test in progress. The dashboard passes the freshly generated (or
+ * resumed) test in the navigation state; on a direct visit the latest test is
+ * loaded instead. Saved answers for the test are restored either way.
+ */
+const TvetTest = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [testData, setTestData] = useState<GenerateTestResponse | null>(
+    (location.state as { test?: GenerateTestResponse } | null)?.test ?? null
+  );
+  const [error, setError] = useState<string | null>(null);
+  // undefined until the draft lookup for the current test has finished
+  const [draft, setDraft] = useState<TestDraft | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (testData || !user) return;
+    let cancelled = false;
+
+    api
+      .getMcqs(user.id)
+      .then((mcqs) => {
+        if (cancelled) return;
+        if (!mcqs.testId || mcqs.questions.length === 0) {
+          setError('You have no test in progress. Generate a new test from your dashboard.');
+          return;
+        }
+        const { testId, questions, message, ...limits } = mcqs;
+        setTestData({ testId, questions, message: message || '', ...limits });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load your test');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testData, user]);
+
+  useEffect(() => {
+    if (!testData || !user) return;
+    let cancelled = false;
+
+    getTestDraft(user.id, testData.testId).then((saved) => {
+      if (!cancelled) setDraft(saved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testData, user]);
+
+  const handleSubmitted = (result: TestResult) => {
+    navigate(ROUTES.result(result.data.result_id), { state: { result } });
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground">{error}</p>
+            <Button onClick={() => navigate(ROUTES.tvetHome)} className="mt-4">
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!testData || !user || draft === undefined) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-muted-foreground">
+        <Loader2 className="w-6 h-6 mr-2 animate-spin" />
+        Loading your test...
+      </div>
+    );
+  }
+
+  return (
+    <TestDisplay
+      testData={testData}
+      userId={user.id}
+      initialDraft={draft}
+      onNewTest={() => navigate(ROUTES.tvetHome)}
+      onSubmitted={handleSubmitted}
+    />
+  );
+};
+
+export default TvetTest;
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: 'local' | 'staging' | 'production';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_HEALTH_CHECK_PATH?: string;
+  readonly VITE_MOCK_BACKEND?: 'true' | 'false';
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_DRAFT_EXPIRY_HOURS?: string;
+  /** Comma-separated, e.g. "300,60". */
+  readonly VITE_TIME_WARNING_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}